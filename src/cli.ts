@@ -0,0 +1,248 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { OpenAPIConverter } from './services/OpenAPIConverter';
+import { CollectionRunner, CollectionRunSummary, RequestRunResult } from './services/CollectionRunner';
+import { RequestExecutor } from './services/RequestExecutor';
+import { CookieJar } from './services/CookieJar';
+import { OAuth2Client } from './services/OAuth2Client';
+import { DataFile, DataRow } from './services/DataFile';
+import { RunReport, RunReportInfo } from './services/RunReport';
+import { Environment } from './services/EnvironmentManager';
+import { OpenAPIDocument } from './types/openapi';
+
+/**
+ * Command line runner for CI: sends the requests of an exported collection with their
+ * assertions and scripts, and exits with 1 when any of them fails or 2 when it can't run.
+ * Must not import the vscode module, directly or through the services it uses.
+ */
+
+const USAGE = `Usage: api-tester <collection.json> [options]
+
+Runs the requests of an OpenAPI document exported from API Tester.
+
+Options:
+  -e, --environment <file>   Environment exported from API Tester; secret variables
+                             are exported empty, pass them with --var
+  -c, --collection <name>    Only run this collection or folder, e.g. Shop/Orders
+  -d, --data <file>          CSV or JSON data file, one iteration per row
+  -n, --iterations <n>       Iterations when there is no data file (default 1)
+      --var <name=value>     Set a variable over the environment; may be repeated
+      --delay <ms>           Wait between requests (default 0)
+      --bail                 Stop at the first failed request
+      --timeout <ms>         Request timeout (default 30000, 0 disables it)
+      --connect-timeout <ms> Connection timeout (default 10000, 0 disables it)
+      --no-redirects         Don't follow redirects
+      --max-redirects <n>    Maximum redirect hops to follow (default 20)
+      --working-dir <dir>    Resolves relative data, body and form file paths (default: current directory)
+      --junit <file>         Write a JUnit XML report
+      --json <file>          Write a JSON report
+  -h, --help                 Show this help`;
+
+class UsageError extends Error {}
+
+async function main(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            environment: { type: 'string', short: 'e' },
+            collection: { type: 'string', short: 'c' },
+            data: { type: 'string', short: 'd' },
+            iterations: { type: 'string', short: 'n' },
+            var: { type: 'string', multiple: true },
+            delay: { type: 'string' },
+            bail: { type: 'boolean' },
+            timeout: { type: 'string' },
+            'connect-timeout': { type: 'string' },
+            'no-redirects': { type: 'boolean' },
+            'max-redirects': { type: 'string' },
+            'working-dir': { type: 'string' },
+            junit: { type: 'string' },
+            json: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (positionals.length !== 1) {
+        throw new UsageError('Expected one collection file');
+    }
+
+    const baseDir = path.resolve(values['working-dir'] || '.');
+    const collectionFile = positionals[0];
+    const document = parseJson(await readFile(collectionFile), collectionFile) as OpenAPIDocument;
+    if (!document || typeof document.paths !== 'object') {
+        throw new UsageError(`${collectionFile} is not an OpenAPI document`);
+    }
+    let requests = OpenAPIConverter.fromOpenAPI({
+        document,
+        metadata: { createdAt: Date.now(), updatedAt: Date.now(), version: document.info?.version || '1.0.0' },
+    });
+    if (values.collection) {
+        requests = CollectionRunner.select(requests, values.collection);
+    }
+    if (requests.length === 0) {
+        throw new UsageError(values.collection ? `No requests in ${values.collection}` : `No requests in ${collectionFile}`);
+    }
+
+    const environment = values.environment ? await loadEnvironment(values.environment) : undefined;
+    const variables: Record<string, string> = { ...(environment?.variables || {}) };
+    for (const assignment of values.var || []) {
+        const index = assignment.indexOf('=');
+        if (index <= 0) {
+            throw new UsageError(`--var expects name=value, got ${assignment}`);
+        }
+        variables[assignment.slice(0, index)] = assignment.slice(index + 1);
+    }
+
+    let data: DataRow[] | undefined;
+    if (values.data) {
+        data = await DataFile.load(values.data, baseDir);
+        if (data.length === 0) {
+            throw new UsageError(`${values.data} has no rows`);
+        }
+    }
+
+    const iterations = toNumber(values.iterations, '--iterations', 1);
+    const options = {
+        delay: toNumber(values.delay, '--delay', 0),
+        timeout: toNumber(values.timeout, '--timeout', 30000),
+        connectTimeout: toNumber(values['connect-timeout'], '--connect-timeout', 10000),
+        maxRedirects: toNumber(values['max-redirects'], '--max-redirects', 20),
+    };
+
+    const info: RunReportInfo = {
+        name: values.collection || document.info?.title || path.basename(collectionFile),
+        environment: environment?.name,
+        startedAt: Date.now(),
+    };
+    console.log(`${info.name}${info.environment ? ` (${info.environment})` : ''}`);
+
+    // Cookies set by one request are sent by the next, and OAuth 2.0 tokens reused, for this run only
+    const memory = new Map<string, unknown>();
+    const state = {
+        get: <T>(key: string, defaultValue: T) => (memory.has(key) ? memory.get(key) as T : defaultValue),
+        update: async (key: string, value: unknown) => { memory.set(key, value); },
+    };
+    const secrets = {
+        get: async (key: string) => memory.get(key) as string | undefined,
+        store: async (key: string, value: string) => { memory.set(key, value); },
+    };
+    const executor = new RequestExecutor();
+
+    const showIterations = !!data || iterations > 1;
+    const runner = new CollectionRunner(executor);
+    process.once('SIGINT', () => runner.cancel());
+    const summary = await runner.run(requests, variables, {
+        ...options,
+        iterations,
+        data,
+        stopOnFailure: !!values.bail,
+        followRedirects: !values['no-redirects'],
+        cookies: new CookieJar(state).store(),
+        oauth2: new OAuth2Client(executor, secrets),
+        baseDir,
+    }, {
+        onIteration: (iteration, row) => showIterations && printIteration(iteration, row),
+        onResult: printResult,
+    });
+
+    printSummary(summary);
+    if (values.junit) {
+        await writeReport(values.junit, RunReport.junit(summary, info));
+    }
+    if (values.json) {
+        await writeReport(values.json, RunReport.json(summary, info));
+    }
+    return summary.failed > 0 || summary.stopped ? 1 : 0;
+}
+
+async function readFile(file: string): Promise<string> {
+    try {
+        return await fs.promises.readFile(file, 'utf8');
+    } catch (error) {
+        throw new UsageError(`Cannot read ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+function parseJson(text: string, file: string): any {
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new UsageError(`${file} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Same format as Export Environment in the extension
+ */
+async function loadEnvironment(file: string): Promise<Pick<Environment, 'name' | 'variables'>> {
+    const data = parseJson(await readFile(file), file);
+    if (!data || typeof data.name !== 'string' || typeof data.variables !== 'object' || data.variables === null) {
+        throw new UsageError(`${file} is not an exported environment`);
+    }
+    return data;
+}
+
+async function writeReport(file: string, content: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+    await fs.promises.writeFile(file, content, 'utf8');
+    console.log(`Report written to ${file}`);
+}
+
+function toNumber(value: string | undefined, option: string, defaultValue: number): number {
+    if (value === undefined) return defaultValue;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+        throw new UsageError(`${option} expects a whole number, got ${value}`);
+    }
+    return number;
+}
+
+function printIteration(iteration: number, row: DataRow | undefined): void {
+    const values = row ? Object.entries(row).map(([key, value]) => `${key}=${value}`).join(', ') : '';
+    console.log(`\nIteration ${iteration}${values ? `: ${values}` : ''}`);
+}
+
+function printResult(result: RequestRunResult): void {
+    const mark = result.skipped ? '-' : result.passed ? '✓' : '✗';
+    const status = result.status !== undefined ? ` ${result.status} ${result.statusText || ''}`.trimEnd() : '';
+    console.log(`${mark} ${result.name}${status} (${result.time}ms)`);
+    if (result.error) {
+        console.log(`    ${result.error}`);
+    }
+    for (const test of result.tests) {
+        if (!test.passed) {
+            console.log(`    ✗ ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+    }
+    for (const log of result.logs.filter(l => l.level === 'error' || l.level === 'warn')) {
+        console.log(`    [${log.phase}] ${log.message}`);
+    }
+}
+
+function printSummary(summary: CollectionRunSummary): void {
+    const parts = [`${summary.passed} passed`, `${summary.failed} failed`];
+    if (summary.skipped > 0) parts.push(`${summary.skipped} skipped`);
+    console.log(`\n${summary.total} request${summary.total === 1 ? '' : 's'}: ${parts.join(', ')} in ${summary.time}ms${summary.stopped ? ' (stopped early)' : ''}`);
+    if (summary.failedIterations.length > 0 && summary.iterations > 1) {
+        console.log(`Failed iterations: ${summary.failedIterations.join(', ')}`);
+    }
+}
+
+main(process.argv.slice(2)).then(
+    code => { process.exitCode = code; },
+    error => {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+        // parseArgs rejects unknown options and missing values with ERR_PARSE_ARGS_* codes
+        if (error instanceof UsageError || String((error as { code?: unknown })?.code).startsWith('ERR_PARSE_ARGS')) {
+            console.error('Run api-tester --help for usage');
+        }
+        process.exitCode = 2;
+    }
+);
@@ -4,6 +4,12 @@ import { EndpointDiscovery } from './services/EndpointDiscovery';
 import { RequestHistory } from './services/RequestHistory';
 import { EnvironmentManager } from './services/EnvironmentManager';
 import { OpenAPIStorage } from './services/OpenAPIStorage';
+import { RequestLog } from './services/RequestLog';
+import { RequestExecutor } from './services/RequestExecutor';
+import { GrpcClient } from './services/GrpcClient';
+import { CookieJar } from './services/CookieJar';
+import { CollectionRunner } from './services/CollectionRunner';
+import { OAuth2Client } from './services/OAuth2Client';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('API Tester extension is now active!');
@@ -12,13 +18,23 @@ export function activate(context: vscode.ExtensionContext) {
     const openAPIStorage = new OpenAPIStorage(context);
     const requestHistory = new RequestHistory(context, openAPIStorage);
     const environmentManager = new EnvironmentManager(context);
+    const requestLog = new RequestLog(context);
+    const requestExecutor = new RequestExecutor();
+    const grpcClient = new GrpcClient(requestExecutor);
+    const cookieJar = new CookieJar(context.globalState);
+    const oauth2 = new OAuth2Client(requestExecutor, context.secrets);
 
     // Command to open the API Tester panel
     const openPanelCommand = vscode.commands.registerCommand('apiTester.openPanel', () => {
         ApiTesterPanel.createOrShow(context.extensionUri, {
             endpointDiscovery,
             requestHistory,
-            environmentManager
+            environmentManager,
+            requestLog,
+            requestExecutor,
+            grpcClient,
+            cookieJar,
+            oauth2
         });
     });
 
@@ -43,7 +59,12 @@ export function activate(context: vscode.ExtensionContext) {
         ApiTesterPanel.createOrShow(context.extensionUri, {
             endpointDiscovery,
             requestHistory,
-            environmentManager
+            environmentManager,
+            requestLog,
+            requestExecutor,
+            grpcClient,
+            cookieJar,
+            oauth2
         });
         
         ApiTesterPanel.currentPanel?.postMessage({
@@ -68,7 +89,12 @@ export function activate(context: vscode.ExtensionContext) {
             ApiTesterPanel.createOrShow(context.extensionUri, {
                 endpointDiscovery,
                 requestHistory,
-                environmentManager
+                environmentManager,
+                requestLog,
+                requestExecutor,
+                grpcClient,
+                cookieJar,
+                oauth2
             });
             
             ApiTesterPanel.currentPanel?.postMessage({
@@ -80,6 +106,34 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Command to run a saved collection or folder
+    const runCollectionCommand = vscode.commands.registerCommand('apiTester.runCollection', async () => {
+        const collections = CollectionRunner.collections(await requestHistory.getSavedRequests());
+        if (collections.length === 0) {
+            vscode.window.showInformationMessage('No collections yet. Set a collection in the Settings tab of a request and save it.');
+            return;
+        }
+
+        const collection = await vscode.window.showQuickPick(collections, { placeHolder: 'Collection or folder to run' });
+        if (!collection) return;
+
+        ApiTesterPanel.createOrShow(context.extensionUri, {
+            endpointDiscovery,
+            requestHistory,
+            environmentManager,
+            requestLog,
+            requestExecutor,
+            grpcClient,
+            cookieJar,
+            oauth2
+        });
+
+        ApiTesterPanel.currentPanel?.postMessage({
+            type: 'showRunner',
+            collection
+        });
+    });
+
     // Status bar item
     const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
     statusBarItem.text = '$(zap) API Tester';
@@ -97,7 +151,8 @@ export function activate(context: vscode.ExtensionContext) {
             { scheme: 'file', language: 'go' },
             { scheme: 'file', language: 'java' },
             { scheme: 'file', language: 'rust' },
-            { scheme: 'file', language: 'php' }
+            { scheme: 'file', language: 'php' },
+            { scheme: 'file', pattern: '**/*.proto' }
         ],
         codeLensProvider
     );
@@ -194,9 +249,12 @@ export function activate(context: vscode.ExtensionContext) {
         discoverEndpointsCommand,
         testFromCursorCommand,
         importOpenAPICommand,
+        runCollectionCommand,
         statusBarItem,
         codeLensDisposable,
-        openAPIWatcher
+        openAPIWatcher,
+        requestExecutor,
+        grpcClient
     );
 }
 
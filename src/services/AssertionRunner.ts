@@ -0,0 +1,227 @@
+import { OpenAPIAssertion } from '../types/openapi';
+import { JsonPath } from './JsonPath';
+import { SchemaValidator } from './SchemaValidator';
+
+export interface AssertionResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+    time: number;
+}
+
+export interface AssertionResult {
+    name: string;
+    passed: boolean;
+    error?: string;
+}
+
+const OPERATOR_LABELS: Record<OpenAPIAssertion['operator'], string> = {
+    equals: 'equals',
+    notEquals: 'does not equal',
+    contains: 'contains',
+    notContains: 'does not contain',
+    matches: 'matches',
+    exists: 'exists',
+    notExists: 'does not exist',
+    lessThan: 'is less than',
+    greaterThan: 'is greater than',
+};
+
+const NEGATED_OPERATORS: OpenAPIAssertion['operator'][] = ['notEquals', 'notContains', 'notExists'];
+const MAX_SCHEMA_ERRORS = 20;
+
+/**
+ * AssertionRunner - Checks a response against a request's declarative assertions
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class AssertionRunner {
+    /**
+     * Run the enabled assertions. Property and value may hold {{variables}}.
+     */
+    static run(assertions: OpenAPIAssertion[], response: AssertionResponse, interpolate: (text: string) => string = (text) => text): AssertionResult[] {
+        return assertions
+            .filter(assertion => assertion.enabled !== false)
+            .map(assertion => {
+                const resolved: OpenAPIAssertion = {
+                    ...assertion,
+                    property: assertion.property === undefined ? undefined : interpolate(assertion.property),
+                    value: assertion.value === undefined ? undefined : interpolate(assertion.value),
+                };
+                const name = this.describe(resolved);
+                try {
+                    const error = this.evaluate(resolved, response);
+                    return error ? { name, passed: false, error } : { name, passed: true };
+                } catch (error) {
+                    return { name, passed: false, error: error instanceof Error ? error.message : String(error) };
+                }
+            });
+    }
+
+    /**
+     * A readable name such as "Header content-type contains json"
+     */
+    static describe(assertion: OpenAPIAssertion): string {
+        if (assertion.source === 'jsonSchema') return 'Body matches JSON Schema';
+
+        const subject = this.subject(assertion);
+        if (assertion.operator === 'exists' || assertion.operator === 'notExists') {
+            return `${subject} ${OPERATOR_LABELS[assertion.operator]}`;
+        }
+        const unit = assertion.source === 'responseTime' ? ' ms' : '';
+        return `${subject} ${OPERATOR_LABELS[assertion.operator] || assertion.operator} ${assertion.value ?? ''}${unit}`;
+    }
+
+    /**
+     * Returns why the assertion failed, or undefined when it passed
+     */
+    private static evaluate(assertion: OpenAPIAssertion, response: AssertionResponse): string | undefined {
+        if (assertion.source === 'jsonSchema') {
+            return this.evaluateSchema(assertion.value || '', response.body);
+        }
+
+        const values = this.actualValues(assertion, response);
+        const operator = assertion.operator;
+        if (operator === 'exists') {
+            return values.length > 0 ? undefined : `${this.subject(assertion)} was not found`;
+        }
+        if (operator === 'notExists') {
+            return values.length === 0 ? undefined : `${this.subject(assertion)} was found: ${this.format(values[0])}`;
+        }
+        if (values.length === 0) {
+            return NEGATED_OPERATORS.includes(operator) ? undefined : `${this.subject(assertion)} was not found`;
+        }
+
+        // A path that selects several values is compared as the list of them
+        const actual = values.length === 1 ? values[0] : values;
+        const text = assertion.value ?? '';
+        const expected = this.parseExpected(text);
+        const passed = this.compare(operator, actual, expected, text);
+        if (passed) return undefined;
+
+        const unit = assertion.source === 'responseTime' ? ' ms' : '';
+        return `Expected ${this.subject(assertion)} ${OPERATOR_LABELS[operator] || operator} ${text}${unit}, got ${this.format(actual)}${unit}`;
+    }
+
+    private static compare(operator: OpenAPIAssertion['operator'], actual: unknown, expected: unknown, text: string): boolean {
+        switch (operator) {
+            case 'equals':
+                return this.equals(actual, expected, text);
+            case 'notEquals':
+                return !this.equals(actual, expected, text);
+            case 'contains':
+                return this.contains(actual, expected, text);
+            case 'notContains':
+                return !this.contains(actual, expected, text);
+            case 'matches': {
+                let pattern: RegExp;
+                try {
+                    pattern = new RegExp(text);
+                } catch {
+                    throw new Error(`Invalid regular expression: ${text}`);
+                }
+                return pattern.test(this.format(actual, false));
+            }
+            case 'lessThan':
+            case 'greaterThan': {
+                const left = Number(actual);
+                const right = Number(text);
+                if (!Number.isFinite(left) || !Number.isFinite(right)) {
+                    throw new Error(`Cannot compare ${this.format(actual)} with ${text} as numbers`);
+                }
+                return operator === 'lessThan' ? left < right : left > right;
+            }
+            default:
+                throw new Error(`Unknown operator ${operator}`);
+        }
+    }
+
+    /**
+     * Expected values are typed as JSON when they parse, so 200, true and {"a":1} compare
+     * structurally; otherwise the text is compared with the actual value as shown
+     */
+    private static equals(actual: unknown, expected: unknown, text: string): boolean {
+        return JsonPath.equals(actual, expected) || this.format(actual, false) === text;
+    }
+
+    private static contains(actual: unknown, expected: unknown, text: string): boolean {
+        if (Array.isArray(actual)) {
+            return actual.some(item => this.equals(item, expected, text));
+        }
+        if (typeof actual === 'object' && actual !== null) {
+            return Object.prototype.hasOwnProperty.call(actual, text);
+        }
+        return this.format(actual, false).includes(text);
+    }
+
+    private static actualValues(assertion: OpenAPIAssertion, response: AssertionResponse): unknown[] {
+        switch (assertion.source) {
+            case 'status':
+                return [response.status];
+            case 'responseTime':
+                return [response.time];
+            case 'body':
+                return [response.body];
+            case 'header': {
+                const name = (assertion.property || '').toLowerCase();
+                const key = Object.keys(response.headers).find(k => k.toLowerCase() === name);
+                return key === undefined ? [] : [response.headers[key]];
+            }
+            case 'jsonPath':
+                return JsonPath.query(this.parseBody(response.body), assertion.property || '$');
+            default:
+                throw new Error(`Unknown assertion source ${assertion.source}`);
+        }
+    }
+
+    private static evaluateSchema(schemaText: string, body: string): string | undefined {
+        let schema: unknown;
+        try {
+            schema = JSON.parse(schemaText);
+        } catch (error) {
+            throw new Error(`Schema is not valid JSON: ${(error as Error).message}`);
+        }
+        if (typeof schema !== 'object' && typeof schema !== 'boolean') {
+            throw new Error('Schema must be a JSON object');
+        }
+
+        const errors = new SchemaValidator(schema).validate(schema as object, this.parseBody(body));
+        if (errors.length === 0) return undefined;
+
+        const lines = errors.slice(0, MAX_SCHEMA_ERRORS).map(error => `${error.path || '/'}: ${error.message}`);
+        if (errors.length > MAX_SCHEMA_ERRORS) {
+            lines.push(`...and ${errors.length - MAX_SCHEMA_ERRORS} more`);
+        }
+        return lines.join('\n');
+    }
+
+    private static parseBody(body: string): unknown {
+        try {
+            return JSON.parse(body);
+        } catch {
+            throw new Error('Response body is not valid JSON');
+        }
+    }
+
+    private static parseExpected(text: string): unknown {
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
+    }
+
+    private static subject(assertion: OpenAPIAssertion): string {
+        switch (assertion.source) {
+            case 'status': return 'Status';
+            case 'responseTime': return 'Response time';
+            case 'header': return `Header ${assertion.property || ''}`;
+            case 'jsonPath': return assertion.property || '$';
+            default: return 'Body';
+        }
+    }
+
+    private static format(value: unknown, truncate: boolean = true): string {
+        const text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+        return truncate && text.length > 200 ? `${text.slice(0, 200)}...` : text;
+    }
+}
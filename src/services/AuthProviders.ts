@@ -0,0 +1,373 @@
+import * as crypto from 'crypto';
+import { ExecuteRequest, ExecuteResult } from './RequestExecutor';
+import { RequestAuth } from './AuthResolver';
+import { OpenAPISecurityScheme } from '../types/openapi';
+
+/**
+ * A kind of auth whose headers depend on the request as it is sent: the final method,
+ * URL, headers and body. Register new ones with AuthResolver.register().
+ */
+export interface AuthProvider {
+    readonly type: string;              // RequestAuth.type it handles
+    /**
+     * Headers to add to the request, which is already interpolated and has its body built.
+     * The credentials in auth may still hold {{variables}}.
+     */
+    sign(request: ExecuteRequest, auth: RequestAuth, interpolate: (text: string) => string): Record<string, string>;
+    /**
+     * Headers to send the request again with after a 401, or undefined when the response
+     * isn't a challenge this provider can answer
+     */
+    challenge?(request: ExecuteRequest, response: ExecuteResult, auth: RequestAuth, interpolate: (text: string) => string): Record<string, string> | undefined;
+    /**
+     * The components.securitySchemes entry for the auth, without its credentials
+     */
+    toSecurityScheme(auth: RequestAuth): OpenAPISecurityScheme;
+    /**
+     * Auth settings for a scheme this provider recognizes, with the credentials left empty
+     */
+    fromSecurityScheme(scheme: OpenAPISecurityScheme): RequestAuth | undefined;
+}
+
+type Interpolate = (text: string) => string;
+
+const value = (interpolate: Interpolate, text?: string) => (text ? interpolate(text).trim() : '');
+
+const header = (headers: Record<string, string>, name: string) =>
+    Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1];
+
+const bodyBuffer = (request: ExecuteRequest) =>
+    typeof request.body === 'string' ? Buffer.from(request.body, 'utf8') : request.body || Buffer.alloc(0);
+
+// Non-secret settings kept in the x-auth extension of a scheme, so an import gets them back
+const settings = (auth: RequestAuth, keys: (keyof RequestAuth)[]): Record<string, string> => {
+    const result: Record<string, string> = { type: auth.type };
+    for (const key of keys) {
+        if (auth[key] !== undefined) result[key] = String(auth[key]);
+    }
+    return result;
+};
+
+/**
+ * HTTP Digest (RFC 7616): the first request gets a 401 with a nonce, which is answered and
+ * then reused, with a growing nonce count, for later requests to the same server
+ */
+export class DigestAuthProvider implements AuthProvider {
+    readonly type = 'digest';
+    private challenges = new Map<string, { params: Record<string, string>; count: number }>();
+
+    sign(request: ExecuteRequest, auth: RequestAuth, interpolate: Interpolate): Record<string, string> {
+        const cached = this.challenges.get(this.key(request, auth, interpolate));
+        return cached ? this.authorization(request, auth, interpolate, cached) : {};
+    }
+
+    challenge(request: ExecuteRequest, response: ExecuteResult, auth: RequestAuth, interpolate: Interpolate): Record<string, string> | undefined {
+        const params = DigestAuthProvider.parseChallenge(header(response.headers, 'www-authenticate') || '');
+        if (!params?.nonce) return undefined;
+
+        const cached = { params, count: 0 };
+        this.challenges.set(this.key(request, auth, interpolate), cached);
+        return this.authorization(request, auth, interpolate, cached);
+    }
+
+    toSecurityScheme(): OpenAPISecurityScheme {
+        return { type: 'http', scheme: 'digest' };
+    }
+
+    fromSecurityScheme(scheme: OpenAPISecurityScheme): RequestAuth | undefined {
+        return scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'digest'
+            ? { type: 'digest', username: '', password: '' }
+            : undefined;
+    }
+
+    private authorization(request: ExecuteRequest, auth: RequestAuth, interpolate: Interpolate, challenge: { params: Record<string, string>; count: number }): Record<string, string> {
+        const { params } = challenge;
+        const algorithm = (params.algorithm || 'MD5').toUpperCase();
+        const hashName = algorithm.startsWith('SHA-512-256') ? 'sha512-256' : algorithm.startsWith('SHA-256') ? 'sha256' : 'md5';
+        const hash = (text: string) => crypto.createHash(hashName).update(text).digest('hex');
+        const offered = (params.qop || '').split(',').map(q => q.trim().toLowerCase());
+        const qop = offered.includes('auth') ? 'auth' : offered.includes('auth-int') ? 'auth-int' : undefined;
+
+        const url = new URL(request.url);
+        const uri = url.pathname + url.search;
+        const username = value(interpolate, auth.username);
+        const password = auth.password ? interpolate(auth.password) : '';
+        const cnonce = crypto.randomBytes(8).toString('hex');
+        const nc = (++challenge.count).toString(16).padStart(8, '0');
+
+        let ha1 = hash(`${username}:${params.realm || ''}:${password}`);
+        if (algorithm.endsWith('-SESS')) {
+            ha1 = hash(`${ha1}:${params.nonce}:${cnonce}`);
+        }
+        const ha2 = qop === 'auth-int'
+            ? hash(`${request.method.toUpperCase()}:${uri}:${crypto.createHash(hashName).update(bodyBuffer(request)).digest('hex')}`)
+            : hash(`${request.method.toUpperCase()}:${uri}`);
+        const digest = qop
+            ? hash(`${ha1}:${params.nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+            : hash(`${ha1}:${params.nonce}:${ha2}`);
+
+        const quote = (text: string) => `"${text.replace(/["\\]/g, '\\$&')}"`;
+        const parts = [
+            `username=${quote(username)}`,
+            `realm=${quote(params.realm || '')}`,
+            `nonce=${quote(params.nonce)}`,
+            `uri=${quote(uri)}`,
+            `algorithm=${params.algorithm || 'MD5'}`,
+            `response=${quote(digest)}`,
+        ];
+        if (qop) parts.push(`qop=${qop}`, `nc=${nc}`, `cnonce=${quote(cnonce)}`);
+        if (params.opaque !== undefined) parts.push(`opaque=${quote(params.opaque)}`);
+        return { 'Authorization': `Digest ${parts.join(', ')}` };
+    }
+
+    private key(request: ExecuteRequest, auth: RequestAuth, interpolate: Interpolate): string {
+        return `${new URL(request.url).origin} ${value(interpolate, auth.username)}`;
+    }
+
+    /**
+     * The parameters of the Digest challenge in a WWW-Authenticate header, which may offer other schemes too
+     */
+    static parseChallenge(header: string): Record<string, string> | undefined {
+        const scheme = /(?:^|[\s,])Digest\s/i.exec(header);
+        if (!scheme) return undefined;
+
+        const params: Record<string, string> = {};
+        const pattern = /\s*,?\s*([A-Za-z0-9_-]+)(?:\s*=\s*("(?:[^"\\]|\\.)*"|[^\s,]*))?/y;
+        pattern.lastIndex = scheme.index + scheme[0].length;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(header)) && match[0]) {
+            // A bare token starts the next scheme's challenge
+            if (match[2] === undefined) break;
+            const raw = match[2];
+            params[match[1].toLowerCase()] = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, '$1') : raw;
+        }
+        return params;
+    }
+}
+
+/**
+ * AWS Signature Version 4: signs the method, path, query, host, body and x-amz-* headers
+ * with a key derived from the secret key, date, region and service
+ */
+export class AwsSigV4AuthProvider implements AuthProvider {
+    readonly type = 'awsv4';
+
+    sign(request: ExecuteRequest, auth: RequestAuth, interpolate: Interpolate): Record<string, string> {
+        const accessKey = value(interpolate, auth.accessKey);
+        const secretKey = value(interpolate, auth.secretKey);
+        const sessionToken = value(interpolate, auth.sessionToken);
+        const region = value(interpolate, auth.region) || 'us-east-1';
+        const service = value(interpolate, auth.service) || 'execute-api';
+        if (!accessKey || !secretKey) throw new Error('AWS Signature V4 needs an access key and a secret key');
+
+        const url = new URL(request.url);
+        const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+        const date = amzDate.slice(0, 8);
+        const payloadHash = crypto.createHash('sha256').update(bodyBuffer(request)).digest('hex');
+
+        const added: Record<string, string> = { 'X-Amz-Date': amzDate };
+        if (sessionToken) added['X-Amz-Security-Token'] = sessionToken;
+        if (service === 's3') added['X-Amz-Content-Sha256'] = payloadHash;
+
+        // Host, Content-Type and every x-amz-* header are signed; others may be changed on the way
+        const signed = new Map<string, string>([['host', url.host]]);
+        for (const [key, headerValue] of Object.entries({ ...request.headers, ...added })) {
+            const name = key.toLowerCase();
+            if (name === 'content-type' || name.startsWith('x-amz-')) {
+                signed.set(name, headerValue.trim().replace(/\s+/g, ' '));
+            }
+        }
+        const names = Array.from(signed.keys()).sort();
+        const signedHeaders = names.join(';');
+
+        const canonicalRequest = [
+            request.method.toUpperCase(),
+            this.canonicalPath(url.pathname, service === 's3'),
+            Array.from(url.searchParams)
+                .map(([key, param]) => [this.encode(key), this.encode(param)])
+                .sort(([a, x], [b, y]) => (a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0))
+                .map(([key, param]) => `${key}=${param}`)
+                .join('&'),
+            names.map(name => `${name}:${signed.get(name)}\n`).join(''),
+            signedHeaders,
+            payloadHash,
+        ].join('\n');
+
+        const scope = `${date}/${region}/${service}/aws4_request`;
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, crypto.createHash('sha256').update(canonicalRequest).digest('hex')].join('\n');
+        const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+        const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretKey}`, date), region), service), 'aws4_request');
+        const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+        return {
+            ...added,
+            'Authorization': `AWS4-HMAC-SHA256 Credential=${accessKey}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        };
+    }
+
+    // The convention of API Gateway's OpenAPI extensions
+    toSecurityScheme(auth: RequestAuth): OpenAPISecurityScheme {
+        return {
+            type: 'apiKey',
+            in: 'header',
+            name: 'Authorization',
+            'x-amazon-apigateway-authtype': 'awsSigv4',
+            'x-auth': settings(auth, ['region', 'service']),
+        };
+    }
+
+    fromSecurityScheme(scheme: OpenAPISecurityScheme): RequestAuth | undefined {
+        if (scheme['x-auth']?.type !== this.type && scheme['x-amazon-apigateway-authtype']?.toLowerCase() !== 'awssigv4') return undefined;
+        return { type: this.type, accessKey: '', secretKey: '', region: scheme['x-auth']?.region, service: scheme['x-auth']?.service };
+    }
+
+    /**
+     * Each segment is encoded once more, except for S3, which signs the path as sent
+     */
+    private canonicalPath(path: string, s3: boolean): string {
+        return path.split('/').map(segment => {
+            let decoded = segment;
+            try {
+                decoded = decodeURIComponent(segment);
+            } catch {
+                // Stray % signs are signed as they are
+            }
+            const once = this.encode(decoded);
+            return s3 ? once : this.encode(once);
+        }).join('/') || '/';
+    }
+
+    // RFC 3986 unreserved characters are left alone
+    private encode(text: string): string {
+        return encodeURIComponent(text).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+    }
+}
+
+/**
+ * HMAC of a string built from the request, in a header of its own. The template names the parts:
+ * {method}, {url}, {path} (with the query), {host}, {timestamp}, {body}, {bodyHash} and {header:Name};
+ * a literal \n is a newline.
+ */
+export class HmacAuthProvider implements AuthProvider {
+    readonly type = 'hmac';
+    static readonly DEFAULT_TEMPLATE = '{method}\\n{path}\\n{timestamp}\\n{bodyHash}';
+
+    sign(request: ExecuteRequest, auth: RequestAuth, interpolate: Interpolate): Record<string, string> {
+        const secret = auth.secret ? interpolate(auth.secret) : '';
+        if (!secret) throw new Error('HMAC auth needs a secret');
+
+        const algorithm = (auth.algorithm || 'sha256').toLowerCase();
+        const encoding = auth.encoding === 'base64' ? 'base64' : 'hex';
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const url = new URL(request.url);
+        const body = bodyBuffer(request);
+
+        const template = interpolate(auth.template || HmacAuthProvider.DEFAULT_TEMPLATE).replace(/\\n/g, '\n');
+        const message = template.replace(/\{(method|url|path|host|timestamp|body|bodyHash|header:[^}]+)\}/g, (_, part: string) => {
+            switch (part) {
+                case 'method': return request.method.toUpperCase();
+                case 'url': return request.url;
+                case 'path': return url.pathname + url.search;
+                case 'host': return url.host;
+                case 'timestamp': return timestamp;
+                case 'body': return body.toString('utf8');
+                case 'bodyHash': return crypto.createHash(algorithm).update(body).digest('hex');
+                default: return header(request.headers, part.slice('header:'.length)) || '';
+            }
+        });
+
+        const headers: Record<string, string> = {
+            [value(interpolate, auth.headerName) || 'X-Signature']: crypto.createHmac(algorithm, secret).update(message).digest(encoding),
+        };
+        const timestampHeader = auth.timestampHeader === undefined ? 'X-Timestamp' : value(interpolate, auth.timestampHeader);
+        if (timestampHeader) headers[timestampHeader] = timestamp;
+        return headers;
+    }
+
+    toSecurityScheme(auth: RequestAuth): OpenAPISecurityScheme {
+        return {
+            type: 'apiKey',
+            in: 'header',
+            name: auth.headerName || 'X-Signature',
+            'x-auth': settings(auth, ['algorithm', 'encoding', 'template', 'timestampHeader']),
+        };
+    }
+
+    fromSecurityScheme(scheme: OpenAPISecurityScheme): RequestAuth | undefined {
+        const extra = scheme['x-auth'];
+        if (extra?.type !== this.type) return undefined;
+        return { ...extra, type: this.type, secret: '', headerName: scheme.name };
+    }
+}
+
+/**
+ * A JSON Web Token signed here for every request, from claims that may hold {{variables}}.
+ * iat is filled in, and exp too when there is a lifetime.
+ */
+export class JwtAuthProvider implements AuthProvider {
+    readonly type = 'jwt';
+    static readonly ALGORITHMS = ['HS256', 'HS384', 'HS512', 'RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512'];
+
+    sign(request: ExecuteRequest, auth: RequestAuth, interpolate: Interpolate): Record<string, string> {
+        const token = this.token(auth, interpolate);
+        const prefix = auth.prefix === undefined ? 'Bearer' : value(interpolate, auth.prefix);
+        return { [value(interpolate, auth.headerName) || 'Authorization']: prefix ? `${prefix} ${token}` : token };
+    }
+
+    token(auth: RequestAuth, interpolate: Interpolate): string {
+        const algorithm = (auth.algorithm || 'HS256').toUpperCase();
+        if (!JwtAuthProvider.ALGORITHMS.includes(algorithm)) throw new Error(`Unsupported JWT algorithm: ${algorithm}`);
+        const secret = auth.secret ? interpolate(auth.secret) : '';
+        if (!secret) throw new Error(algorithm.startsWith('HS') ? 'JWT signing needs a secret' : 'JWT signing needs a PEM private key');
+
+        let claims: Record<string, unknown> = {};
+        const payload = auth.payload ? interpolate(auth.payload).trim() : '';
+        if (payload) {
+            try {
+                claims = JSON.parse(payload);
+            } catch (error) {
+                throw new Error(`JWT payload is not valid JSON: ${error instanceof Error ? error.message : error}`);
+            }
+            if (!claims || typeof claims !== 'object' || Array.isArray(claims)) throw new Error('JWT payload must be a JSON object');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const expiresIn = Number(value(interpolate, auth.expiresIn));
+        claims = { iat: now, ...(expiresIn > 0 ? { exp: now + expiresIn } : {}), ...claims };
+        const keyId = value(interpolate, auth.keyId);
+        const jose = { alg: algorithm, typ: 'JWT', ...(keyId ? { kid: keyId } : {}) };
+
+        const encode = (part: object) => this.base64Url(Buffer.from(JSON.stringify(part), 'utf8'));
+        const input = `${encode(jose)}.${encode(claims)}`;
+        const hash = `sha${algorithm.slice(2)}`;
+        let signature: Buffer;
+        if (algorithm.startsWith('HS')) {
+            signature = crypto.createHmac(hash, secret).update(input).digest();
+        } else {
+            // PEM keys pasted into a one-line field come with literal \n
+            const key = crypto.createPrivateKey(secret.replace(/\\n/g, '\n'));
+            signature = crypto.sign(hash, Buffer.from(input), algorithm.startsWith('ES') ? { key, dsaEncoding: 'ieee-p1363' } : key);
+        }
+        return `${input}.${this.base64Url(signature)}`;
+    }
+
+    toSecurityScheme(auth: RequestAuth): OpenAPISecurityScheme {
+        return {
+            type: 'http',
+            scheme: 'bearer',
+            bearerFormat: 'JWT',
+            'x-auth': settings(auth, ['algorithm', 'payload', 'expiresIn', 'keyId', 'headerName', 'prefix']),
+        };
+    }
+
+    fromSecurityScheme(scheme: OpenAPISecurityScheme): RequestAuth | undefined {
+        const extra = scheme['x-auth'];
+        // Plain bearer schemes with JWT tokens stay bearer auth; only ours are signed here
+        if (extra?.type !== this.type) return undefined;
+        return { ...extra, type: this.type, secret: '' };
+    }
+
+    private base64Url(buffer: Buffer): string {
+        return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    }
+}
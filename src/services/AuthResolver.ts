@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import { OAuth2Client, OAuth2Config, OAuth2GrantType, OAuth2TokenOptions } from './OAuth2Client';
+import { RequestExecutor, ExecuteRequest, ExecuteOptions, ExecuteResult } from './RequestExecutor';
+import { AuthProvider, DigestAuthProvider, AwsSigV4AuthProvider, HmacAuthProvider, JwtAuthProvider } from './AuthProviders';
+import { OpenAPISecurityScheme } from '../types/openapi';
+
+export interface RequestAuth {
+    type: string;
+    token?: string;             // For oauth2, the access token filled in by authorize()
+    username?: string;
+    password?: string;
+    key?: string;
+    value?: string;
+    addTo?: string;             // Where an API key goes: header (the default), query or cookie
+    // OAuth 2.0
+    grantType?: string;
+    tokenUrl?: string;
+    authorizationUrl?: string;
+    clientId?: string;
+    clientSecret?: string;
+    scope?: string;
+    redirectUri?: string;
+    clientAuth?: string;
+    // AWS Signature V4
+    accessKey?: string;
+    secretKey?: string;
+    sessionToken?: string;
+    region?: string;
+    service?: string;
+    // HMAC and JWT signing
+    secret?: string;
+    algorithm?: string;
+    encoding?: string;
+    headerName?: string;
+    template?: string;
+    timestampHeader?: string;
+    payload?: string;
+    expiresIn?: string;
+    keyId?: string;
+    prefix?: string;
+}
+
+/**
+ * AuthResolver - Turns a request's auth settings into the headers they call for. Static kinds
+ * are applied with the other headers; providers sign the request as it is sent.
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class AuthResolver {
+    // Fields that are secrets, or identify who is signing in; the rest are settings
+    static readonly CREDENTIAL_FIELDS: (keyof RequestAuth)[] = [
+        'token', 'username', 'password', 'value', 'clientId', 'clientSecret', 'accessKey', 'secretKey', 'sessionToken', 'secret',
+    ];
+
+    private static providers = new Map<string, AuthProvider>();
+
+    /**
+     * Add a kind of auth, or replace the one of the same type
+     */
+    static register(provider: AuthProvider): void {
+        this.providers.set(provider.type, provider);
+    }
+
+    static provider(type: string | undefined): AuthProvider | undefined {
+        return type ? this.providers.get(type) : undefined;
+    }
+
+    /**
+     * Headers with the auth header added; credentials may hold {{variables}}.
+     * Auth a provider signs is left to send().
+     */
+    static apply(headers: Record<string, string>, auth: RequestAuth | undefined, interpolate: (text: string) => string): Record<string, string> {
+        const resolved = { ...headers };
+        if (!auth) return resolved;
+
+        switch (auth.type) {
+            case 'bearer':
+                if (auth.token) resolved['Authorization'] = `Bearer ${interpolate(auth.token)}`;
+                break;
+            case 'basic':
+                if (auth.username && auth.password) {
+                    const credentials = Buffer.from(`${interpolate(auth.username)}:${interpolate(auth.password)}`).toString('base64');
+                    resolved['Authorization'] = `Basic ${credentials}`;
+                }
+                break;
+            case 'apikey':
+                if (auth.key && auth.value && auth.addTo === 'cookie') {
+                    // Sent alongside any cookies set by hand; stored cookies are added after this
+                    const cookie = `${interpolate(auth.key)}=${interpolate(auth.value)}`;
+                    const key = Object.keys(resolved).find(k => k.toLowerCase() === 'cookie');
+                    resolved[key || 'Cookie'] = key && resolved[key] ? `${resolved[key]}; ${cookie}` : cookie;
+                } else if (auth.key && auth.value && auth.addTo !== 'query') {
+                    resolved[interpolate(auth.key)] = interpolate(auth.value);
+                }
+                break;
+            case 'oauth2':
+                if (auth.token) resolved['Authorization'] = `Bearer ${auth.token}`;
+                break;
+        }
+        return resolved;
+    }
+
+    /**
+     * Whether a credential is taken from variables, e.g. {{apiKey}}, rather than written out
+     */
+    static isReference(text: string): boolean {
+        return /\{\{[^}]+\}\}|\$\{[^}]+\}/.test(text);
+    }
+
+    /**
+     * The URL with an API key meant for the query string appended; otherwise as it is.
+     * The rest of the URL is kept as written rather than re-encoded.
+     */
+    static applyToUrl(url: string, auth: RequestAuth | undefined, interpolate: (text: string) => string): string {
+        if (auth?.type !== 'apikey' || auth.addTo !== 'query' || !auth.key || !auth.value) return url;
+
+        const hash = url.indexOf('#');
+        const base = hash >= 0 ? url.slice(0, hash) : url;
+        const param = `${encodeURIComponent(interpolate(auth.key))}=${encodeURIComponent(interpolate(auth.value))}`;
+        const separator = !base.includes('?') ? '?' : /[?&]$/.test(base) ? '' : '&';
+        return `${base}${separator}${param}${hash >= 0 ? url.slice(hash) : ''}`;
+    }
+
+    /**
+     * Send a request with the headers its auth provider computes from it, answering a 401
+     * challenge once when the provider can. Returns the request as last sent.
+     */
+    static async send(
+        executor: RequestExecutor,
+        id: string,
+        request: ExecuteRequest,
+        options: ExecuteOptions,
+        auth: RequestAuth | undefined,
+        interpolate: (text: string) => string
+    ): Promise<{ request: ExecuteRequest; response: ExecuteResult }> {
+        const provider = this.provider(auth?.type);
+        if (!auth || !provider) {
+            return { request, response: await executor.execute(id, request, options) };
+        }
+
+        const signed = { ...request, headers: { ...request.headers, ...provider.sign(request, auth, interpolate) } };
+        const response = await executor.execute(id, signed, options);
+        const retry = response.status === 401 ? provider.challenge?.(request, response, auth, interpolate) : undefined;
+        if (!retry) return { request: signed, response };
+
+        if (response.bodyFile) {
+            fs.promises.unlink(response.bodyFile).catch(() => undefined);
+        }
+        const answered = { ...request, headers: { ...request.headers, ...retry } };
+        return { request: answered, response: await executor.execute(id, answered, options) };
+    }
+
+    /**
+     * The components.securitySchemes entry for auth handled by a provider
+     */
+    static toSecurityScheme(auth: RequestAuth): OpenAPISecurityScheme | undefined {
+        return this.provider(auth.type)?.toSecurityScheme(auth);
+    }
+
+    /**
+     * Auth settings for a scheme one of the providers recognizes, credentials left empty
+     */
+    static fromSecurityScheme(scheme: OpenAPISecurityScheme): RequestAuth | undefined {
+        for (const provider of this.providers.values()) {
+            const auth = provider.fromSecurityScheme(scheme);
+            if (auth) return auth;
+        }
+        return undefined;
+    }
+
+    /**
+     * Fill in the access token of OAuth 2.0 auth, from the cache or fetched as needed.
+     * Other kinds of auth are returned as they are.
+     */
+    static async authorize(
+        auth: RequestAuth | undefined,
+        interpolate: (text: string) => string,
+        oauth2: OAuth2Client | undefined,
+        envId: string | undefined,
+        options?: OAuth2TokenOptions
+    ): Promise<RequestAuth | undefined> {
+        if (auth?.type !== 'oauth2') return auth;
+        if (!oauth2) throw new Error('OAuth 2.0 tokens cannot be fetched here');
+
+        const token = await oauth2.getToken(this.oauth2Config(auth, interpolate), envId, options);
+        return { ...auth, token: token.accessToken };
+    }
+
+    /**
+     * The OAuth 2.0 settings of a request's auth; any of them may hold {{variables}}
+     */
+    static oauth2Config(auth: RequestAuth, interpolate: (text: string) => string): OAuth2Config {
+        const value = (text?: string) => (text ? interpolate(text).trim() : undefined);
+        return {
+            grantType: (auth.grantType || 'client_credentials') as OAuth2GrantType,
+            tokenUrl: value(auth.tokenUrl) || '',
+            authorizationUrl: value(auth.authorizationUrl),
+            clientId: value(auth.clientId) || '',
+            clientSecret: value(auth.clientSecret),
+            scope: value(auth.scope),
+            username: value(auth.username),
+            password: auth.password ? interpolate(auth.password) : undefined,
+            redirectUri: value(auth.redirectUri),
+            clientAuth: auth.clientAuth === 'body' ? 'body' : 'basic',
+        };
+    }
+}
+
+AuthResolver.register(new DigestAuthProvider());
+AuthResolver.register(new AwsSigV4AuthProvider());
+AuthResolver.register(new HmacAuthProvider());
+AuthResolver.register(new JwtAuthProvider());
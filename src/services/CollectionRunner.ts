@@ -0,0 +1,329 @@
+import { RequestExecutor, CookieStore } from './RequestExecutor';
+import { RequestBodyBuilder } from './RequestBodyBuilder';
+import { ScriptRunner, ScriptPhase, ScriptContext, ScriptResult, ScriptLogEntry, ScriptTestResult } from './ScriptRunner';
+import { AssertionRunner, AssertionResult } from './AssertionRunner';
+import { AuthResolver } from './AuthResolver';
+import { OAuth2Client } from './OAuth2Client';
+import { SavedRequest } from './RequestHistory';
+import { DataRow } from './DataFile';
+import { Redactor } from './Redactor';
+
+export interface CollectionRunOptions {
+    iterations: number;         // Ignored when there is data; each row is an iteration
+    data?: DataRow[];           // Rows layered over the environment, one iteration each
+    rows?: number[];            // 1-based rows to run, e.g. to re-run the ones that failed; all when left out
+    delay: number;              // Milliseconds to wait between requests
+    stopOnFailure: boolean;
+    timeout?: number;           // Defaults for requests without their own options
+    connectTimeout?: number;
+    followRedirects?: boolean;
+    maxRedirects?: number;
+    cookies?: CookieStore;
+    oauth2?: OAuth2Client;      // Fetches OAuth 2.0 tokens; requests with OAuth 2.0 auth fail without it
+    environmentId?: string;     // Scope of the cached OAuth 2.0 tokens
+    baseDir?: string;           // Resolves relative body and form file paths
+}
+
+export interface CollectionRunHooks {
+    onIteration?(iteration: number, data?: DataRow): void;
+    onRequest?(request: SavedRequest, iteration: number): void;
+    onResult?(result: RequestRunResult): void;
+    // A script wrote a variable; null when it was unset
+    onVariable?(key: string, value: string | null): Promise<void> | void;
+}
+
+export interface RequestRunResult {
+    iteration: number;          // 1-based
+    requestId: string;
+    name: string;
+    method: string;
+    url: string;                // As sent, after scripts and interpolation, with credentials in the query string masked
+    status?: number;
+    statusText?: string;
+    time: number;
+    size?: number;
+    tests: (AssertionResult | ScriptTestResult)[];
+    logs: ScriptLogEntry[];
+    passed: boolean;
+    skipped?: boolean;          // Kinds of request the runner can't send, such as WebSocket sessions
+    error?: string;
+}
+
+export interface CollectionRunSummary {
+    iterations: number;         // Iterations started
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    time: number;
+    stopped: boolean;           // Ended early by stopOnFailure or cancel()
+    failedIterations: number[];
+    variables: Record<string, string>;
+    results: RequestRunResult[];
+}
+
+/**
+ * CollectionRunner - Sends the requests of a collection in order, for a number of
+ * iterations or once per data row, with their assertions and scripts. Variables
+ * written by scripts carry over to the requests after them.
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class CollectionRunner {
+    private cancelled = false;
+    private wake: (() => void) | undefined;
+
+    constructor(private readonly executor: RequestExecutor, private readonly id: string = 'collection-runner') {}
+
+    /**
+     * Requests in a collection or one of its folders; folders are /-separated, e.g. Shop/Orders
+     */
+    static select(requests: SavedRequest[], collection: string): SavedRequest[] {
+        return requests.filter(request => request.collectionId === collection || request.collectionId?.startsWith(`${collection}/`));
+    }
+
+    /**
+     * Every collection and folder that holds requests, parents before their folders
+     */
+    static collections(requests: SavedRequest[]): string[] {
+        const names = new Set<string>();
+        for (const request of requests) {
+            const parts = (request.collectionId || '').split('/').filter(part => part !== '');
+            parts.forEach((_, i) => names.add(parts.slice(0, i + 1).join('/')));
+        }
+        return [...names].sort();
+    }
+
+    async run(requests: SavedRequest[], variables: Record<string, string>, options: CollectionRunOptions, hooks: CollectionRunHooks = {}): Promise<CollectionRunSummary> {
+        this.cancelled = false;
+        const startTime = Date.now();
+        const current = { ...variables };
+        const results: RequestRunResult[] = [];
+        let iterations = 0;
+        let stopped = false;
+
+        const numbers = options.data
+            ? (options.rows || options.data.map((_, i) => i + 1)).filter(n => n >= 1 && n <= options.data!.length)
+            : Array.from({ length: Math.max(1, options.iterations) }, (_, i) => i + 1);
+        for (const iteration of numbers) {
+            if (stopped) break;
+            iterations++;
+            const data = options.data?.[iteration - 1];
+            hooks.onIteration?.(iteration, data);
+            for (const request of requests) {
+                if (results.length > 0 && options.delay > 0) {
+                    await this.sleep(options.delay);
+                }
+                if (this.cancelled) {
+                    stopped = true;
+                    break;
+                }
+
+                hooks.onRequest?.(request, iteration);
+                const result = await this.runRequest(request, iteration, current, data || {}, options, hooks);
+                results.push(result);
+                hooks.onResult?.(result);
+
+                if (!result.passed && options.stopOnFailure) {
+                    stopped = true;
+                    break;
+                }
+            }
+        }
+
+        const skipped = results.filter(r => r.skipped).length;
+        const passed = results.filter(r => r.passed && !r.skipped).length;
+        return {
+            iterations,
+            total: results.length,
+            passed,
+            failed: results.length - passed - skipped,
+            skipped,
+            time: Date.now() - startTime,
+            stopped,
+            failedIterations: [...new Set(results.filter(r => !r.passed).map(r => r.iteration))],
+            variables: current,
+            results,
+        };
+    }
+
+    /**
+     * Stop after the request in flight, which is cancelled too
+     */
+    cancel(): void {
+        this.cancelled = true;
+        this.executor.cancel(this.id);
+        this.wake?.();
+    }
+
+    private async runRequest(
+        request: SavedRequest,
+        iteration: number,
+        variables: Record<string, string>,
+        data: DataRow,
+        options: CollectionRunOptions,
+        hooks: CollectionRunHooks
+    ): Promise<RequestRunResult> {
+        const result: RequestRunResult = {
+            iteration,
+            requestId: request.id,
+            name: request.name || `${request.method} ${request.url}`,
+            method: request.method,
+            url: request.url,
+            time: 0,
+            tests: [],
+            logs: [],
+            passed: false,
+        };
+
+        const method = request.method.toUpperCase();
+        if (method === 'WS' || method === 'GRPC') {
+            result.skipped = true;
+            result.passed = true;
+            result.error = `${method === 'WS' ? 'WebSocket sessions' : 'gRPC calls'} can't be run from a collection`;
+            return result;
+        }
+
+        // The data row is layered over the environment; what scripts write during this request wins over both
+        const startTime = Date.now();
+        const scope = { ...data };
+        const interpolate = (text: string) => CollectionRunner.interpolate(text, { ...variables, ...scope });
+        try {
+            let prepared = { url: request.url, headers: request.headers || {}, body: request.body, bodyType: request.bodyType };
+            if (request.scripts?.preRequest?.trim()) {
+                const script = await this.runScript('preRequest', request.scripts.preRequest, {
+                    request: { method: request.method, url: prepared.url, headers: prepared.headers, body: prepared.body },
+                }, variables, scope, result, hooks);
+                if (script.error) {
+                    throw new Error(`Pre-request script failed: ${script.error}`);
+                }
+                prepared = {
+                    url: script.request.url,
+                    headers: script.request.headers,
+                    body: script.request.body,
+                    // A body the script replaced is sent as text, whatever editor it came from
+                    bodyType: script.request.body !== request.body ? 'text' : request.bodyType,
+                };
+            }
+
+            const url = AuthResolver.applyToUrl(interpolate(prepared.url), request.auth, interpolate);
+            // Results end up in reports, so API keys and the like are masked in the URL they show
+            result.url = new Redactor(request.auth, interpolate).url(url);
+            const headers: Record<string, string> = {};
+            for (const [key, value] of Object.entries(prepared.headers)) {
+                headers[interpolate(key)] = interpolate(value);
+            }
+            const auth = await AuthResolver.authorize(request.auth, interpolate, options.oauth2, options.environmentId);
+            const resolvedHeaders = AuthResolver.apply(headers, auth, interpolate);
+            const body = ['GET', 'HEAD'].includes(method)
+                ? {}
+                : await RequestBodyBuilder.build(
+                    { body: prepared.body, bodyType: prepared.bodyType || (prepared.body ? 'text' : 'none'), formData: request.formData, bodyFile: request.bodyFile, graphql: request.graphql },
+                    options.baseDir,
+                    interpolate
+                );
+
+            // Multipart needs our boundary; otherwise a Content-Type set on the request wins
+            const hasContentType = Object.keys(resolvedHeaders).some(k => k.toLowerCase() === 'content-type');
+            if (body.contentType && (prepared.bodyType === 'multipart' || !hasContentType)) {
+                for (const key of Object.keys(resolvedHeaders)) {
+                    if (key.toLowerCase() === 'content-type') delete resolvedHeaders[key];
+                }
+                resolvedHeaders['Content-Type'] = body.contentType;
+            }
+
+            // Digest, AWS and other signed auth is computed from the request as it is sent
+            const { request: sent, response } = await AuthResolver.send(this.executor, this.id, {
+                method: request.method,
+                url,
+                headers: resolvedHeaders,
+                body: body.body,
+            }, {
+                timeout: request.options?.timeout ?? options.timeout,
+                connectTimeout: request.options?.connectTimeout ?? options.connectTimeout,
+                followRedirects: request.options?.followRedirects ?? options.followRedirects,
+                maxRedirects: request.options?.maxRedirects ?? options.maxRedirects,
+                cookies: options.cookies,
+            }, auth, interpolate);
+
+            result.status = response.status;
+            result.statusText = response.statusText;
+            result.time = response.time;
+            result.size = response.wireSize;
+
+            const responseBody = response.body.toString('utf8');
+            if (request.assertions && request.assertions.length > 0) {
+                result.tests.push(...AssertionRunner.run(request.assertions, {
+                    status: response.status, headers: response.headers, body: responseBody, time: response.time,
+                }, interpolate));
+            }
+            if (request.scripts?.test?.trim()) {
+                await this.runScript('test', request.scripts.test, {
+                    request: { method: request.method, url, headers: sent.headers, body: typeof body.body === 'string' ? body.body : prepared.body },
+                    response: { status: response.status, statusText: response.statusText, headers: response.headers, body: responseBody, time: response.time },
+                }, variables, scope, result, hooks);
+            }
+            result.passed = result.tests.every(test => test.passed);
+        } catch (error) {
+            result.time = Date.now() - startTime;
+            result.error = error instanceof Error ? error.message : String(error);
+        }
+        return result;
+    }
+
+    private async runScript(
+        phase: ScriptPhase,
+        code: string,
+        context: Pick<ScriptContext, 'request' | 'response'>,
+        variables: Record<string, string>,
+        scope: Record<string, string>,
+        result: RequestRunResult,
+        hooks: CollectionRunHooks
+    ): Promise<ScriptResult> {
+        const script = ScriptRunner.run(phase, code, {
+            ...context,
+            variables: { ...variables, ...scope },
+            interpolate: (text, current) => CollectionRunner.interpolate(text, current),
+        });
+        result.logs.push(...script.logs);
+        result.tests.push(...script.tests);
+        if (script.error) {
+            result.logs.push({ phase, level: 'error', message: script.error });
+        }
+
+        for (const [key, value] of Object.entries(script.variables)) {
+            if (value === null) {
+                delete variables[key];
+                delete scope[key];
+            } else {
+                variables[key] = value;
+                scope[key] = value;
+            }
+            await hooks.onVariable?.(key, value);
+        }
+        return script;
+    }
+
+    /**
+     * Same {{name}} and ${name} syntax as EnvironmentManager.interpolate; unknown names are left as-is
+     */
+    private static interpolate(text: string, variables: Record<string, string>): string {
+        return text.replace(/\{\{([^}]+)\}\}|\$\{([^}]+)\}/g, (match, var1, var2) => {
+            const name = (var1 || var2).trim();
+            return variables[name] ?? match;
+        });
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                this.wake = undefined;
+                resolve();
+            }, ms);
+            this.wake = () => {
+                clearTimeout(timer);
+                this.wake = undefined;
+                resolve();
+            };
+        });
+    }
+}
@@ -0,0 +1,267 @@
+import { OpenAPIDocument, OpenAPIOperation, OpenAPIPathItem, OpenAPIResponse, OpenAPIHeader, OpenAPIServer } from '../types/openapi';
+import { SchemaValidator } from './SchemaValidator';
+
+export interface ContractResponse {
+    status: number;
+    headers: Record<string, string>;
+    body?: string;          // Left out when the body can't be checked, e.g. a truncated preview
+}
+
+export interface ContractViolation {
+    location: 'status' | 'header' | 'body';
+    path: string;           // Header name, or JSON pointer into the body ('' for the whole body)
+    message: string;
+}
+
+export interface ContractResult {
+    operation: string;      // Matched operation, e.g. GET /users/{id}
+    status: string;         // Response key the status matched (200, 2XX, default), '' when none did
+    violations: ContractViolation[];
+}
+
+interface OperationMatch {
+    method: string;
+    path: string;
+    operation: OpenAPIOperation;
+}
+
+const METHODS: (keyof OpenAPIPathItem)[] = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * ContractValidator - Checks responses against the response definitions of an OpenAPI
+ * document: declared status codes, required headers and body schemas, with $refs
+ * resolved into components
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class ContractValidator {
+    private readonly schemas: SchemaValidator;
+
+    constructor(private readonly document: OpenAPIDocument) {
+        this.schemas = new SchemaValidator(document);
+    }
+
+    /**
+     * Whether an operation declares a contract. Requests saved from the panel only
+     * store examples, so an operation counts once a response declares a schema.
+     */
+    static hasContract(operation: OpenAPIOperation): boolean {
+        return Object.values(operation.responses || {}).some(response => {
+            const definition = response as OpenAPIResponse & { $ref?: string };
+            if (definition.$ref) return true;
+            if (Object.values(definition.content || {}).some(media => media.schema)) return true;
+            return Object.values(definition.headers || {}).some(header => {
+                const headerDefinition = header as OpenAPIHeader & { $ref?: string };
+                return Boolean(headerDefinition.schema || headerDefinition.$ref);
+            });
+        });
+    }
+
+    /**
+     * Validate a response to method url; undefined when no operation with a contract matches
+     */
+    validate(method: string, url: string, response: ContractResponse): ContractResult | undefined {
+        const match = this.findOperation(method, url);
+        if (!match) return undefined;
+
+        const violations: ContractViolation[] = [];
+        const responses = match.operation.responses || {};
+        const status = this.matchStatus(response.status, Object.keys(responses));
+        if (!status) {
+            violations.push({
+                location: 'status',
+                path: '',
+                message: `${response.status} is not a declared response, expected ${Object.keys(responses).join(', ')}`,
+            });
+            return { operation: `${match.method.toUpperCase()} ${match.path}`, status: '', violations };
+        }
+
+        let definition: OpenAPIResponse;
+        try {
+            definition = this.deref(responses[status]) as OpenAPIResponse;
+        } catch (error) {
+            violations.push({ location: 'status', path: '', message: (error as Error).message });
+            return { operation: `${match.method.toUpperCase()} ${match.path}`, status, violations };
+        }
+
+        this.checkHeaders(definition, response.headers, violations);
+        if (response.body !== undefined && match.method !== 'head') {
+            this.checkBody(definition, response, violations);
+        }
+        return { operation: `${match.method.toUpperCase()} ${match.path}`, status, violations };
+    }
+
+    /**
+     * Find the operation for a request. Literal path segments win over templated ones,
+     * and server base paths such as /v1 are stripped.
+     */
+    findOperation(method: string, url: string): OperationMatch | undefined {
+        let pathname: string;
+        try {
+            pathname = decodeURI(new URL(url).pathname);
+        } catch {
+            return undefined;
+        }
+        const operationMethod = method.toLowerCase() as keyof OpenAPIPathItem;
+        if (!METHODS.includes(operationMethod)) return undefined;
+
+        let best: (OperationMatch & { params: number }) | undefined;
+        for (const [path, pathItem] of Object.entries(this.document.paths || {})) {
+            const operation = pathItem[operationMethod] as OpenAPIOperation | undefined;
+            if (!operation || !ContractValidator.hasContract(operation)) continue;
+
+            const servers = [...(operation.servers || []), ...(pathItem.servers || []), ...(this.document.servers || [])];
+            if (!this.pathMatches(path, pathname, servers)) continue;
+
+            const params = (path.match(/\{[^}]+\}/g) || []).length;
+            if (!best || params < best.params) {
+                best = { method: operationMethod, path, operation, params };
+            }
+        }
+        return best && { method: best.method, path: best.path, operation: best.operation };
+    }
+
+    private pathMatches(template: string, pathname: string, servers: OpenAPIServer[]): boolean {
+        const pattern = this.templatePattern(template.replace(/\/$/, ''));
+        const prefixes = new Set(['']);
+        for (const server of servers) {
+            prefixes.add(this.templatePattern(this.serverPath(server.url).replace(/\/$/, '')));
+        }
+        return [...prefixes].some(prefix => new RegExp(`^${prefix}${pattern}/?$`).test(pathname));
+    }
+
+    /**
+     * Base path of a server URL, which may be relative or hold {variables}
+     */
+    private serverPath(serverUrl: string): string {
+        const withoutOrigin = serverUrl.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '');
+        return withoutOrigin.startsWith('/') ? withoutOrigin : '';
+    }
+
+    private templatePattern(template: string): string {
+        return template
+            .split(/(\{[^}]+\})/)
+            .map(part => part.startsWith('{') && part.endsWith('}') ? '[^/]+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('');
+    }
+
+    /**
+     * Exact code first, then a range like 2XX, then default
+     */
+    private matchStatus(status: number, keys: string[]): string | undefined {
+        const code = String(status);
+        return keys.find(key => key === code)
+            || keys.find(key => key.toUpperCase() === `${code[0]}XX`)
+            || keys.find(key => key === 'default');
+    }
+
+    private checkHeaders(definition: OpenAPIResponse, headers: Record<string, string>, violations: ContractViolation[]): void {
+        for (const [name, raw] of Object.entries(definition.headers || {})) {
+            // Content-Type is described by the content map
+            if (name.toLowerCase() === 'content-type') continue;
+
+            let header: OpenAPIHeader;
+            try {
+                header = this.deref(raw) as OpenAPIHeader;
+            } catch (error) {
+                violations.push({ location: 'header', path: name, message: (error as Error).message });
+                continue;
+            }
+
+            const key = Object.keys(headers).find(k => k.toLowerCase() === name.toLowerCase());
+            if (key === undefined) {
+                if (header.required) violations.push({ location: 'header', path: name, message: 'is required' });
+                continue;
+            }
+            if (header.schema) {
+                const value = this.coerceHeader(headers[key], header.schema as Record<string, any>);
+                for (const error of this.schemas.validate(header.schema, value)) {
+                    violations.push({ location: 'header', path: name, message: error.message });
+                }
+            }
+        }
+    }
+
+    private checkBody(definition: OpenAPIResponse, response: ContractResponse, violations: ContractViolation[]): void {
+        const content = definition.content || {};
+        const declared = Object.keys(content);
+        const body = response.body || '';
+        if (declared.length === 0) return;
+
+        const contentTypeKey = Object.keys(response.headers).find(k => k.toLowerCase() === 'content-type');
+        const mime = (contentTypeKey ? response.headers[contentTypeKey] : '').split(';')[0].trim().toLowerCase();
+        if (!mime) {
+            if (body.length > 0) {
+                violations.push({ location: 'header', path: 'content-type', message: `is missing, expected ${declared.join(' or ')}` });
+            } else if (declared.some(type => content[type].schema)) {
+                violations.push({ location: 'body', path: '', message: `is empty, expected ${declared.join(' or ')}` });
+            }
+            return;
+        }
+
+        const mediaKey = declared.find(type => type.toLowerCase() === mime)
+            || declared.find(type => type.toLowerCase() === `${mime.split('/')[0]}/*`)
+            || declared.find(type => type === '*/*');
+        if (!mediaKey) {
+            violations.push({ location: 'header', path: 'content-type', message: `${mime} is not declared, expected ${declared.join(' or ')}` });
+            return;
+        }
+
+        const schema = content[mediaKey].schema;
+        if (!schema) return;
+
+        let value: unknown = body;
+        if (/[/+]json$/.test(mime)) {
+            if (body.trim() === '') {
+                violations.push({ location: 'body', path: '', message: `is empty, expected ${mediaKey}` });
+                return;
+            }
+            try {
+                value = JSON.parse(body);
+            } catch {
+                violations.push({ location: 'body', path: '', message: 'is not valid JSON' });
+                return;
+            }
+        } else if ((schema as Record<string, any>).type !== 'string') {
+            // Only JSON and plain string bodies can be checked against a schema
+            return;
+        }
+
+        for (const error of this.schemas.validate(schema, value)) {
+            violations.push({ location: 'body', path: error.path, message: error.message });
+        }
+    }
+
+    /**
+     * Header values arrive as text; read them the way the schema types them
+     */
+    private coerceHeader(value: string, schema: Record<string, any>): unknown {
+        let resolved = schema;
+        try {
+            resolved = this.deref(schema) as Record<string, any>;
+        } catch {
+            // The schema check reports the broken $ref
+            return value;
+        }
+        switch (resolved.type) {
+            case 'integer':
+            case 'number':
+                return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+            case 'boolean':
+                return value === 'true' ? true : value === 'false' ? false : value;
+            case 'array':
+                return value.split(',').map(item => this.coerceHeader(item.trim(), resolved.items || {}));
+            default:
+                return value;
+        }
+    }
+
+    private deref(definition: unknown): unknown {
+        let current = definition;
+        for (let depth = 0; depth < 20; depth++) {
+            const ref = (current as { $ref?: unknown } | undefined)?.$ref;
+            if (typeof ref !== 'string') return current;
+            current = this.schemas.resolve(ref);
+        }
+        throw new Error('Too many nested $refs');
+    }
+}
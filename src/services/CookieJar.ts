@@ -0,0 +1,213 @@
+import { CookieStore } from './RequestExecutor';
+
+export interface Cookie {
+    name: string;
+    value: string;
+    domain: string;
+    path: string;
+    expires?: number;
+    secure: boolean;
+    httpOnly: boolean;
+    sameSite?: string;
+    hostOnly: boolean;
+    createdAt: number;
+}
+
+// Where the jar is kept: the extension's globalState, or memory for the command line runner
+export interface CookieJarState {
+    get<T>(key: string, defaultValue: T): T;
+    update(key: string, value: unknown): PromiseLike<void>;
+}
+
+const STORAGE_KEY = 'apiTester.cookies';
+const GLOBAL_SCOPE = '__global__';
+
+/**
+ * CookieJar - Captures Set-Cookie headers and replays them on later requests
+ * Cookies are scoped per environment; requests without an active environment share a global scope
+ */
+export class CookieJar {
+    private state: CookieJarState;
+    private jars: Record<string, Cookie[]>;
+
+    constructor(state: CookieJarState) {
+        this.state = state;
+        this.jars = state.get<Record<string, Cookie[]>>(STORAGE_KEY, {});
+    }
+
+    /**
+     * Get a store bound to an environment, for use by RequestExecutor
+     */
+    store(envId?: string): CookieStore {
+        return {
+            getCookieHeader: (url: string) => this.getCookieHeader(envId, url),
+            setCookies: (url: string, setCookie: string[]) => this.setCookies(envId, url, setCookie),
+        };
+    }
+
+    getCookies(envId?: string): Cookie[] {
+        const scope = this.scope(envId);
+        const now = Date.now();
+        this.jars[scope] = (this.jars[scope] || []).filter(c => c.expires === undefined || c.expires > now);
+        return this.jars[scope];
+    }
+
+    getCookieHeader(envId: string | undefined, url: string): string | undefined {
+        const target = new URL(url);
+        const cookies = this.getCookies(envId)
+            .filter(c => this.domainMatches(c, target.hostname))
+            .filter(c => this.pathMatches(c.path, target.pathname))
+            .filter(c => !c.secure || target.protocol === 'https:')
+            // Longer paths first, then oldest first (RFC 6265 5.4)
+            .sort((a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt);
+
+        if (cookies.length === 0) return undefined;
+        return cookies.map(c => `${c.name}=${c.value}`).join('; ');
+    }
+
+    setCookies(envId: string | undefined, url: string, setCookie: string[]): void {
+        if (setCookie.length === 0) return;
+
+        const requestUrl = new URL(url);
+        for (const header of setCookie) {
+            const cookie = this.parseSetCookie(header, requestUrl);
+            if (cookie) {
+                this.upsert(envId, cookie);
+            }
+        }
+    }
+
+    async saveCookie(envId: string | undefined, cookie: Omit<Cookie, 'createdAt'>): Promise<void> {
+        this.upsert(envId, { ...cookie, domain: cookie.domain.replace(/^\./, '').toLowerCase(), createdAt: Date.now() });
+        await this.save();
+    }
+
+    async deleteCookie(envId: string | undefined, name: string, domain: string, path: string): Promise<boolean> {
+        const cookies = this.getCookies(envId);
+        const filtered = cookies.filter(c => !(c.name === name && c.domain === domain && c.path === path));
+
+        if (filtered.length === cookies.length) return false;
+
+        this.jars[this.scope(envId)] = filtered;
+        await this.save();
+        return true;
+    }
+
+    async clear(envId?: string): Promise<void> {
+        delete this.jars[this.scope(envId)];
+        await this.save();
+    }
+
+    async save(): Promise<void> {
+        await this.state.update(STORAGE_KEY, this.jars);
+    }
+
+    private upsert(envId: string | undefined, cookie: Cookie): void {
+        const cookies = this.getCookies(envId);
+        const index = cookies.findIndex(c => c.name === cookie.name && c.domain === cookie.domain && c.path === cookie.path);
+
+        // An already expired cookie is how servers delete one
+        if (cookie.expires !== undefined && cookie.expires <= Date.now()) {
+            if (index !== -1) cookies.splice(index, 1);
+            return;
+        }
+
+        if (index !== -1) {
+            cookies[index] = { ...cookie, createdAt: cookies[index].createdAt };
+        } else {
+            cookies.push(cookie);
+        }
+    }
+
+    /**
+     * Parse a Set-Cookie header (RFC 6265 5.2), returns null if it must be ignored
+     */
+    private parseSetCookie(header: string, requestUrl: URL): Cookie | null {
+        const [pair, ...attributes] = header.split(';');
+        const eq = pair.indexOf('=');
+        if (eq === -1) return null;
+
+        const name = pair.slice(0, eq).trim();
+        const value = pair.slice(eq + 1).trim();
+        if (!name) return null;
+
+        const host = requestUrl.hostname.toLowerCase();
+        const cookie: Cookie = {
+            name,
+            value,
+            domain: host,
+            path: this.defaultPath(requestUrl.pathname),
+            secure: false,
+            httpOnly: false,
+            hostOnly: true,
+            createdAt: Date.now(),
+        };
+        let maxAge: number | undefined;
+
+        for (const attribute of attributes) {
+            const [rawKey, ...rest] = attribute.split('=');
+            const key = rawKey.trim().toLowerCase();
+            const attrValue = rest.join('=').trim();
+
+            switch (key) {
+                case 'domain': {
+                    const domain = attrValue.replace(/^\./, '').toLowerCase();
+                    if (!domain) break;
+                    if (host !== domain && !host.endsWith(`.${domain}`)) return null;
+                    cookie.domain = domain;
+                    cookie.hostOnly = false;
+                    break;
+                }
+                case 'path':
+                    if (attrValue.startsWith('/')) cookie.path = attrValue;
+                    break;
+                case 'expires': {
+                    const expires = Date.parse(attrValue);
+                    if (!isNaN(expires)) cookie.expires = expires;
+                    break;
+                }
+                case 'max-age':
+                    if (/^-?\d+$/.test(attrValue)) maxAge = parseInt(attrValue, 10);
+                    break;
+                case 'secure':
+                    cookie.secure = true;
+                    break;
+                case 'httponly':
+                    cookie.httpOnly = true;
+                    break;
+                case 'samesite':
+                    cookie.sameSite = attrValue;
+                    break;
+            }
+        }
+
+        // Max-Age takes precedence over Expires
+        if (maxAge !== undefined) {
+            cookie.expires = Date.now() + maxAge * 1000;
+        }
+
+        return cookie;
+    }
+
+    private defaultPath(pathname: string): string {
+        if (!pathname.startsWith('/')) return '/';
+        const lastSlash = pathname.lastIndexOf('/');
+        return lastSlash <= 0 ? '/' : pathname.slice(0, lastSlash);
+    }
+
+    private domainMatches(cookie: Cookie, host: string): boolean {
+        host = host.toLowerCase();
+        if (cookie.hostOnly) return host === cookie.domain;
+        return host === cookie.domain || host.endsWith(`.${cookie.domain}`);
+    }
+
+    private pathMatches(cookiePath: string, requestPath: string): boolean {
+        if (requestPath === cookiePath) return true;
+        if (!requestPath.startsWith(cookiePath)) return false;
+        return cookiePath.endsWith('/') || requestPath.charAt(cookiePath.length) === '/';
+    }
+
+    private scope(envId?: string): string {
+        return envId || GLOBAL_SCOPE;
+    }
+}
@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// One iteration's variables, column name to value
+export type DataRow = Record<string, string>;
+
+/**
+ * DataFile - Reads the rows of a CSV or JSON data file for data-driven runs
+ * CSV files need a header row; JSON files hold an array of objects.
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class DataFile {
+    /**
+     * Read a data file. Relative paths are resolved against baseDir.
+     */
+    static async load(filePath: string, baseDir?: string): Promise<DataRow[]> {
+        const resolved = path.isAbsolute(filePath) || !baseDir ? filePath : path.join(baseDir, filePath);
+        let content: string;
+        try {
+            content = await fs.promises.readFile(resolved, 'utf8');
+        } catch (error) {
+            throw new Error(`Cannot read data file ${filePath}: ${error instanceof Error ? error.message : error}`);
+        }
+        return this.parse(content, filePath);
+    }
+
+    /**
+     * Parse by extension; anything other than .json is read as CSV
+     */
+    static parse(content: string, fileName: string): DataRow[] {
+        const text = content.replace(/^﻿/, '');
+        return path.extname(fileName).toLowerCase() === '.json' ? this.parseJson(text, fileName) : this.parseCsv(text, fileName);
+    }
+
+    private static parseJson(text: string, fileName: string): DataRow[] {
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch (error) {
+            throw new Error(`${fileName} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+        }
+        if (!Array.isArray(data)) {
+            throw new Error(`${fileName} must hold an array of objects, one per iteration`);
+        }
+
+        return data.map((item, i) => {
+            if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+                throw new Error(`Row ${i + 1} of ${fileName} is not an object`);
+            }
+            const row: DataRow = {};
+            for (const [key, value] of Object.entries(item)) {
+                // Nested values are kept as JSON so they can be dropped into a body
+                row[key] = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+            }
+            return row;
+        });
+    }
+
+    private static parseCsv(text: string, fileName: string): DataRow[] {
+        const records = this.csvRecords(text, fileName).filter(record => record.some(field => field !== ''));
+        if (records.length === 0) return [];
+
+        const [header, ...rows] = records;
+        const columns = header.map(column => column.trim());
+        return rows.map(fields => {
+            const row: DataRow = {};
+            columns.forEach((column, i) => {
+                if (column) row[column] = fields[i] ?? '';
+            });
+            return row;
+        });
+    }
+
+    /**
+     * RFC 4180 records: quoted fields may hold commas, line breaks and "" for a quote
+     */
+    private static csvRecords(text: string, fileName: string): string[][] {
+        const records: string[][] = [];
+        let record: string[] = [];
+        let field = '';
+        let quoted = false;
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (quoted) {
+                if (char === '"' && text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    field += char;
+                }
+            } else if (char === '"' && field === '') {
+                quoted = true;
+            } else if (char === ',') {
+                record.push(field);
+                field = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && text[i + 1] === '\n') i++;
+                record.push(field);
+                records.push(record);
+                record = [];
+                field = '';
+            } else {
+                field += char;
+            }
+        }
+
+        if (quoted) {
+            throw new Error(`${fileName} has a quoted field that is never closed`);
+        }
+        if (field !== '' || record.length > 0) {
+            record.push(field);
+            records.push(record);
+        }
+        return records;
+    }
+}
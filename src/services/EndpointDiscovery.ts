@@ -48,7 +48,7 @@ export class EndpointDiscovery {
         ],
         // FastAPI (Python)
         fastapi: [
-            /@(?:app|router)\.(get|post|put|patch|delete|options|head)\s*\(\s*['"`]([^'"`]+)['"`]/gi,
+            /@(?:app|router)\.(get|post|put|patch|delete|options|head|websocket)\s*\(\s*['"`]([^'"`]+)['"`]/gi,
         ],
         // Django (Python)
         django: [
@@ -81,6 +81,22 @@ export class EndpointDiscovery {
         koa: [
             /router\.(get|post|put|patch|delete|options|head)\s*\(\s*['"`]([^'"`]+)['"`]/gi,
         ],
+        // ws and express-ws
+        ws: [
+            /new\s+(?:WebSocket\.Server|WebSocketServer)\s*\(\s*\{[^}]*?\bpath\s*:\s*['"`]([^'"`]+)['"`]/gi,
+            /new\s+(?:WebSocket\.Server|WebSocketServer)\s*\(\s*\{(?![^}]*\bpath\s*:)/gi,
+            /(?:app|router)\.ws\s*\(\s*['"`]([^'"`]+)['"`]/gi,
+        ],
+        // socket.io namespaces and NestJS gateways (socket.io by default)
+        socketio: [
+            /\b(?:io|server)\.of\s*\(\s*['"`]([^'"`]+)['"`]/gi,
+            /\bio\.on\s*\(\s*['"`]connection['"`]/gi,
+            /@WebSocketGateway\s*\(([^)]*)\)/gi,
+        ],
+        // gRPC services in .proto files
+        grpc: [
+            /\brpc\s+(\w+)\s*\(\s*(stream\s+)?[\w.]+\s*\)\s*returns\s*\(\s*(stream\s+)?[\w.]+\s*\)/g,
+        ],
     };
 
     async discoverEndpoints(workspacePath: string): Promise<DiscoveredEndpoint[]> {
@@ -106,7 +122,7 @@ export class EndpointDiscovery {
 
     private async getAllSourceFiles(dirPath: string): Promise<string[]> {
         const files: string[] = [];
-        const extensions = ['.js', '.ts', '.jsx', '.tsx', '.py', '.go', '.java', '.rs', '.php'];
+        const extensions = ['.js', '.ts', '.jsx', '.tsx', '.py', '.go', '.java', '.rs', '.php', '.proto'];
         const ignoreDirs = ['node_modules', '.git', 'dist', 'build', '__pycache__', 'vendor', 'target'];
 
         const walkDir = (currentPath: string) => {
@@ -203,6 +219,12 @@ export class EndpointDiscovery {
             if (content.includes('koa-router') || content.includes('@koa/router')) {
                 frameworks.push('koa');
             }
+            if (/['"]ws['"]/.test(content) || content.includes('express-ws') || content.includes('WebSocketServer')) {
+                frameworks.push('ws');
+            }
+            if (content.includes('socket.io') || content.includes('@WebSocketGateway')) {
+                frameworks.push('socketio');
+            }
         }
 
         // Python frameworks
@@ -210,7 +232,7 @@ export class EndpointDiscovery {
             if (content.includes('flask') || content.includes('@app.route') || content.includes('@bp.route')) {
                 frameworks.push('flask');
             }
-            if (content.includes('fastapi') || content.includes('FastAPI') || content.includes('@app.get')) {
+            if (content.includes('fastapi') || content.includes('FastAPI') || content.includes('@app.get') || content.includes('@app.websocket')) {
                 frameworks.push('fastapi');
             }
             if (content.includes('django') || content.includes('urlpatterns') || content.includes('path(')) {
@@ -243,6 +265,11 @@ export class EndpointDiscovery {
             }
         }
 
+        // Protocol Buffers service definitions
+        if (ext === '.proto') {
+            frameworks.push('grpc');
+        }
+
         return frameworks;
     }
 
@@ -250,10 +277,11 @@ export class EndpointDiscovery {
         match: RegExpExecArray,
         framework: string,
         filePath: string,
-        _content: string
+        content: string
     ): DiscoveredEndpoint | null {
         let method = '';
         let routePath = '';
+        let description: string | undefined;
 
         switch (framework) {
             case 'express':
@@ -262,9 +290,25 @@ export class EndpointDiscovery {
             case 'koa':
             case 'fastapi':
                 method = match[1]?.toUpperCase() || 'GET';
+                if (method === 'WEBSOCKET') method = 'WS';
                 routePath = match[2] || '/';
                 break;
 
+            case 'ws':
+                method = 'WS';
+                routePath = match[1] || '/';
+                break;
+
+            case 'socketio':
+                // The path is the namespace; clients connect through /socket.io/
+                method = 'WS';
+                if (match[0].startsWith('@WebSocketGateway')) {
+                    routePath = match[1]?.match(/namespace\s*:\s*['"`]([^'"`]+)['"`]/)?.[1] || '/';
+                } else {
+                    routePath = match[1] || '/';
+                }
+                break;
+
             case 'nestjs':
                 const decorator = match[1]?.toLowerCase();
                 if (decorator === 'controller') {
@@ -328,6 +372,20 @@ export class EndpointDiscovery {
                 routePath = match[2] || '/';
                 break;
 
+            case 'grpc': {
+                // The call path is /package.Service/Method, from the enclosing service block
+                const before = content.slice(0, match.index);
+                const service = [...before.matchAll(/\bservice\s+(\w+)\s*\{/g)].pop()?.[1];
+                if (!service) return null;
+                const pkg = content.match(/^\s*package\s+([\w.]+)\s*;/m)?.[1];
+                method = 'GRPC';
+                routePath = `/${pkg ? `${pkg}.` : ''}${service}/${match[1]}`;
+                if (match[2] && match[3]) description = 'Bidirectional streaming';
+                else if (match[2]) description = 'Client streaming';
+                else if (match[3]) description = 'Server streaming';
+                break;
+            }
+
             default:
                 return null;
         }
@@ -348,6 +406,7 @@ export class EndpointDiscovery {
             line: 0, // Will be set later
             framework,
             params: params.length > 0 ? params : undefined,
+            description,
         };
     }
 
@@ -6,23 +6,64 @@ export interface Environment {
     id: string;
     name: string;
     variables: Record<string, string>;
+    secrets?: string[];         // Variables whose values are kept in SecretStorage rather than globalState
     isActive: boolean;
     createdAt: number;
     updatedAt: number;
 }
 
 const STORAGE_KEY = 'apiTester.environments';
+const SECRETS_KEY = 'apiTester.environmentSecrets';
 
 export class EnvironmentManager {
     private context: vscode.ExtensionContext;
     private fileWatcher?: vscode.FileSystemWatcher;
+    // Values of secret variables by environment id, read once so interpolate() can stay synchronous
+    private secretValues: Record<string, Record<string, string>> = {};
+    private secretsLoaded: Promise<void>;
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
+        this.secretsLoaded = this.loadSecrets();
         this.setupFileWatcher();
         this.loadFromEnvFiles();
     }
 
+    private async loadSecrets(): Promise<void> {
+        try {
+            const stored = await this.context.secrets.get(SECRETS_KEY);
+            this.secretValues = stored ? JSON.parse(stored) : {};
+        } catch (error) {
+            console.error('Failed to load secret variables:', error);
+        }
+    }
+
+    /**
+     * Store environments with the values of secret variables moved to SecretStorage
+     */
+    private async saveEnvironments(environments: Environment[]): Promise<void> {
+        await this.secretsLoaded;
+        const secretValues: Record<string, Record<string, string>> = {};
+        const stored = environments.map(env => {
+            const secrets = (env.secrets || []).filter(key => key in env.variables);
+            const variables: Record<string, string> = {};
+            for (const [key, value] of Object.entries(env.variables)) {
+                if (secrets.includes(key)) {
+                    (secretValues[env.id] = secretValues[env.id] || {})[key] = value;
+                } else {
+                    variables[key] = value;
+                }
+            }
+            return { ...env, variables, secrets: secrets.length > 0 ? secrets : undefined };
+        });
+
+        if (JSON.stringify(secretValues) !== JSON.stringify(this.secretValues)) {
+            this.secretValues = secretValues;
+            await this.context.secrets.store(SECRETS_KEY, JSON.stringify(secretValues));
+        }
+        await this.context.globalState.update(STORAGE_KEY, stored);
+    }
+
     private setupFileWatcher(): void {
         // Watch for .env file changes
         this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/.env*');
@@ -129,11 +170,18 @@ export class EnvironmentManager {
             });
         }
 
-        await this.context.globalState.update(STORAGE_KEY, environments);
+        await this.saveEnvironments(environments);
     }
 
+    /**
+     * Environments with their secret variables filled back in
+     */
     async getEnvironments(): Promise<Environment[]> {
-        return this.context.globalState.get<Environment[]>(STORAGE_KEY, []);
+        await this.secretsLoaded;
+        return this.context.globalState.get<Environment[]>(STORAGE_KEY, []).map(env => ({
+            ...env,
+            variables: { ...env.variables, ...(this.secretValues[env.id] || {}) },
+        }));
     }
 
     async getActiveEnvironment(): Promise<Environment | null> {
@@ -141,7 +189,15 @@ export class EnvironmentManager {
         return environments.find(e => e.isActive) || null;
     }
 
-    async createEnvironment(name: string, variables: Record<string, string> = {}): Promise<Environment> {
+    /**
+     * Values of the active environment's secret variables, so they can be masked where requests are recorded
+     */
+    async getSecretValues(): Promise<string[]> {
+        const env = await this.getActiveEnvironment();
+        return (env?.secrets || []).map(key => env?.variables[key] || '').filter(value => value !== '');
+    }
+
+    async createEnvironment(name: string, variables: Record<string, string> = {}, secrets: string[] = []): Promise<Environment> {
         const environments = await this.getEnvironments();
         const now = Date.now();
 
@@ -149,13 +205,14 @@ export class EnvironmentManager {
             id: this.generateId(),
             name,
             variables,
+            secrets: secrets.length > 0 ? secrets : undefined,
             isActive: environments.length === 0, // First env is active by default
             createdAt: now,
             updatedAt: now,
         };
 
         environments.push(newEnv);
-        await this.context.globalState.update(STORAGE_KEY, environments);
+        await this.saveEnvironments(environments);
 
         return newEnv;
     }
@@ -172,7 +229,7 @@ export class EnvironmentManager {
             updatedAt: Date.now(),
         };
 
-        await this.context.globalState.update(STORAGE_KEY, environments);
+        await this.saveEnvironments(environments);
         return environments[index];
     }
 
@@ -190,7 +247,7 @@ export class EnvironmentManager {
         }
 
         if (found) {
-            await this.context.globalState.update(STORAGE_KEY, environments);
+            await this.saveEnvironments(environments);
         }
 
         return found;
@@ -207,20 +264,45 @@ export class EnvironmentManager {
             filtered[0].isActive = true;
         }
 
-        await this.context.globalState.update(STORAGE_KEY, filtered);
+        await this.saveEnvironments(filtered);
         return true;
     }
 
-    async setVariable(envId: string, key: string, value: string): Promise<boolean> {
+    /**
+     * Set a variable's value; with secret, also whether it is kept in SecretStorage.
+     * A secret value is never written to globalState, not even briefly.
+     */
+    async setVariable(envId: string, key: string, value: string, secret?: boolean): Promise<boolean> {
         const environments = await this.getEnvironments();
         const env = environments.find(e => e.id === envId);
 
         if (!env) return false;
 
         env.variables[key] = value;
+        if (secret !== undefined) {
+            const secrets = (env.secrets || []).filter(name => name !== key);
+            env.secrets = secret ? [...secrets, key] : secrets;
+        }
+        env.updatedAt = Date.now();
+
+        await this.saveEnvironments(environments);
+        return true;
+    }
+
+    /**
+     * Mark a variable as secret, moving its value to SecretStorage, or back to a plain one
+     */
+    async setVariableSecret(envId: string, key: string, secret: boolean): Promise<boolean> {
+        const environments = await this.getEnvironments();
+        const env = environments.find(e => e.id === envId);
+
+        if (!env || !(key in env.variables)) return false;
+
+        const secrets = (env.secrets || []).filter(name => name !== key);
+        env.secrets = secret ? [...secrets, key] : secrets;
         env.updatedAt = Date.now();
 
-        await this.context.globalState.update(STORAGE_KEY, environments);
+        await this.saveEnvironments(environments);
         return true;
     }
 
@@ -233,18 +315,26 @@ export class EnvironmentManager {
         delete env.variables[key];
         env.updatedAt = Date.now();
 
-        await this.context.globalState.update(STORAGE_KEY, environments);
+        await this.saveEnvironments(environments);
         return true;
     }
 
+    /**
+     * Resolves once secret variables are read from SecretStorage; interpolate() can't see them before
+     */
+    ready(): Promise<void> {
+        return this.secretsLoaded;
+    }
+
     // Replace variables in a string
     interpolate(text: string, additionalVars: Record<string, string> = {}): string {
-        // Get active environment variables
+        // Get active environment variables, secret ones included
         const environments = this.context.globalState.get<Environment[]>(STORAGE_KEY, []);
         const activeEnv = environments.find(e => e.isActive);
         
         const variables = {
             ...(activeEnv?.variables || {}),
+            ...(activeEnv ? this.secretValues[activeEnv.id] : {}),
             ...additionalVars,
         };
 
@@ -261,14 +351,18 @@ export class EnvironmentManager {
         return activeEnv?.variables || {};
     }
 
-    // Export environment
+    // Export environment; secret variables are listed with empty values
     async exportEnvironment(id: string): Promise<string | null> {
         const environments = await this.getEnvironments();
         const env = environments.find(e => e.id === id);
 
         if (!env) return null;
 
-        return JSON.stringify(env, null, 2);
+        const variables = { ...env.variables };
+        for (const key of env.secrets || []) {
+            if (key in variables) variables[key] = '';
+        }
+        return JSON.stringify({ ...env, variables }, null, 2);
     }
 
     // Import environment
@@ -280,7 +374,8 @@ export class EnvironmentManager {
                 throw new Error('Invalid environment format');
             }
 
-            return await this.createEnvironment(data.name, data.variables);
+            const secrets = Array.isArray(data.secrets) ? data.secrets.filter((key: unknown) => typeof key === 'string') : [];
+            return await this.createEnvironment(data.name, data.variables, secrets);
         } catch (error) {
             console.error('Failed to import environment:', error);
             return null;
@@ -0,0 +1,118 @@
+export interface GraphQLSchemaField {
+    name: string;
+    description?: string;
+    type: string;           // Printed type reference, e.g. "[User!]!"
+    namedType: string;      // Innermost named type, e.g. "User"
+    args: { name: string; type: string }[];
+}
+
+export interface GraphQLSchemaType {
+    name: string;
+    kind: string;
+    description?: string;
+    fields: GraphQLSchemaField[];   // Fields, or input fields for input objects
+    enumValues?: string[];
+}
+
+export interface GraphQLSchemaSummary {
+    queryType?: string;
+    mutationType?: string;
+    subscriptionType?: string;
+    types: Record<string, GraphQLSchemaType>;
+}
+
+interface TypeRef {
+    kind: string;
+    name: string | null;
+    ofType?: TypeRef | null;
+}
+
+export const INTROSPECTION_QUERY = `query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    subscriptionType { name }
+    types {
+      kind
+      name
+      description
+      fields(includeDeprecated: true) {
+        name
+        description
+        args { name type { ...TypeRef } }
+        type { ...TypeRef }
+      }
+      inputFields { name description type { ...TypeRef } }
+      enumValues(includeDeprecated: true) { name }
+    }
+  }
+}
+
+fragment TypeRef on __Type {
+  kind
+  name
+  ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } } } } }
+}`;
+
+/**
+ * GraphQLIntrospection - Turns an introspection response into a compact schema
+ * for autocompletion and the schema explorer
+ */
+export class GraphQLIntrospection {
+    /**
+     * Parse an introspection response body, throws if the server returned no schema
+     */
+    static parse(responseBody: string): GraphQLSchemaSummary {
+        let result: any;
+        try {
+            result = JSON.parse(responseBody);
+        } catch {
+            throw new Error('Introspection response is not valid JSON');
+        }
+
+        const schema = result?.data?.__schema;
+        if (!schema) {
+            const message = result?.errors?.[0]?.message;
+            throw new Error(message ? `Introspection failed: ${message}` : 'Introspection response has no schema');
+        }
+
+        const types: Record<string, GraphQLSchemaType> = {};
+        for (const type of schema.types || []) {
+            // Skip the introspection types themselves
+            if (!type.name || type.name.startsWith('__')) continue;
+
+            const fields = (type.fields || type.inputFields || []).map((field: any) => ({
+                name: field.name,
+                description: field.description || undefined,
+                type: this.printType(field.type),
+                namedType: this.namedType(field.type),
+                args: (field.args || []).map((arg: any) => ({ name: arg.name, type: this.printType(arg.type) })),
+            }));
+
+            types[type.name] = {
+                name: type.name,
+                kind: type.kind,
+                description: type.description || undefined,
+                fields,
+                enumValues: type.enumValues?.map((value: { name: string }) => value.name),
+            };
+        }
+
+        return {
+            queryType: schema.queryType?.name,
+            mutationType: schema.mutationType?.name,
+            subscriptionType: schema.subscriptionType?.name,
+            types,
+        };
+    }
+
+    private static printType(ref: TypeRef): string {
+        if (ref.kind === 'NON_NULL' && ref.ofType) return `${this.printType(ref.ofType)}!`;
+        if (ref.kind === 'LIST' && ref.ofType) return `[${this.printType(ref.ofType)}]`;
+        return ref.name || 'Unknown';
+    }
+
+    private static namedType(ref: TypeRef): string {
+        return ref.ofType ? this.namedType(ref.ofType) : ref.name || 'Unknown';
+    }
+}
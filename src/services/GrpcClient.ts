@@ -0,0 +1,345 @@
+import * as http2 from 'http2';
+import * as zlib from 'zlib';
+import { RequestExecutor, CookieStore } from './RequestExecutor';
+
+export interface GrpcCallOptions {
+    metadata?: Record<string, string>;
+    timeout?: number;         // Deadline for the whole call in milliseconds (0 = none)
+    web?: boolean;            // gRPC-Web over HTTP/1.1 instead of native gRPC over HTTP/2
+    cookies?: CookieStore;    // Used for gRPC-Web calls
+}
+
+export interface GrpcHandlers {
+    onHeaders?(headers: Record<string, string>): void;
+    onMessage(message: Buffer): void;
+}
+
+export interface GrpcResult {
+    status: number;           // gRPC status code, 0 is OK
+    statusName: string;
+    message: string;
+    headers: Record<string, string>;
+    trailers: Record<string, string>;
+    time: number;
+    size: number;             // Message bytes received, frame headers included
+}
+
+// gRPC status codes (grpc/doc/statuscodes.md)
+const STATUS_NAMES = [
+    'OK', 'CANCELLED', 'UNKNOWN', 'INVALID_ARGUMENT', 'DEADLINE_EXCEEDED', 'NOT_FOUND', 'ALREADY_EXISTS',
+    'PERMISSION_DENIED', 'RESOURCE_EXHAUSTED', 'FAILED_PRECONDITION', 'ABORTED', 'OUT_OF_RANGE',
+    'UNIMPLEMENTED', 'INTERNAL', 'UNAVAILABLE', 'DATA_LOSS', 'UNAUTHENTICATED',
+];
+// Closest HTTP status per code, as gRPC gateways map them
+const HTTP_STATUSES = [200, 499, 500, 400, 504, 404, 409, 403, 429, 400, 409, 400, 501, 500, 503, 500, 401];
+const STATUS_CANCELLED = 1;
+const STATUS_UNKNOWN = 2;
+const STATUS_DEADLINE_EXCEEDED = 4;
+
+// Headers the transport owns; user metadata can't override them
+const RESERVED_HEADERS = ['content-type', 'te', 'grpc-timeout', 'grpc-encoding', 'grpc-accept-encoding', 'host', 'connection', 'x-grpc-web'];
+
+const FRAME_TRAILERS = 0x80;
+const FRAME_COMPRESSED = 0x01;
+
+/**
+ * GrpcClient - Unary and server-streaming calls with length-prefixed message framing
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class GrpcClient {
+    private inFlight = new Map<string, () => void>();
+
+    constructor(private readonly executor: RequestExecutor) {}
+
+    static statusName(code: number): string {
+        return STATUS_NAMES[code] ?? `CODE_${code}`;
+    }
+
+    static httpStatus(code: number): number {
+        return HTTP_STATUSES[code] ?? 500;
+    }
+
+    /**
+     * Make a call to url, whose path is /package.Service/Method. Resolves once the
+     * server sent its status, including non-OK ones; rejects on transport failures.
+     */
+    call(id: string, url: string, message: Buffer, options: GrpcCallOptions, handlers: GrpcHandlers): Promise<GrpcResult> {
+        this.cancel(id);
+        return options.web
+            ? this.callWeb(id, url, message, options, handlers)
+            : this.callNative(id, url, message, options, handlers);
+    }
+
+    /**
+     * Cancel a call; it resolves with CANCELLED and whatever was received so far
+     */
+    cancel(id: string): boolean {
+        const cancel = this.inFlight.get(id);
+        if (!cancel) return false;
+
+        cancel();
+        return true;
+    }
+
+    dispose(): void {
+        for (const id of [...this.inFlight.keys()]) {
+            this.cancel(id);
+        }
+    }
+
+    private callNative(id: string, url: string, message: Buffer, options: GrpcCallOptions, handlers: GrpcHandlers): Promise<GrpcResult> {
+        return new Promise((resolve, reject) => {
+            const target = new URL(url);
+            const startTime = Date.now();
+            const session = http2.connect(target.origin);
+            const headers: http2.OutgoingHttpHeaders = {
+                ...this.metadataHeaders(options.metadata),
+                ':method': 'POST',
+                ':path': target.pathname,
+                'content-type': 'application/grpc+proto',
+                'te': 'trailers',
+                'grpc-accept-encoding': 'identity,gzip',
+            };
+            if (options.timeout && options.timeout > 0) {
+                headers['grpc-timeout'] = `${options.timeout}m`;
+            }
+
+            let responseHeaders: Record<string, string> = {};
+            let trailers: Record<string, string> = {};
+            let size = 0;
+            let settled = false;
+            const frames = this.frameReader(handlers, (bytes) => { size += bytes; });
+
+            const finish = (status: number, statusMessage: string) => {
+                if (settled) return;
+                settled = true;
+                cleanup();
+                resolve({
+                    status,
+                    statusName: GrpcClient.statusName(status),
+                    message: statusMessage,
+                    headers: responseHeaders,
+                    trailers,
+                    time: Date.now() - startTime,
+                    size,
+                });
+            };
+
+            const fail = (error: Error) => {
+                if (settled) return;
+                settled = true;
+                cleanup();
+                reject(error);
+            };
+
+            session.on('error', fail);
+            const stream = session.request(headers);
+
+            const timer = options.timeout && options.timeout > 0
+                ? setTimeout(() => {
+                    stream.close(http2.constants.NGHTTP2_CANCEL);
+                    finish(STATUS_DEADLINE_EXCEEDED, `Deadline of ${options.timeout}ms exceeded`);
+                }, options.timeout)
+                : undefined;
+
+            const cleanup = () => {
+                clearTimeout(timer);
+                this.inFlight.delete(id);
+                session.close();
+            };
+
+            this.inFlight.set(id, () => {
+                stream.close(http2.constants.NGHTTP2_CANCEL);
+                finish(STATUS_CANCELLED, 'Cancelled by client');
+            });
+
+            stream.on('response', (received) => {
+                responseHeaders = this.flattenHeaders(received);
+                handlers.onHeaders?.(responseHeaders);
+            });
+            stream.on('data', (chunk: Buffer) => {
+                try {
+                    frames(chunk);
+                } catch (error) {
+                    stream.close(http2.constants.NGHTTP2_CANCEL);
+                    fail(error as Error);
+                }
+            });
+            stream.on('trailers', (received) => {
+                trailers = this.flattenHeaders(received);
+            });
+            let streamError: Error | undefined;
+            stream.on('error', (error) => { streamError = error; });
+            stream.on('close', () => {
+                // Trailers-only responses carry the status in the headers
+                const source = trailers['grpc-status'] !== undefined ? trailers : responseHeaders;
+                if (source['grpc-status'] !== undefined) {
+                    finish(Number(source['grpc-status']), this.decodeMessage(source['grpc-message']));
+                } else if (responseHeaders[':status'] && responseHeaders[':status'] !== '200') {
+                    finish(STATUS_UNKNOWN, `HTTP status ${responseHeaders[':status']}`);
+                } else {
+                    // A failed connect cancels the stream first; let the session report the real cause
+                    setImmediate(() => fail(streamError ?? new Error('Stream closed without a grpc-status')));
+                }
+            });
+
+            stream.end(this.frame(message));
+        });
+    }
+
+    /**
+     * gRPC-Web runs over a regular HTTP request; the status arrives in a trailer frame at the end of the body
+     */
+    private async callWeb(id: string, url: string, message: Buffer, options: GrpcCallOptions, handlers: GrpcHandlers): Promise<GrpcResult> {
+        const startTime = Date.now();
+        let trailers: Record<string, string> = {};
+        let size = 0;
+        const frames = this.frameReader(handlers, (bytes) => { size += bytes; }, (text) => {
+            trailers = this.parseTrailerBlock(text);
+        });
+
+        // Both end the request early but keep the messages received so far
+        let ended: { status: number; message: string } | undefined;
+        this.inFlight.set(id, () => {
+            ended = { status: STATUS_CANCELLED, message: 'Cancelled by client' };
+            this.executor.stop(id);
+        });
+        const timer = options.timeout && options.timeout > 0
+            ? setTimeout(() => {
+                ended = { status: STATUS_DEADLINE_EXCEEDED, message: `Deadline of ${options.timeout}ms exceeded` };
+                this.executor.stop(id);
+            }, options.timeout)
+            : undefined;
+
+        const result = (status: number, statusMessage: string, headers: Record<string, string>): GrpcResult => ({
+            status,
+            statusName: GrpcClient.statusName(status),
+            message: statusMessage,
+            headers,
+            trailers,
+            time: Date.now() - startTime,
+            size,
+        });
+
+        try {
+            const response = await this.executor.execute(id, {
+                method: 'POST',
+                url,
+                headers: {
+                    ...this.metadataHeaders(options.metadata),
+                    'Content-Type': 'application/grpc-web+proto',
+                    'Accept': 'application/grpc-web+proto',
+                    'X-Grpc-Web': '1',
+                },
+                body: this.frame(message),
+            }, {
+                cookies: options.cookies,
+                stream: {
+                    accept: ({ headers }) => {
+                        handlers.onHeaders?.(headers);
+                        return true;
+                    },
+                    onChunk: frames,
+                },
+            });
+            if (ended) return result(ended.status, ended.message, response.headers);
+
+            const source = trailers['grpc-status'] !== undefined ? trailers : response.headers;
+            if (source['grpc-status'] !== undefined) {
+                return result(Number(source['grpc-status']), this.decodeMessage(source['grpc-message']), response.headers);
+            }
+            if (response.status !== 200) {
+                return result(STATUS_UNKNOWN, `HTTP status ${response.status}`, response.headers);
+            }
+            throw new Error('Response ended without a grpc-status');
+        } catch (error) {
+            // Stopped before the response headers arrived
+            if (ended) return result(ended.status, ended.message, {});
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            this.inFlight.delete(id);
+        }
+    }
+
+    /**
+     * Length-prefixed message: compressed flag, 4-byte big-endian length, payload
+     */
+    private frame(message: Buffer): Buffer {
+        const header = Buffer.alloc(5);
+        header.writeUInt32BE(message.length, 1);
+        return Buffer.concat([header, message]);
+    }
+
+    /**
+     * Returns a chunk consumer that emits each complete frame; frames may span chunks
+     */
+    private frameReader(handlers: GrpcHandlers, onBytes: (bytes: number) => void, onTrailers?: (text: string) => void): (chunk: Buffer) => void {
+        let buffer = Buffer.alloc(0);
+        return (chunk: Buffer) => {
+            buffer = Buffer.concat([buffer, chunk]);
+            while (buffer.length >= 5) {
+                const flags = buffer[0];
+                const length = buffer.readUInt32BE(1);
+                if (buffer.length < 5 + length) return;
+
+                let payload = buffer.subarray(5, 5 + length);
+                buffer = buffer.subarray(5 + length);
+                onBytes(5 + length);
+
+                if (flags & FRAME_COMPRESSED) {
+                    payload = zlib.gunzipSync(payload);
+                }
+                if (flags & FRAME_TRAILERS) {
+                    onTrailers?.(payload.toString('utf8'));
+                } else {
+                    handlers.onMessage(Buffer.from(payload));
+                }
+            }
+        };
+    }
+
+    private parseTrailerBlock(text: string): Record<string, string> {
+        const trailers: Record<string, string> = {};
+        for (const line of text.split('\r\n')) {
+            const colon = line.indexOf(':');
+            if (colon > 0) {
+                trailers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+            }
+        }
+        return trailers;
+    }
+
+    private metadataHeaders(metadata: Record<string, string> = {}): Record<string, string> {
+        const headers: Record<string, string> = {};
+        for (const [key, value] of Object.entries(metadata)) {
+            const name = key.toLowerCase();
+            if (!RESERVED_HEADERS.includes(name) && !name.startsWith(':')) {
+                headers[name] = value;
+            }
+        }
+        return headers;
+    }
+
+    /**
+     * grpc-message is percent-encoded on the wire
+     */
+    private decodeMessage(message: string | undefined): string {
+        if (!message) return '';
+        try {
+            return decodeURIComponent(message);
+        } catch {
+            return message;
+        }
+    }
+
+    private flattenHeaders(headers: http2.IncomingHttpHeaders): Record<string, string> {
+        const result: Record<string, string> = {};
+        for (const [key, value] of Object.entries(headers)) {
+            if (value !== undefined) {
+                result[key] = Array.isArray(value) ? value.join(', ') : String(value);
+            }
+        }
+        return result;
+    }
+}
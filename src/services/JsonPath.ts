@@ -0,0 +1,281 @@
+type Selector =
+    | { kind: 'name'; name: string }
+    | { kind: 'wildcard' }
+    | { kind: 'index'; index: number }
+    | { kind: 'slice'; start?: number; end?: number; step: number }
+    | { kind: 'filter'; path: Segment[]; operator?: string; value?: unknown };
+
+interface Segment {
+    descendant: boolean;    // .. selects among all descendants instead of direct children
+    selectors: Selector[];
+}
+
+const FILTER_OPERATORS = ['==', '!=', '<=', '>=', '<', '>', '=~'];
+
+/**
+ * JsonPath - Evaluates JSONPath expressions such as $.items[0].id, $..name,
+ * $.items[*].tags, $.items[-1:] and $.items[?(@.price < 10)]
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class JsonPath {
+    /**
+     * All values the expression selects, in document order
+     */
+    static query(value: unknown, expression: string): unknown[] {
+        const segments = new JsonPathParser(expression).parse();
+        return this.evaluate(segments, [value]);
+    }
+
+    private static evaluate(segments: Segment[], nodes: unknown[]): unknown[] {
+        let current = nodes;
+        for (const segment of segments) {
+            const next: unknown[] = [];
+            for (const node of current) {
+                const candidates = segment.descendant ? this.descendants(node) : [node];
+                for (const candidate of candidates) {
+                    for (const selector of segment.selectors) {
+                        next.push(...this.select(candidate, selector));
+                    }
+                }
+            }
+            current = next;
+        }
+        return current;
+    }
+
+    private static select(node: unknown, selector: Selector): unknown[] {
+        switch (selector.kind) {
+            case 'name':
+                return this.isObject(node) && Object.prototype.hasOwnProperty.call(node, selector.name) ? [node[selector.name]] : [];
+
+            case 'wildcard':
+                return this.children(node);
+
+            case 'index': {
+                if (!Array.isArray(node)) return [];
+                const index = selector.index < 0 ? node.length + selector.index : selector.index;
+                return index >= 0 && index < node.length ? [node[index]] : [];
+            }
+
+            case 'slice': {
+                if (!Array.isArray(node)) return [];
+                const normalize = (i: number) => i < 0 ? Math.max(0, node.length + i) : Math.min(i, node.length);
+                const result: unknown[] = [];
+                if (selector.step > 0) {
+                    const end = selector.end === undefined ? node.length : normalize(selector.end);
+                    for (let i = selector.start === undefined ? 0 : normalize(selector.start); i < end; i += selector.step) result.push(node[i]);
+                } else if (selector.step < 0) {
+                    const end = selector.end === undefined ? -1 : normalize(selector.end);
+                    for (let i = selector.start === undefined ? node.length - 1 : Math.min(normalize(selector.start), node.length - 1); i > end; i += selector.step) result.push(node[i]);
+                }
+                return result;
+            }
+
+            case 'filter':
+                return this.children(node).filter(child => this.matchesFilter(child, selector));
+        }
+    }
+
+    private static matchesFilter(node: unknown, filter: Extract<Selector, { kind: 'filter' }>): boolean {
+        const matches = this.evaluate(filter.path, [node]);
+        if (filter.operator === undefined) return matches.length > 0;
+        if (matches.length === 0) return filter.operator === '!=';
+
+        const left = matches[0];
+        const right = filter.value;
+        switch (filter.operator) {
+            case '==': return this.equals(left, right);
+            case '!=': return !this.equals(left, right);
+            case '<': return this.comparable(left, right) && (left as number) < (right as number);
+            case '>': return this.comparable(left, right) && (left as number) > (right as number);
+            case '<=': return this.comparable(left, right) && (left as number) <= (right as number);
+            case '>=': return this.comparable(left, right) && (left as number) >= (right as number);
+            case '=~': return typeof left === 'string' && typeof right === 'string' && new RegExp(right).test(left);
+            default: return false;
+        }
+    }
+
+    private static comparable(left: unknown, right: unknown): boolean {
+        return (typeof left === 'number' && typeof right === 'number') || (typeof left === 'string' && typeof right === 'string');
+    }
+
+    static equals(a: unknown, b: unknown): boolean {
+        if (a === b) return true;
+        if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+        if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+        const aKeys = Object.keys(a);
+        const bKeys = Object.keys(b);
+        if (aKeys.length !== bKeys.length) return false;
+        return aKeys.every(key => Object.prototype.hasOwnProperty.call(b, key)
+            && this.equals((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+    }
+
+    private static children(node: unknown): unknown[] {
+        if (Array.isArray(node)) return node;
+        if (this.isObject(node)) return Object.values(node);
+        return [];
+    }
+
+    /**
+     * The node itself and everything below it, depth first
+     */
+    private static descendants(node: unknown): unknown[] {
+        const result: unknown[] = [node];
+        for (const child of this.children(node)) {
+            result.push(...this.descendants(child));
+        }
+        return result;
+    }
+
+    private static isObject(node: unknown): node is Record<string, unknown> {
+        return typeof node === 'object' && node !== null && !Array.isArray(node);
+    }
+}
+
+class JsonPathParser {
+    private pos = 0;
+
+    constructor(private readonly source: string) {}
+
+    parse(): Segment[] {
+        this.skipSpaces();
+        if (this.source[this.pos] === '$') this.pos++;
+        const segments = this.segments(false);
+        if (this.pos < this.source.length) {
+            throw this.error(`Unexpected "${this.source[this.pos]}"`);
+        }
+        return segments;
+    }
+
+    /**
+     * Segments up to the end, or in a filter up to the operator or closing parenthesis
+     */
+    private segments(inFilter: boolean): Segment[] {
+        const segments: Segment[] = [];
+        while (this.pos < this.source.length) {
+            this.skipSpaces();
+            const char = this.source[this.pos];
+            if (this.source.startsWith('..', this.pos)) {
+                this.pos += 2;
+                segments.push({ descendant: true, selectors: this.source[this.pos] === '[' ? this.bracket() : [this.dotName()] });
+            } else if (char === '.') {
+                this.pos++;
+                segments.push({ descendant: false, selectors: [this.dotName()] });
+            } else if (char === '[') {
+                segments.push({ descendant: false, selectors: this.bracket() });
+            } else if (inFilter || char === undefined) {
+                break;
+            } else {
+                throw this.error(`Unexpected "${char}"`);
+            }
+        }
+        return segments;
+    }
+
+    private dotName(): Selector {
+        if (this.source[this.pos] === '*') {
+            this.pos++;
+            return { kind: 'wildcard' };
+        }
+        const match = /^[^.[\]\s()=!<>~]+/.exec(this.source.slice(this.pos));
+        if (!match) throw this.error('Expected a property name');
+        this.pos += match[0].length;
+        return { kind: 'name', name: match[0] };
+    }
+
+    private bracket(): Selector[] {
+        this.expect('[');
+        const selectors: Selector[] = [];
+        do {
+            this.skipSpaces();
+            selectors.push(this.bracketSelector());
+            this.skipSpaces();
+        } while (this.source[this.pos] === ',' && ++this.pos);
+        this.expect(']');
+        return selectors;
+    }
+
+    private bracketSelector(): Selector {
+        const char = this.source[this.pos];
+        if (char === '*') {
+            this.pos++;
+            return { kind: 'wildcard' };
+        }
+        if (char === '\'' || char === '"') {
+            return { kind: 'name', name: this.string() };
+        }
+        if (char === '?') {
+            this.pos++;
+            return this.filter();
+        }
+
+        const match = /^(-?\d*)\s*(?::\s*(-?\d*)\s*(?::\s*(-?\d*))?)?/.exec(this.source.slice(this.pos));
+        if (!match || match[0].trim() === '') throw this.error('Expected an index, a name, * or a filter');
+        this.pos += match[0].length;
+        const number = (text: string | undefined) => text === undefined || text === '' ? undefined : parseInt(text, 10);
+        if (!match[0].includes(':')) {
+            if (!/^-?\d+$/.test(match[1])) throw this.error('Expected an index');
+            return { kind: 'index', index: parseInt(match[1], 10) };
+        }
+        const step = number(match[3]) ?? 1;
+        if (step === 0) throw this.error('Slice step cannot be 0');
+        return { kind: 'slice', start: number(match[1]), end: number(match[2]), step };
+    }
+
+    private filter(): Selector {
+        this.skipSpaces();
+        this.expect('(');
+        this.skipSpaces();
+        this.expect('@');
+        const path = this.segments(true);
+        this.skipSpaces();
+
+        const operator = FILTER_OPERATORS.find(op => this.source.startsWith(op, this.pos));
+        let value: unknown;
+        if (operator) {
+            this.pos += operator.length;
+            this.skipSpaces();
+            value = this.literal();
+            this.skipSpaces();
+        }
+        this.expect(')');
+        return { kind: 'filter', path, operator, value };
+    }
+
+    private literal(): unknown {
+        const char = this.source[this.pos];
+        if (char === '\'' || char === '"') return this.string();
+
+        const match = /^(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(this.source.slice(this.pos));
+        if (!match) throw this.error('Expected a string, number, true, false or null');
+        this.pos += match[0].length;
+        return JSON.parse(match[0]);
+    }
+
+    private string(): string {
+        const quote = this.source[this.pos++];
+        let result = '';
+        while (this.pos < this.source.length && this.source[this.pos] !== quote) {
+            if (this.source[this.pos] === '\\' && this.pos + 1 < this.source.length) this.pos++;
+            result += this.source[this.pos++];
+        }
+        this.expect(quote);
+        return result;
+    }
+
+    private expect(char: string): void {
+        if (this.source[this.pos] !== char) {
+            throw this.error(`Expected "${char}"`);
+        }
+        this.pos++;
+    }
+
+    private skipSpaces(): void {
+        while (this.source[this.pos] === ' ') this.pos++;
+    }
+
+    private error(message: string): Error {
+        return new Error(`Invalid JSONPath "${this.source}": ${message} at position ${this.pos}`);
+    }
+}
@@ -0,0 +1,208 @@
+import { RequestExecutor, ExecuteRequest, ExecuteOptions } from './RequestExecutor';
+import { AuthResolver, RequestAuth } from './AuthResolver';
+
+export interface LoadTestOptions {
+    concurrency: number;        // Requests in flight at once, once ramped up
+    requests?: number;          // Total to send; ignored when there is a duration
+    duration?: number;          // Milliseconds to keep sending
+    rampUp?: number;            // Milliseconds over which the workers start, evenly spaced
+    interval?: number;          // Milliseconds between progress reports
+}
+
+// A request ready for the executor; prepared again for every send so bodies from files can be re-read
+export interface PreparedRequest {
+    request: ExecuteRequest;
+    options: ExecuteOptions;
+    auth?: RequestAuth;         // Signed as it is sent, when a provider handles it
+    interpolate?: (text: string) => string;
+}
+
+export interface LatencyStats {
+    min: number;
+    mean: number;
+    p50: number;
+    p90: number;
+    p99: number;
+    max: number;
+}
+
+export interface LoadTestStats {
+    elapsed: number;
+    total: number;
+    errors: number;             // Requests that failed to send or got a 4xx or 5xx status
+    errorRate: number;          // 0 to 1
+    throughput: number;         // Requests per second
+    statuses: Record<string, number>;
+    failures: Record<string, number>;   // Messages of requests that failed to send
+    latency: LatencyStats;
+    stopped: boolean;           // Ended early by cancel()
+}
+
+// One progress interval, for the live chart
+export interface LoadTestPoint {
+    time: number;               // Milliseconds since the start, at the end of the interval
+    workers: number;            // Workers started so far, to show the ramp-up
+    throughput: number;
+    errorRate: number;
+    p50: number;
+    p90: number;
+    p99: number;
+}
+
+export interface LoadTestHooks {
+    onProgress?(stats: LoadTestStats, point: LoadTestPoint): void;
+}
+
+interface Sample {
+    time: number;
+    status?: number;
+    error?: string;
+}
+
+/**
+ * LoadTester - Sends one request from a number of concurrent workers, for a count or a
+ * duration, and reports throughput, errors and latency percentiles as it goes
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class LoadTester {
+    private cancelled = false;
+    private workerIds = new Set<string>();
+    private wakers = new Set<() => void>();
+
+    constructor(private readonly executor: RequestExecutor, private readonly id: string = 'load-test') {}
+
+    async run(prepare: () => Promise<PreparedRequest>, options: LoadTestOptions, hooks: LoadTestHooks = {}): Promise<LoadTestStats> {
+        this.cancelled = false;
+        const startTime = Date.now();
+        const concurrency = Math.max(1, Math.floor(options.concurrency));
+        const deadline = options.duration ? startTime + options.duration : undefined;
+        const limit = Math.max(1, options.requests ?? concurrency);
+        const samples: Sample[] = [];
+        let window: Sample[] = [];
+        let started = 0;
+        let workers = 0;
+
+        const more = () => !this.cancelled && (deadline !== undefined ? Date.now() < deadline : started < limit);
+        const worker = async (index: number) => {
+            if (options.rampUp) {
+                await this.sleep(options.rampUp * index / concurrency);
+            }
+            workers++;
+            const id = `${this.id}-${index}`;
+            this.workerIds.add(id);
+            while (more()) {
+                started++;
+                const sample = await this.send(id, prepare);
+                // Requests aborted by cancel() say nothing about the server
+                if (this.cancelled && sample.error) break;
+                samples.push(sample);
+                window.push(sample);
+            }
+            this.workerIds.delete(id);
+        };
+
+        let last = startTime;
+        const report = () => {
+            const now = Date.now();
+            const seconds = Math.max(now - last, 1) / 1000;
+            const latency = LoadTester.latency(window);
+            const errors = window.filter(LoadTester.isError).length;
+            hooks.onProgress?.(this.stats(samples, now - startTime), {
+                time: now - startTime,
+                workers,
+                throughput: window.length / seconds,
+                errorRate: window.length ? errors / window.length : 0,
+                p50: latency.p50,
+                p90: latency.p90,
+                p99: latency.p99,
+            });
+            window = [];
+            last = now;
+        };
+
+        const timer = setInterval(report, options.interval ?? 1000);
+        try {
+            await Promise.all(Array.from({ length: concurrency }, (_, i) => worker(i)));
+        } finally {
+            clearInterval(timer);
+        }
+        if (window.length > 0) report();
+        return this.stats(samples, Date.now() - startTime);
+    }
+
+    /**
+     * Stop sending; requests in flight are cancelled
+     */
+    cancel(): void {
+        this.cancelled = true;
+        this.workerIds.forEach(id => this.executor.cancel(id));
+        this.wakers.forEach(wake => wake());
+    }
+
+    private async send(id: string, prepare: () => Promise<PreparedRequest>): Promise<Sample> {
+        const startTime = Date.now();
+        try {
+            const prepared = await prepare();
+            const { response } = await AuthResolver.send(this.executor, id, prepared.request, prepared.options, prepared.auth, prepared.interpolate || (text => text));
+            return { time: response.time, status: response.status };
+        } catch (error) {
+            return { time: Date.now() - startTime, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    private stats(samples: Sample[], elapsed: number): LoadTestStats {
+        const statuses: Record<string, number> = {};
+        const failures: Record<string, number> = {};
+        for (const sample of samples) {
+            if (sample.status !== undefined) statuses[sample.status] = (statuses[sample.status] || 0) + 1;
+            if (sample.error) failures[sample.error] = (failures[sample.error] || 0) + 1;
+        }
+        const errors = samples.filter(LoadTester.isError).length;
+        return {
+            elapsed,
+            total: samples.length,
+            errors,
+            errorRate: samples.length ? errors / samples.length : 0,
+            throughput: samples.length / (Math.max(elapsed, 1) / 1000),
+            statuses,
+            failures,
+            latency: LoadTester.latency(samples),
+            stopped: this.cancelled,
+        };
+    }
+
+    private static isError(sample: Sample): boolean {
+        return sample.error !== undefined || (sample.status !== undefined && sample.status >= 400);
+    }
+
+    /**
+     * Nearest-rank percentiles of the response times, in milliseconds
+     */
+    private static latency(samples: Sample[]): LatencyStats {
+        const times = samples.map(s => s.time).sort((a, b) => a - b);
+        if (times.length === 0) {
+            return { min: 0, mean: 0, p50: 0, p90: 0, p99: 0, max: 0 };
+        }
+        const percentile = (p: number) => times[Math.max(0, Math.ceil(p / 100 * times.length) - 1)];
+        return {
+            min: times[0],
+            mean: Math.round(times.reduce((sum, t) => sum + t, 0) / times.length),
+            p50: percentile(50),
+            p90: percentile(90),
+            p99: percentile(99),
+            max: times[times.length - 1],
+        };
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const wake = () => {
+                clearTimeout(timer);
+                this.wakers.delete(wake);
+                resolve();
+            };
+            const timer = setTimeout(wake, ms);
+            this.wakers.add(wake);
+        });
+    }
+}
@@ -0,0 +1,322 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { RequestExecutor } from './RequestExecutor';
+
+export type OAuth2GrantType = 'client_credentials' | 'password' | 'authorization_code';
+
+export interface OAuth2Config {
+    grantType: OAuth2GrantType;
+    tokenUrl: string;
+    authorizationUrl?: string;  // Authorization code only
+    clientId: string;
+    clientSecret?: string;      // Left out for public clients, which rely on PKCE
+    scope?: string;             // Space-separated
+    username?: string;          // Password grant only
+    password?: string;
+    redirectUri?: string;       // Loopback address to listen on; a free port on 127.0.0.1 when left out
+    clientAuth?: 'basic' | 'body';  // How the client secret is sent, Basic header by default
+}
+
+export interface OAuth2Token {
+    accessToken: string;
+    tokenType: string;
+    refreshToken?: string;
+    scope?: string;
+    issuedAt: number;
+    expiresAt?: number;         // Left out when the server doesn't say
+}
+
+// Where tokens are kept: the extension's SecretStorage, as refresh tokens are long-lived credentials, or memory for the command line runner
+export interface OAuth2TokenStore {
+    get(key: string): PromiseLike<string | undefined>;
+    store(key: string, value: string): PromiseLike<void>;
+}
+
+export interface OAuth2TokenOptions {
+    // Opens the authorization page, resolving to false if no browser could be opened;
+    // without it the authorization code flow can't start
+    openBrowser?(url: string): PromiseLike<boolean | void> | boolean | void;
+    force?: boolean;            // Fetch a new token even if the cached one is still good
+}
+
+const STORAGE_KEY = 'apiTester.oauth2Tokens';
+const GLOBAL_SCOPE = '__global__';
+const EXPIRY_MARGIN = 60000;
+const AUTHORIZATION_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * OAuth2Client - Fetches OAuth 2.0 access tokens with the client credentials, password and
+ * authorization code (PKCE, loopback redirect) grants, caches them per environment and
+ * refreshes them before they expire
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class OAuth2Client {
+    private tokens: Record<string, Record<string, OAuth2Token>> = {};
+    private tokensLoaded: Promise<void>;
+    private pending = new Map<string, Promise<OAuth2Token>>();
+    private requestCount = 0;
+
+    constructor(private readonly executor: RequestExecutor, private readonly store: OAuth2TokenStore) {
+        this.tokensLoaded = this.load();
+    }
+
+    /**
+     * A usable token for the config: the cached one while it is fresh, else refreshed or fetched anew.
+     * Concurrent callers share one fetch.
+     */
+    async getToken(config: OAuth2Config, envId: string | undefined, options: OAuth2TokenOptions = {}): Promise<OAuth2Token> {
+        const key = this.key(config);
+        const cached = await this.getCachedToken(config, envId);
+        if (cached && !options.force && !this.isExpiring(cached)) {
+            return cached;
+        }
+
+        const scope = this.scope(envId);
+        const pendingKey = `${scope} ${key}`;
+        const pending = this.pending.get(pendingKey);
+        if (pending) return pending;
+
+        const fetch = (async () => {
+            let token: OAuth2Token | undefined;
+            if (cached?.refreshToken && !options.force) {
+                try {
+                    token = await this.refresh(config, cached.refreshToken);
+                } catch {
+                    // A refresh token that was revoked or expired means starting over
+                }
+            }
+            token = token || await this.fetchToken(config, options);
+            (this.tokens[scope] = this.tokens[scope] || {})[key] = token;
+            await this.save();
+            return token;
+        })();
+        this.pending.set(pendingKey, fetch);
+        try {
+            return await fetch;
+        } finally {
+            this.pending.delete(pendingKey);
+        }
+    }
+
+    async getCachedToken(config: OAuth2Config, envId?: string): Promise<OAuth2Token | undefined> {
+        await this.tokensLoaded;
+        return this.tokens[this.scope(envId)]?.[this.key(config)];
+    }
+
+    async clearToken(config: OAuth2Config, envId?: string): Promise<void> {
+        await this.tokensLoaded;
+        delete this.tokens[this.scope(envId)]?.[this.key(config)];
+        await this.save();
+    }
+
+    /**
+     * Get a token with the config's grant, ignoring the cache
+     */
+    async fetchToken(config: OAuth2Config, options: OAuth2TokenOptions = {}): Promise<OAuth2Token> {
+        switch (config.grantType) {
+            case 'client_credentials':
+                return this.requestToken(config, { grant_type: 'client_credentials', scope: config.scope });
+            case 'password':
+                if (!config.username) throw new Error('The password grant needs a username');
+                return this.requestToken(config, { grant_type: 'password', username: config.username, password: config.password || '', scope: config.scope });
+            case 'authorization_code':
+                return this.authorizationCode(config, options);
+            default:
+                throw new Error(`Unsupported OAuth 2.0 grant type: ${config.grantType}`);
+        }
+    }
+
+    /**
+     * Trade a refresh token for a new access token. Servers that don't rotate refresh tokens
+     * leave it out of the response, so the old one is kept.
+     */
+    async refresh(config: OAuth2Config, refreshToken: string): Promise<OAuth2Token> {
+        const token = await this.requestToken(config, { grant_type: 'refresh_token', refresh_token: refreshToken, scope: config.scope });
+        return { ...token, refreshToken: token.refreshToken || refreshToken };
+    }
+
+    /**
+     * Authorization code grant with PKCE (RFC 7636): the user signs in in the browser and is
+     * sent back to a one-off server on the loopback interface (RFC 8252), which takes the code
+     */
+    private async authorizationCode(config: OAuth2Config, options: OAuth2TokenOptions): Promise<OAuth2Token> {
+        if (!config.authorizationUrl) throw new Error('The authorization code grant needs an authorization URL');
+        if (!options.openBrowser) throw new Error('The authorization code grant needs a browser; get a token in the editor first');
+
+        const verifier = this.base64Url(crypto.randomBytes(32));
+        const challenge = this.base64Url(crypto.createHash('sha256').update(verifier).digest());
+        const state = this.base64Url(crypto.randomBytes(16));
+        const redirect = new URL(config.redirectUri || 'http://127.0.0.1/callback');
+        if (redirect.protocol !== 'http:' || !['127.0.0.1', 'localhost', '[::1]'].includes(redirect.hostname)) {
+            throw new Error('The redirect URI must be a loopback address, e.g. http://127.0.0.1:8765/callback');
+        }
+
+        const server = http.createServer();
+        try {
+            await new Promise<void>((resolve, reject) => {
+                server.once('error', reject);
+                server.listen(Number(redirect.port) || 0, redirect.hostname.replace(/^\[|\]$/g, ''), resolve);
+            });
+            const address = server.address();
+            if (address && typeof address === 'object') redirect.port = String(address.port);
+            const redirectUri = redirect.toString();
+
+            const authorizeUrl = new URL(config.authorizationUrl);
+            authorizeUrl.searchParams.set('response_type', 'code');
+            authorizeUrl.searchParams.set('client_id', config.clientId);
+            authorizeUrl.searchParams.set('redirect_uri', redirectUri);
+            if (config.scope) authorizeUrl.searchParams.set('scope', config.scope);
+            authorizeUrl.searchParams.set('state', state);
+            authorizeUrl.searchParams.set('code_challenge', challenge);
+            authorizeUrl.searchParams.set('code_challenge_method', 'S256');
+
+            // Listening before the browser opens, so a quick redirect isn't missed
+            const wait = this.waitForCode(server, redirect.pathname, state);
+            try {
+                // Otherwise the loopback server would wait out its whole timeout for a redirect that never comes
+                if (await options.openBrowser(authorizeUrl.toString()) === false) {
+                    throw new Error('Could not open the browser to sign in');
+                }
+                return await this.requestToken(config, { grant_type: 'authorization_code', code: await wait.code, redirect_uri: redirectUri, code_verifier: verifier });
+            } finally {
+                wait.cancel();
+            }
+        } finally {
+            server.close();
+        }
+    }
+
+    /**
+     * The code the redirect brings back. cancel() stops the timeout, e.g. when the browser couldn't be opened.
+     */
+    private waitForCode(server: http.Server, callbackPath: string, state: string): { code: Promise<string>; cancel(): void } {
+        let timer: NodeJS.Timeout | undefined;
+        const received = new Promise<string>((resolve, reject) => {
+            timer = setTimeout(() => reject(new Error('Timed out waiting for the authorization server to redirect back')), AUTHORIZATION_TIMEOUT);
+            server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+                const url = new URL(req.url || '/', 'http://127.0.0.1');
+                if (url.pathname !== callbackPath) {
+                    res.writeHead(404).end();
+                    return;
+                }
+
+                const error = url.searchParams.get('error');
+                const code = url.searchParams.get('code');
+                const ok = !error && code && url.searchParams.get('state') === state;
+                res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+                res.end(`<html><body style="font-family:sans-serif"><h3>${ok ? 'Signed in' : 'Sign-in failed'}</h3><p>You can close this window and return to VS Code.</p></body></html>`);
+
+                clearTimeout(timer);
+                if (error) {
+                    const description = url.searchParams.get('error_description');
+                    reject(new Error(`Authorization failed: ${error}${description ? ` (${description})` : ''}`));
+                } else if (!code) {
+                    reject(new Error('The authorization server redirected back without a code'));
+                } else if (url.searchParams.get('state') !== state) {
+                    reject(new Error('The authorization response has the wrong state; it may not be from this sign-in'));
+                } else {
+                    resolve(code);
+                }
+            });
+        });
+        return {
+            code: received,
+            cancel: () => {
+                clearTimeout(timer);
+                received.catch(() => undefined);
+            },
+        };
+    }
+
+    /**
+     * POST to the token endpoint (RFC 6749 section 4) and read the token from its JSON, or form-encoded, response
+     */
+    private async requestToken(config: OAuth2Config, params: Record<string, string | undefined>): Promise<OAuth2Token> {
+        if (!config.tokenUrl) throw new Error('OAuth 2.0 needs a token URL');
+
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Accept': 'application/json',
+        };
+        const form = new URLSearchParams();
+        for (const [key, value] of Object.entries(params)) {
+            if (value) form.set(key, value);
+        }
+        // Public clients and client_secret_post send the id in the body; confidential clients default to Basic
+        if (config.clientSecret && config.clientAuth !== 'body') {
+            const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+            headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+        } else {
+            form.set('client_id', config.clientId);
+            if (config.clientSecret) form.set('client_secret', config.clientSecret);
+        }
+
+        const issuedAt = Date.now();
+        const response = await this.executor.execute(`oauth2-${++this.requestCount}`, {
+            method: 'POST',
+            url: config.tokenUrl,
+            headers,
+            body: form.toString(),
+        }, { timeout: 30000 });
+
+        const text = response.body.toString('utf8');
+        let data: Record<string, unknown>;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            data = Object.fromEntries(new URLSearchParams(text));
+        }
+
+        if (response.status >= 400 || data.error) {
+            const error = data.error ? `${data.error}${data.error_description ? ` (${data.error_description})` : ''}` : `${response.status} ${response.statusText}`;
+            throw new Error(`Token request failed: ${error}`);
+        }
+        if (typeof data.access_token !== 'string' || !data.access_token) {
+            throw new Error('The token response has no access_token');
+        }
+
+        const expiresIn = Number(data.expires_in);
+        return {
+            accessToken: data.access_token,
+            tokenType: typeof data.token_type === 'string' && data.token_type ? data.token_type : 'Bearer',
+            refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+            scope: typeof data.scope === 'string' ? data.scope : config.scope,
+            issuedAt,
+            expiresAt: expiresIn > 0 ? issuedAt + expiresIn * 1000 : undefined,
+        };
+    }
+
+    /**
+     * Refresh a minute early, or a tenth of the lifetime early for short-lived tokens
+     */
+    private isExpiring(token: OAuth2Token): boolean {
+        if (token.expiresAt === undefined) return false;
+        const margin = Math.min(EXPIRY_MARGIN, (token.expiresAt - token.issuedAt) / 10);
+        return Date.now() >= token.expiresAt - margin;
+    }
+
+    private key(config: OAuth2Config): string {
+        return [config.grantType, config.tokenUrl, config.clientId, config.scope || '', config.username || ''].join(' ');
+    }
+
+    private scope(envId?: string): string {
+        return envId || GLOBAL_SCOPE;
+    }
+
+    private async load(): Promise<void> {
+        try {
+            const stored = await this.store.get(STORAGE_KEY);
+            this.tokens = stored ? JSON.parse(stored) : {};
+        } catch (error) {
+            console.error('Failed to load OAuth 2.0 tokens:', error);
+        }
+    }
+
+    private async save(): Promise<void> {
+        await this.store.store(STORAGE_KEY, JSON.stringify(this.tokens));
+    }
+
+    private base64Url(buffer: Buffer): string {
+        return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    }
+}
@@ -1,20 +1,26 @@
-import { SavedRequest } from './RequestHistory';
+import { SavedRequest, FormField } from './RequestHistory';
+import { AuthResolver } from './AuthResolver';
 import {
     OpenAPIDocument,
     OpenAPIOperation,
     OpenAPIParameter,
     OpenAPIPathItem,
+    OpenAPIRequestBody,
+    OpenAPISchema,
     APITesterCollection,
     OpenAPIResponseExample,
+    OpenAPISecurityScheme,
 } from '../types/openapi';
 
 export class OpenAPIConverter {
     /**
-     * Convert saved requests to OpenAPI 3.0 document
+     * Convert saved requests to OpenAPI 3.0 document. Credentials that aren't {{variable}}
+     * references are left out, and collected by request id into secrets when it is given.
      */
-    static toOpenAPI(requests: SavedRequest[], title: string = 'API Collection'): APITesterCollection {
+    static toOpenAPI(requests: SavedRequest[], title: string = 'API Collection', secrets?: Record<string, Record<string, string>>): APITesterCollection {
         const paths: Record<string, OpenAPIPathItem> = {};
         const servers: Set<string> = new Set();
+        const securitySchemes: Record<string, OpenAPISecurityScheme> = {};
 
         // Group requests by path and method
         requests.forEach((request) => {
@@ -22,7 +28,9 @@ export class OpenAPIConverter {
                 const url = new URL(request.url);
                 const path = url.pathname;
                 const server = `${url.protocol}//${url.host}`;
-                servers.add(server);
+                if (!this.isWebSocket(request)) {
+                    servers.add(server);
+                }
 
                 // Initialize path if not exists
                 if (!paths[path]) {
@@ -31,7 +39,11 @@ export class OpenAPIConverter {
 
                 // Convert to OpenAPI operation
                 const operation = this.requestToOperation(request, url);
-                const method = request.method.toLowerCase();
+                const literal = this.writeAuth(operation, request.auth, securitySchemes);
+                if (secrets && Object.keys(literal).length > 0) {
+                    secrets[request.id] = literal;
+                }
+                const method = this.toOperationMethod(request.method);
 
                 // Type-safe assignment
                 switch (method) {
@@ -58,6 +70,7 @@ export class OpenAPIConverter {
             },
             servers: Array.from(servers).map((url) => ({ url })),
             paths,
+            components: Object.keys(securitySchemes).length > 0 ? { securitySchemes } : undefined,
         };
 
         return {
@@ -111,26 +124,18 @@ export class OpenAPIConverter {
         };
 
         // Add request body if exists
-        if (request.body) {
-            const contentType = request.headers?.['Content-Type'] ||
-                               request.headers?.['content-type'] ||
-                               'application/json';
+        operation.requestBody = this.toRequestBody(request);
 
-            operation.requestBody = {
-                content: {
-                    [contentType]: {
-                        schema: { type: 'object' },
-                        example: request.bodyType === 'json'
-                            ? this.tryParseJSON(request.body)
-                            : request.body,
-                    },
-                },
-            };
+        // WebSocket sessions keep their ws:// server on the operation
+        if (this.isWebSocket(request)) {
+            operation.responses = { '101': { description: 'Switching Protocols' } };
+            operation.servers = [{ url: `${url.protocol}//${url.host}` }];
+            operation['x-websocket'] = request.websocket || {};
         }
 
-        // Add authentication
-        if (request.auth && request.auth.type !== 'none') {
-            operation.security = [this.authToSecurity(request.auth)];
+        // gRPC calls remember the .proto file that describes their messages
+        if (request.method.toUpperCase() === 'GRPC') {
+            operation['x-grpc'] = request.grpc || { protoFile: '' };
         }
 
         // Store actual response data in extension field
@@ -142,6 +147,8 @@ export class OpenAPIConverter {
                 body: request.response.body,
                 time: request.response.time,
                 size: request.response.size,
+                timings: request.response.timings,
+                redirects: request.response.redirects,
                 timestamp: request.updatedAt,
             };
 
@@ -156,6 +163,31 @@ export class OpenAPIConverter {
             };
         }
 
+        // Store execution options
+        if (request.options && Object.keys(request.options).length > 0) {
+            operation['x-options'] = request.options;
+        }
+
+        // Store the GraphQL query as edited
+        if (request.bodyType === 'graphql' && request.graphql) {
+            operation['x-graphql'] = request.graphql;
+        }
+
+        // Store pre-request and test scripts
+        if (request.scripts?.preRequest || request.scripts?.test) {
+            operation['x-scripts'] = request.scripts;
+        }
+
+        // Store response assertions
+        if (request.assertions && request.assertions.length > 0) {
+            operation['x-assertions'] = request.assertions;
+        }
+
+        // Store the data file for data-driven runs
+        if (request.dataFile) {
+            operation['x-data-file'] = request.dataFile;
+        }
+
         // Store collection info
         if (request.collectionId) {
             operation['x-collection'] = request.collectionId;
@@ -180,7 +212,7 @@ export class OpenAPIConverter {
             methods.forEach((method) => {
                 const operation = pathItem[method] as OpenAPIOperation | undefined;
                 if (operation) {
-                    const request = this.operationToRequest(path, method, operation, defaultServer);
+                    const request = this.operationToRequest(path, method, operation, defaultServer, document.components?.securitySchemes);
                     requests.push(request);
                 }
             });
@@ -196,10 +228,11 @@ export class OpenAPIConverter {
         path: string,
         method: string,
         operation: OpenAPIOperation,
-        defaultServer: string
+        defaultServer: string,
+        securitySchemes: Record<string, OpenAPISecurityScheme> = {}
     ): SavedRequest {
         // Build URL with query parameters
-        const url = new URL(path, defaultServer);
+        const url = new URL(path, operation.servers?.[0]?.url || defaultServer);
         const queryParams = operation.parameters?.filter((p) => p.in === 'query') || [];
         queryParams.forEach((param) => {
             if (param.example) {
@@ -217,34 +250,16 @@ export class OpenAPIConverter {
         });
 
         // Get body
-        let body = '';
-        let bodyType: 'none' | 'json' | 'form' | 'text' | 'xml' = 'none';
-        if (operation.requestBody) {
-            const content = operation.requestBody.content;
-            const contentType = Object.keys(content)[0];
-            const mediaType = content[contentType];
-
-            if (contentType.includes('json')) {
-                bodyType = 'json';
-                body = mediaType.example
-                    ? JSON.stringify(mediaType.example, null, 2)
-                    : '';
-            } else if (contentType.includes('form')) {
-                bodyType = 'form';
-                body = mediaType.example || '';
-            } else if (contentType.includes('xml')) {
-                bodyType = 'xml';
-                body = mediaType.example || '';
-            } else {
-                bodyType = 'text';
-                body = mediaType.example || '';
-            }
-
+        const { body, bodyType, formData, bodyFile, contentType } = operation['x-graphql']
+            ? { body: '', bodyType: 'graphql' as const, formData: undefined, bodyFile: undefined, contentType: 'application/json' }
+            : this.fromRequestBody(operation.requestBody);
+        // gRPC sets its own content type; headers are call metadata
+        if (contentType && !operation['x-grpc']) {
             headers['Content-Type'] = contentType;
         }
 
         // Get auth from security
-        const auth = this.securityToAuth(operation.security?.[0]);
+        const auth = this.readAuth(operation, securitySchemes);
 
         // Get response from extension field
         const response = operation['x-response'];
@@ -254,12 +269,21 @@ export class OpenAPIConverter {
         return {
             id: operation.operationId || this.generateId(),
             name: operation.summary || `${method.toUpperCase()} ${path}`,
-            method: method.toUpperCase(),
+            method: operation['x-websocket'] ? 'WS' : operation['x-grpc'] ? 'GRPC' : method.toUpperCase(),
             url: url.toString(),
             headers,
             body,
             bodyType,
+            formData,
+            bodyFile,
+            graphql: operation['x-graphql'],
+            websocket: operation['x-websocket'],
+            grpc: operation['x-grpc'],
+            scripts: operation['x-scripts'],
+            assertions: operation['x-assertions'],
+            dataFile: operation['x-data-file'],
             auth,
+            options: operation['x-options'],
             response,
             createdAt: timestamp,
             updatedAt: timestamp,
@@ -268,36 +292,337 @@ export class OpenAPIConverter {
     }
 
     /**
-     * Convert auth to OpenAPI security requirement
+     * Path item key for a request method; WebSocket sessions live on the GET that opens them
+     * and gRPC calls on the POST that carries them
+     */
+    static toOperationMethod(method: string): string {
+        switch (method.toUpperCase()) {
+            case 'WS': return 'get';
+            case 'GRPC': return 'post';
+            default: return method.toLowerCase();
+        }
+    }
+
+    private static isWebSocket(request: Pick<SavedRequest, 'method'>): boolean {
+        return request.method.toUpperCase() === 'WS';
+    }
+
+    /**
+     * Convert a request body to an OpenAPI requestBody
+     */
+    static toRequestBody(
+        request: Pick<SavedRequest, 'headers' | 'body' | 'bodyType' | 'formData' | 'bodyFile' | 'graphql'>
+    ): OpenAPIRequestBody | undefined {
+        const contentType = request.headers?.['Content-Type'] || request.headers?.['content-type'];
+
+        if (request.bodyType === 'multipart') {
+            const fields = (request.formData || []).filter(f => f.key);
+            if (fields.length === 0) return undefined;
+
+            return {
+                content: {
+                    'multipart/form-data': {
+                        schema: { type: 'object', properties: this.formFieldsToProperties(fields) },
+                    },
+                },
+            };
+        }
+
+        if (request.bodyType === 'form' && request.formData) {
+            const fields = request.formData.filter(f => f.key);
+            if (fields.length === 0) return undefined;
+
+            return {
+                content: {
+                    'application/x-www-form-urlencoded': {
+                        schema: {
+                            type: 'object',
+                            properties: this.formFieldsToProperties(fields.map(f => ({ ...f, type: 'text' }))),
+                        },
+                    },
+                },
+            };
+        }
+
+        if (request.bodyType === 'graphql') {
+            if (!request.graphql?.query) return undefined;
+
+            // Other tools see a plain GraphQL-over-HTTP body; x-graphql keeps the editable form
+            return {
+                content: {
+                    'application/json': {
+                        schema: {
+                            type: 'object',
+                            properties: {
+                                query: { type: 'string' },
+                                variables: { type: 'object' },
+                                operationName: { type: 'string' },
+                            },
+                        },
+                        example: {
+                            query: request.graphql.query,
+                            variables: request.graphql.variables ? this.tryParseJSON(request.graphql.variables) : undefined,
+                            operationName: request.graphql.operationName || undefined,
+                        },
+                    },
+                },
+            };
+        }
+
+        if (request.bodyType === 'binary') {
+            if (!request.bodyFile) return undefined;
+
+            return {
+                content: {
+                    [contentType || 'application/octet-stream']: {
+                        schema: { type: 'string', format: 'binary' },
+                        example: request.bodyFile,
+                    },
+                },
+            };
+        }
+
+        if (!request.body) return undefined;
+
+        return {
+            content: {
+                [contentType || 'application/json']: {
+                    schema: { type: 'object' },
+                    example: request.bodyType === 'json'
+                        ? this.tryParseJSON(request.body)
+                        : request.body,
+                },
+            },
+        };
+    }
+
+    /**
+     * Convert an OpenAPI requestBody back to request body fields
+     */
+    static fromRequestBody(requestBody?: OpenAPIRequestBody): Pick<SavedRequest, 'body' | 'bodyType' | 'formData' | 'bodyFile'> & { contentType?: string } {
+        if (!requestBody) {
+            return { body: '', bodyType: 'none' };
+        }
+
+        const content = requestBody.content;
+        const contentType = Object.keys(content)[0];
+        const mediaType = content[contentType];
+
+        if (contentType.includes('multipart/form-data')) {
+            return {
+                body: '',
+                bodyType: 'multipart',
+                formData: this.propertiesToFormFields(mediaType.schema?.properties || {}),
+                contentType,
+            };
+        }
+        if (mediaType.schema?.type === 'string' && mediaType.schema.format === 'binary') {
+            return { body: '', bodyType: 'binary', bodyFile: String(mediaType.example || ''), contentType };
+        }
+        if (contentType.includes('json')) {
+            return {
+                body: mediaType.example ? JSON.stringify(mediaType.example, null, 2) : '',
+                bodyType: 'json',
+                contentType,
+            };
+        }
+        if (contentType.includes('x-www-form-urlencoded')) {
+            // Older documents stored the form as a raw key=value example string
+            const formData = mediaType.schema?.properties
+                ? this.propertiesToFormFields(mediaType.schema.properties)
+                : Array.from(new URLSearchParams(String(mediaType.example || ''))).map(([key, value]) => ({ key, value, type: 'text' as const }));
+            return { body: '', bodyType: 'form', formData, contentType };
+        }
+        if (contentType.includes('form')) {
+            return { body: mediaType.example || '', bodyType: 'form', contentType };
+        }
+        if (contentType.includes('xml')) {
+            return { body: mediaType.example || '', bodyType: 'xml', contentType };
+        }
+        return { body: mediaType.example || '', bodyType: 'text', contentType };
+    }
+
+    /**
+     * Form fields become schema properties; file fields are binary strings
+     * whose example is the file path. Repeated keys become arrays.
      */
-    private static authToSecurity(auth: any): Record<string, string[]> {
+    private static formFieldsToProperties(fields: FormField[]): Record<string, OpenAPISchema> {
+        const grouped = new Map<string, FormField[]>();
+        fields.forEach((field) => {
+            grouped.set(field.key, [...(grouped.get(field.key) || []), field]);
+        });
+
+        const properties: Record<string, OpenAPISchema> = {};
+        grouped.forEach((group, key) => {
+            const item: OpenAPISchema = group[0].type === 'file'
+                ? { type: 'string', format: 'binary' }
+                : { type: 'string' };
+
+            properties[key] = group.length === 1
+                ? { ...item, example: group[0].value }
+                : { type: 'array', items: item, example: group.map(f => f.value) };
+        });
+
+        return properties;
+    }
+
+    private static propertiesToFormFields(properties: Record<string, OpenAPISchema>): FormField[] {
+        const fields: FormField[] = [];
+
+        Object.entries(properties).forEach(([key, schema]) => {
+            const isArray = schema.type === 'array';
+            const item = isArray ? schema.items || {} : schema;
+            const type = item.format === 'binary' ? 'file' : 'text';
+            const values: unknown[] = isArray && Array.isArray(schema.example) ? schema.example : [schema.example ?? ''];
+
+            values.forEach((value) => {
+                fields.push({ key, value: typeof value === 'string' ? value : JSON.stringify(value), type });
+            });
+        });
+
+        return fields;
+    }
+
+    /**
+     * Put a request's auth on its operation: a security requirement, its securitySchemes entry, and
+     * the credentials that are {{variable}} references. Credentials written out are left off, so the
+     * document is safe to share, and returned for the caller to keep somewhere safe.
+     */
+    static writeAuth(operation: OpenAPIOperation, auth: SavedRequest['auth'] | undefined, securitySchemes: Record<string, OpenAPISecurityScheme>): Record<string, string> {
+        delete operation.security;
+        delete operation['x-auth-credentials'];
+        if (!auth || auth.type === 'none') return {};
+
+        const references: Record<string, string> = {};
+        const literal: Record<string, string> = {};
+        for (const field of AuthResolver.CREDENTIAL_FIELDS) {
+            const value = (auth as Record<string, unknown>)[field];
+            if (typeof value !== 'string' || !value) continue;
+            if (AuthResolver.isReference(value)) {
+                references[field] = value;
+            } else {
+                literal[field] = value;
+            }
+        }
+
+        operation.security = [this.authToSecurity(auth, securitySchemes)];
+        if (Object.keys(references).length > 0) {
+            operation['x-auth-credentials'] = references;
+        }
+        return literal;
+    }
+
+    /**
+     * A request's auth from its operation: the settings from the security scheme and the
+     * credentials that were saved as references
+     */
+    static readAuth(operation: OpenAPIOperation, securitySchemes: Record<string, OpenAPISecurityScheme> = {}): any {
+        const auth = this.securityToAuth(operation.security?.[0], securitySchemes);
+        return auth.type === 'none' ? auth : { ...auth, ...(operation['x-auth-credentials'] || {}) };
+    }
+
+    /**
+     * Convert auth to OpenAPI security requirement, adding the securitySchemes entry it refers to
+     */
+    private static authToSecurity(auth: any, securitySchemes: Record<string, OpenAPISecurityScheme>): Record<string, string[]> {
+        const scopes: string[] = auth.scope ? auth.scope.split(' ').filter((s: string) => s) : [];
+        const provided = AuthResolver.toSecurityScheme(auth);
+        if (provided) {
+            return { [this.addSecurityScheme(securitySchemes, `${auth.type}Auth`, provided)]: [] };
+        }
+
         switch (auth.type) {
             case 'bearer':
-                return { bearerAuth: [] };
+                return { [this.addSecurityScheme(securitySchemes, 'bearerAuth', { type: 'http', scheme: 'bearer' })]: [] };
             case 'basic':
-                return { basicAuth: [] };
+                return { [this.addSecurityScheme(securitySchemes, 'basicAuth', { type: 'http', scheme: 'basic' })]: [] };
             case 'apikey':
-                return { apiKeyAuth: [] };
+                return {
+                    [this.addSecurityScheme(securitySchemes, 'apiKeyAuth', {
+                        type: 'apiKey',
+                        in: auth.addTo === 'query' || auth.addTo === 'cookie' ? auth.addTo : 'header',
+                        name: auth.key || 'X-API-Key',
+                    })]: [],
+                };
+            case 'oauth2': {
+                const flow = { tokenUrl: auth.tokenUrl || '', scopes: Object.fromEntries(scopes.map((s) => [s, ''])) };
+                const scheme: OpenAPISecurityScheme = {
+                    type: 'oauth2',
+                    flows: auth.grantType === 'password' ? { password: flow }
+                        : auth.grantType === 'authorization_code' ? { authorizationCode: { ...flow, authorizationUrl: auth.authorizationUrl || '' } }
+                        : { clientCredentials: flow },
+                };
+                // How the client signs in isn't part of OpenAPI's description of the flow
+                const extra: Record<string, string> = {};
+                if (auth.redirectUri) extra.redirectUri = auth.redirectUri;
+                if (auth.clientAuth) extra.clientAuth = auth.clientAuth;
+                if (Object.keys(extra).length > 0) scheme['x-auth'] = { type: 'oauth2', ...extra };
+                return { [this.addSecurityScheme(securitySchemes, 'oauth2Auth', scheme)]: scopes };
+            }
             default:
                 return {};
         }
     }
 
+    /**
+     * Add a scheme under the name, or a numbered one when a different scheme already has it
+     */
+    private static addSecurityScheme(securitySchemes: Record<string, OpenAPISecurityScheme>, name: string, scheme: OpenAPISecurityScheme): string {
+        const json = JSON.stringify(scheme);
+        let unique = name;
+        for (let i = 2; securitySchemes[unique] && JSON.stringify(securitySchemes[unique]) !== json; i++) {
+            unique = `${name}${i}`;
+        }
+        securitySchemes[unique] = scheme;
+        return unique;
+    }
+
     /**
      * Convert OpenAPI security to auth
      */
-    private static securityToAuth(security?: Record<string, string[]>): any {
+    private static securityToAuth(security: Record<string, string[]> | undefined, securitySchemes: Record<string, OpenAPISecurityScheme>): any {
         if (!security) {
             return { type: 'none' };
         }
 
         const securityType = Object.keys(security)[0];
+        const scheme = securityType ? securitySchemes[securityType] : undefined;
+        const provided = scheme && AuthResolver.fromSecurityScheme(scheme);
+        if (provided) {
+            return provided;
+        }
+        if (scheme?.type === 'apiKey') {
+            return { type: 'apikey', key: scheme.name || '', value: '', addTo: scheme.in || 'header' };
+        }
+        if (scheme?.type === 'http' && scheme.scheme?.toLowerCase() === 'bearer') {
+            return { type: 'bearer', token: '' };
+        }
+        if (scheme?.type === 'http' && scheme.scheme?.toLowerCase() === 'basic') {
+            return { type: 'basic', username: '', password: '' };
+        }
+        if (scheme?.type === 'oauth2' && scheme.flows) {
+            const { clientCredentials, password, authorizationCode } = scheme.flows;
+            const flow = clientCredentials || password || authorizationCode;
+            const scopes = security[securityType].length > 0 ? security[securityType] : Object.keys(flow?.scopes || {});
+            return {
+                type: 'oauth2',
+                grantType: clientCredentials ? 'client_credentials' : password ? 'password' : authorizationCode ? 'authorization_code' : 'client_credentials',
+                tokenUrl: flow?.tokenUrl || '',
+                authorizationUrl: authorizationCode?.authorizationUrl,
+                scope: scopes.join(' '),
+                redirectUri: scheme['x-auth']?.redirectUri,
+                clientAuth: scheme['x-auth']?.clientAuth,
+            };
+        }
+
         if (securityType?.includes('bearer')) {
             return { type: 'bearer', token: '' };
         } else if (securityType?.includes('basic')) {
             return { type: 'basic', username: '', password: '' };
         } else if (securityType?.includes('apiKey')) {
             return { type: 'apikey', key: '', value: '' };
+        } else if (securityType?.includes('oauth2')) {
+            return { type: 'oauth2', grantType: 'client_credentials', scope: security[securityType].join(' ') };
         }
 
         return { type: 'none' };
@@ -1,18 +1,24 @@
 import * as vscode from 'vscode';
-import { OpenAPIDocument, OpenAPIOperation, OpenAPIPathItem, APITesterCollection } from '../types/openapi';
+import { OpenAPIDocument, OpenAPIOperation, OpenAPIPathItem, OpenAPIComponents, OpenAPISecurityRequirement, APITesterCollection } from '../types/openapi';
 import { SavedRequest } from './RequestHistory';
 import { OpenAPIConverter } from './OpenAPIConverter';
+import { ContractValidator } from './ContractValidator';
 
 const STORAGE_KEY = 'apiTester.openapi';
+const SECRETS_KEY = 'apiTester.authCredentials';
+const METHODS: (keyof OpenAPIPathItem)[] = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'trace'];
 
 /**
  * OpenAPI-first storage service
- * All data is stored in OpenAPI 3.0 format
+ * All data is stored in OpenAPI 3.0 format; auth credentials that aren't {{variable}}
+ * references are kept in SecretStorage, by operation id, so the document is safe to export
  */
 export class OpenAPIStorage {
     private context: vscode.ExtensionContext;
     private document: OpenAPIDocument;
     private metadata: APITesterCollection['metadata'];
+    private secrets: Record<string, Record<string, string>> = {};
+    private secretsLoaded: Promise<void>;
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
@@ -26,6 +32,7 @@ export class OpenAPIStorage {
         };
 
         // Load from storage
+        this.secretsLoaded = this.loadSecrets();
         this.load();
     }
 
@@ -57,10 +64,34 @@ export class OpenAPIStorage {
             console.log('[OpenAPIStorage] Loaded document with', Object.keys(this.document.paths).length, 'paths');
         } else {
             // Try to migrate from old format
+            await this.secretsLoaded;
             await this.migrateFromLegacyFormat();
         }
     }
 
+    private async loadSecrets(): Promise<void> {
+        try {
+            const stored = await this.context.secrets.get(SECRETS_KEY);
+            this.secrets = stored ? JSON.parse(stored) : {};
+        } catch (error) {
+            console.error('[OpenAPIStorage] Failed to load auth credentials:', error);
+        }
+    }
+
+    /**
+     * Keep the written-out credentials of an operation, or forget them when there are none
+     */
+    private async setSecrets(operationId: string, credentials: Record<string, string>): Promise<void> {
+        if (Object.keys(credentials).length === 0 && !this.secrets[operationId]) return;
+
+        if (Object.keys(credentials).length > 0) {
+            this.secrets[operationId] = credentials;
+        } else {
+            delete this.secrets[operationId];
+        }
+        await this.context.secrets.store(SECRETS_KEY, JSON.stringify(this.secrets));
+    }
+
     /**
      * Save OpenAPI document to storage
      */
@@ -77,12 +108,18 @@ export class OpenAPIStorage {
     }
 
     /**
-     * Get all requests as flat array (for UI)
+     * Get all requests as flat array (for UI), with their credentials filled back in
      */
-    getRequests(): SavedRequest[] {
+    async getRequests(): Promise<SavedRequest[]> {
+        await this.secretsLoaded;
         return OpenAPIConverter.fromOpenAPI({
             document: this.document,
             metadata: this.metadata,
+        }).map((request) => {
+            const credentials = this.secrets[request.id];
+            return credentials && request.auth && request.auth.type !== 'none'
+                ? { ...request, auth: { ...request.auth, ...credentials } }
+                : request;
         });
     }
 
@@ -93,7 +130,8 @@ export class OpenAPIStorage {
         try {
             const url = new URL(request.url);
             const path = url.pathname;
-            const method = request.method.toLowerCase();
+            const method = OpenAPIConverter.toOperationMethod(request.method);
+            const isWebSocket = request.method.toUpperCase() === 'WS';
 
             // Initialize path if doesn't exist
             if (!this.document.paths[path]) {
@@ -112,9 +150,20 @@ export class OpenAPIStorage {
             // Convert request to operation
             const operation = this.requestToOperation(request, url, operationId, createdAt, updatedAt);
 
-            // Add server if not exists
+            // Auth as a security requirement and scheme; written-out credentials go to SecretStorage
+            const components = this.document.components || (this.document.components = {});
+            const credentials = OpenAPIConverter.writeAuth(operation, request.auth, components.securitySchemes || (components.securitySchemes = {}));
+            await this.secretsLoaded;
+            await this.setSecrets(operationId, credentials);
+
+            // Keep the response contract of an imported operation so it is still validated
+            if (existingOp && ContractValidator.hasContract(existingOp)) {
+                operation.responses = existingOp.responses;
+            }
+
+            // Add server if not exists; WebSocket sessions carry their own
             const serverUrl = `${url.protocol}//${url.host}`;
-            if (!this.document.servers?.some(s => s.url === serverUrl)) {
+            if (!isWebSocket && !this.document.servers?.some(s => s.url === serverUrl)) {
                 if (!this.document.servers) {
                     this.document.servers = [];
                 }
@@ -133,6 +182,7 @@ export class OpenAPIStorage {
                 case 'trace': pathItem.trace = operation; break;
             }
 
+            this.pruneSecuritySchemes();
             await this.save();
 
             // Return as SavedRequest
@@ -144,10 +194,20 @@ export class OpenAPIStorage {
                 headers: request.headers || {},
                 body: request.body,
                 bodyType: request.bodyType,
+                formData: request.formData,
+                bodyFile: request.bodyFile,
+                graphql: request.graphql,
+                websocket: request.websocket,
+                grpc: request.grpc,
+                scripts: request.scripts,
+                assertions: request.assertions,
+                dataFile: request.dataFile,
                 auth: request.auth,
+                options: request.options,
                 response: request.response,
                 createdAt,
                 updatedAt,
+                collectionId: request.collectionId,
             };
         } catch (error) {
             console.error('[OpenAPIStorage] Failed to save request:', error);
@@ -162,13 +222,14 @@ export class OpenAPIStorage {
         try {
             const urlObj = new URL(url);
             const path = urlObj.pathname;
-            const methodLower = method.toLowerCase();
+            const methodLower = OpenAPIConverter.toOperationMethod(method);
 
             if (!this.document.paths[path]) {
                 return false;
             }
 
             const pathItem = this.document.paths[path];
+            const operationId = (pathItem[methodLower as keyof OpenAPIPathItem] as OpenAPIOperation | undefined)?.operationId;
             delete pathItem[methodLower as keyof OpenAPIPathItem];
 
             // Remove path if empty
@@ -176,6 +237,11 @@ export class OpenAPIStorage {
                 delete this.document.paths[path];
             }
 
+            if (operationId) {
+                await this.secretsLoaded;
+                await this.setSecrets(operationId, {});
+            }
+            this.pruneSecuritySchemes();
             await this.save();
             return true;
         } catch (error) {
@@ -215,6 +281,7 @@ export class OpenAPIStorage {
 
         try {
             const importedDoc = JSON.parse(json) as OpenAPIDocument;
+            this.renameSecuritySchemes(importedDoc);
 
             // Merge paths
             Object.entries(importedDoc.paths).forEach(([path, pathItem]) => {
@@ -223,8 +290,7 @@ export class OpenAPIStorage {
                 }
 
                 // Merge operations
-                const methods: (keyof OpenAPIPathItem)[] = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'trace'];
-                methods.forEach((method) => {
+                METHODS.forEach((method) => {
                     const operation = pathItem[method];
                     if (operation) {
                         this.document.paths[path][method] = operation as any;
@@ -233,6 +299,15 @@ export class OpenAPIStorage {
                 });
             });
 
+            // Merge components so $refs in the imported paths resolve; imported entries win
+            if (importedDoc.components) {
+                const components = this.document.components || (this.document.components = {});
+                Object.entries(importedDoc.components).forEach(([section, entries]) => {
+                    const key = section as keyof OpenAPIComponents;
+                    components[key] = { ...(components[key] || {}), ...(entries || {}) } as any;
+                });
+            }
+
             // Merge servers
             if (importedDoc.servers) {
                 const existingServers = new Set(this.document.servers?.map(s => s.url) || []);
@@ -259,9 +334,66 @@ export class OpenAPIStorage {
      */
     async clear(): Promise<void> {
         this.document = this.createEmptyDocument();
+        await this.secretsLoaded;
+        this.secrets = {};
+        await this.context.secrets.delete(SECRETS_KEY);
         await this.save();
     }
 
+    /**
+     * Drop security schemes nothing refers to any more, e.g. after a request's auth changed
+     */
+    private pruneSecuritySchemes(): void {
+        const schemes = this.document.components?.securitySchemes;
+        if (!schemes) return;
+
+        const used = new Set<string>();
+        const collect = (security?: OpenAPISecurityRequirement[]) => security?.forEach((requirement) => Object.keys(requirement).forEach((name) => used.add(name)));
+        collect(this.document.security);
+        Object.values(this.document.paths).forEach((pathItem) => {
+            METHODS.forEach((method) => collect((pathItem[method] as OpenAPIOperation | undefined)?.security));
+        });
+
+        Object.keys(schemes).forEach((name) => {
+            if (!used.has(name)) delete schemes[name];
+        });
+        if (Object.keys(schemes).length === 0) {
+            delete this.document.components!.securitySchemes;
+            if (Object.keys(this.document.components!).length === 0) delete this.document.components;
+        }
+    }
+
+    /**
+     * Give imported security schemes whose names we already use for something else a name of
+     * their own, and point the imported operations at it
+     */
+    private renameSecuritySchemes(imported: OpenAPIDocument): void {
+        const ours = this.document.components?.securitySchemes || {};
+        const theirs = imported.components?.securitySchemes;
+        if (!theirs) return;
+
+        const renamed: Record<string, string> = {};
+        Object.entries(theirs).forEach(([name, scheme]) => {
+            if (!ours[name] || JSON.stringify(ours[name]) === JSON.stringify(scheme)) return;
+            let unique = name;
+            for (let i = 2; ours[unique] || theirs[unique] || Object.values(renamed).includes(unique); i++) {
+                unique = `${name}${i}`;
+            }
+            renamed[name] = unique;
+        });
+        if (Object.keys(renamed).length === 0) return;
+
+        imported.components!.securitySchemes = Object.fromEntries(Object.entries(theirs).map(([name, scheme]) => [renamed[name] || name, scheme]));
+        const rename = (security?: OpenAPISecurityRequirement[]) => security?.map((requirement) =>
+            Object.fromEntries(Object.entries(requirement).map(([name, scopes]) => [renamed[name] || name, scopes])));
+        Object.values(imported.paths || {}).forEach((pathItem) => {
+            METHODS.forEach((method) => {
+                const operation = pathItem[method] as OpenAPIOperation | undefined;
+                if (operation?.security) operation.security = rename(operation.security);
+            });
+        });
+    }
+
     /**
      * Convert SavedRequest to OpenAPI operation
      */
@@ -306,24 +438,51 @@ export class OpenAPIStorage {
             'x-timestamp': updatedAt,
         };
 
-        // Request body
-        if (request.body) {
-            const contentType = request.headers?.['Content-Type'] ||
-                               request.headers?.['content-type'] ||
-                               'application/json';
+        // Collection and folder, e.g. Shop/Orders
+        if (request.collectionId) {
+            operation['x-collection'] = request.collectionId;
+        }
 
-            operation.requestBody = {
-                content: {
-                    [contentType]: {
-                        schema: { type: 'object' },
-                        example: request.bodyType === 'json'
-                            ? this.tryParseJSON(request.body)
-                            : request.body,
-                    },
-                },
-            };
+        // Execution options
+        if (request.options && Object.keys(request.options).length > 0) {
+            operation['x-options'] = request.options;
+        }
+
+        // GraphQL query as edited
+        if (request.bodyType === 'graphql' && request.graphql) {
+            operation['x-graphql'] = request.graphql;
+        }
+
+        // Pre-request and test scripts
+        if (request.scripts?.preRequest || request.scripts?.test) {
+            operation['x-scripts'] = request.scripts;
+        }
+
+        // Response assertions
+        if (request.assertions && request.assertions.length > 0) {
+            operation['x-assertions'] = request.assertions;
+        }
+
+        // Data file for data-driven runs
+        if (request.dataFile) {
+            operation['x-data-file'] = request.dataFile;
         }
 
+        // WebSocket session with its own ws:// server
+        if (request.method.toUpperCase() === 'WS') {
+            operation.responses = { '101': { description: 'Switching Protocols' } };
+            operation.servers = [{ url: `${url.protocol}//${url.host}` }];
+            operation['x-websocket'] = request.websocket || {};
+        }
+
+        // gRPC call with the .proto file that describes it
+        if (request.method.toUpperCase() === 'GRPC') {
+            operation['x-grpc'] = request.grpc || { protoFile: '' };
+        }
+
+        // Request body
+        operation.requestBody = OpenAPIConverter.toRequestBody(request);
+
         // Response
         if (request.response) {
             operation['x-response'] = {
@@ -333,6 +492,8 @@ export class OpenAPIStorage {
                 body: request.response.body,
                 time: request.response.time,
                 size: request.response.size,
+                timings: request.response.timings,
+                redirects: request.response.redirects,
                 timestamp: updatedAt,
             };
 
@@ -358,10 +519,14 @@ export class OpenAPIStorage {
         if (legacyRequests.length > 0) {
             console.log('[OpenAPIStorage] Migrating', legacyRequests.length, 'requests from legacy format');
 
-            const collection = OpenAPIConverter.toOpenAPI(legacyRequests, 'Migrated API Collection');
+            const secrets: Record<string, Record<string, string>> = {};
+            const collection = OpenAPIConverter.toOpenAPI(legacyRequests, 'Migrated API Collection', secrets);
             this.document = collection.document;
             this.metadata = collection.metadata;
 
+            for (const [operationId, credentials] of Object.entries(secrets)) {
+                await this.setSecrets(operationId, credentials);
+            }
             await this.save();
 
             console.log('[OpenAPIStorage] Migration complete!');
@@ -0,0 +1,424 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ProtoField {
+    name: string;
+    jsonName: string;
+    number: number;
+    type: string;           // Scalar name, or the fully qualified message/enum name once resolved
+    repeated: boolean;
+    map?: { keyType: string; valueType: string };
+    oneof?: string;
+}
+
+export interface ProtoMessage {
+    kind: 'message';
+    fullName: string;
+    fields: ProtoField[];
+}
+
+export interface ProtoEnum {
+    kind: 'enum';
+    fullName: string;
+    values: Record<string, number>;
+}
+
+export interface ProtoMethod {
+    name: string;
+    requestType: string;
+    responseType: string;
+    clientStreaming: boolean;
+    serverStreaming: boolean;
+}
+
+export interface ProtoService {
+    fullName: string;
+    file: string;
+    methods: ProtoMethod[];
+}
+
+export interface ProtoRegistry {
+    types: Record<string, ProtoMessage | ProtoEnum>;
+    services: ProtoService[];
+    warnings: string[];     // Unresolved imports and types; calls touching them fail
+}
+
+export const SCALAR_TYPES = [
+    'double', 'float', 'int32', 'int64', 'uint32', 'uint64', 'sint32', 'sint64',
+    'fixed32', 'fixed64', 'sfixed32', 'sfixed64', 'bool', 'string', 'bytes',
+];
+
+// Well-known types that servers commonly import, so they resolve without protoc's include dir
+const WELL_KNOWN_PROTOS: Record<string, string> = {
+    'google/protobuf/empty.proto': 'syntax = "proto3"; package google.protobuf; message Empty {}',
+    'google/protobuf/timestamp.proto': 'syntax = "proto3"; package google.protobuf; message Timestamp { int64 seconds = 1; int32 nanos = 2; }',
+    'google/protobuf/duration.proto': 'syntax = "proto3"; package google.protobuf; message Duration { int64 seconds = 1; int32 nanos = 2; }',
+    'google/protobuf/wrappers.proto': `syntax = "proto3"; package google.protobuf;
+        message DoubleValue { double value = 1; } message FloatValue { float value = 1; }
+        message Int64Value { int64 value = 1; } message UInt64Value { uint64 value = 1; }
+        message Int32Value { int32 value = 1; } message UInt32Value { uint32 value = 1; }
+        message BoolValue { bool value = 1; } message StringValue { string value = 1; }
+        message BytesValue { bytes value = 1; }`,
+    'google/protobuf/field_mask.proto': 'syntax = "proto3"; package google.protobuf; message FieldMask { repeated string paths = 1; }',
+};
+
+interface PendingField {
+    field: ProtoField;
+    scope: string;
+}
+
+/**
+ * ProtoParser - Reads .proto files (proto2 and proto3) into a type registry
+ * Best effort: options, extensions and groups are skipped rather than interpreted
+ */
+export class ProtoParser {
+    private tokens: string[] = [];
+    private pos = 0;
+    private pkg = '';
+    private file = '';
+    private registry: ProtoRegistry = { types: {}, services: [], warnings: [] };
+    private pending: PendingField[] = [];
+    private pendingMethods: { method: ProtoMethod; scope: string }[] = [];
+
+    /**
+     * Load a .proto file and everything it imports. Imports are looked up next to
+     * the importing file first, then in the include directories.
+     */
+    static async load(entryFile: string, includeDirs: string[] = []): Promise<ProtoRegistry> {
+        const parser = new ProtoParser();
+        const seen = new Set<string>();
+
+        const visit = async (file: string, source: string) => {
+            if (seen.has(file)) return;
+            seen.add(file);
+
+            for (const imported of parser.parseFile(source, file)) {
+                if (WELL_KNOWN_PROTOS[imported]) {
+                    await visit(imported, WELL_KNOWN_PROTOS[imported]);
+                    continue;
+                }
+                const candidates = [path.dirname(file), ...includeDirs].map(dir => path.resolve(dir, imported));
+                const found = candidates.find(candidate => fs.existsSync(candidate));
+                if (found) {
+                    await visit(found, await fs.promises.readFile(found, 'utf8'));
+                } else {
+                    parser.registry.warnings.push(`Import not found: ${imported} (from ${path.basename(file)})`);
+                }
+            }
+        };
+
+        const entry = path.resolve(entryFile);
+        await visit(entry, await fs.promises.readFile(entry, 'utf8'));
+        return parser.resolve();
+    }
+
+    /**
+     * Parse proto source without following imports
+     */
+    static parse(source: string, fileName = 'inline.proto'): ProtoRegistry {
+        const parser = new ProtoParser();
+        parser.parseFile(source, fileName);
+        return parser.resolve();
+    }
+
+    /**
+     * Parse one file into the shared registry, returns its imports
+     */
+    private parseFile(source: string, file: string): string[] {
+        this.tokens = this.tokenize(source);
+        this.pos = 0;
+        this.pkg = '';
+        this.file = file;
+        const imports: string[] = [];
+
+        while (this.pos < this.tokens.length) {
+            const token = this.next();
+            switch (token) {
+                case 'syntax':
+                case 'edition':
+                case 'option':
+                    this.skipStatement();
+                    break;
+                case 'package':
+                    this.pkg = this.next();
+                    this.expect(';');
+                    break;
+                case 'import': {
+                    let name = this.next();
+                    if (name === 'public' || name === 'weak') name = this.next();
+                    imports.push(this.unquote(name));
+                    this.expect(';');
+                    break;
+                }
+                case 'message':
+                    this.parseMessage(this.pkg);
+                    break;
+                case 'enum':
+                    this.parseEnum(this.pkg);
+                    break;
+                case 'service':
+                    this.parseService();
+                    break;
+                case 'extend':
+                    this.next();
+                    this.skipBlock();
+                    break;
+                case ';':
+                    break;
+                default:
+                    throw this.error(`Unexpected token "${token}"`);
+            }
+        }
+
+        return imports;
+    }
+
+    private parseMessage(scope: string): void {
+        const fullName = this.qualify(scope, this.next());
+        const message: ProtoMessage = { kind: 'message', fullName, fields: [] };
+        this.registry.types[fullName] = message;
+        this.expect('{');
+        this.parseMessageBody(message, undefined);
+    }
+
+    private parseMessageBody(message: ProtoMessage, oneof: string | undefined): void {
+        while (this.peek() !== '}') {
+            const token = this.next();
+            switch (token) {
+                case 'message':
+                    this.parseMessage(message.fullName);
+                    break;
+                case 'enum':
+                    this.parseEnum(message.fullName);
+                    break;
+                case 'oneof': {
+                    const name = this.next();
+                    this.expect('{');
+                    this.parseMessageBody(message, name);
+                    break;
+                }
+                case 'option':
+                case 'reserved':
+                case 'extensions':
+                    this.skipStatement();
+                    break;
+                case 'extend':
+                    this.next();
+                    this.skipBlock();
+                    break;
+                case ';':
+                    break;
+                default:
+                    this.parseField(message, token, oneof);
+            }
+        }
+        this.expect('}');
+    }
+
+    private parseField(message: ProtoMessage, first: string, oneof: string | undefined): void {
+        let label = first;
+        let type = first;
+        if (label === 'repeated' || label === 'optional' || label === 'required') {
+            type = this.next();
+        } else {
+            label = '';
+        }
+
+        if (type === 'group') {
+            throw this.error('proto2 groups are not supported');
+        }
+
+        let map: ProtoField['map'];
+        if (type === 'map') {
+            this.expect('<');
+            const keyType = this.next();
+            this.expect(',');
+            const valueType = this.next();
+            this.expect('>');
+            map = { keyType, valueType };
+        }
+
+        const name = this.next();
+        this.expect('=');
+        const number = parseInt(this.next(), 10);
+        let jsonName = this.toJsonName(name);
+
+        if (this.peek() === '[') {
+            // Field options; json_name is the only one that matters here
+            this.next();
+            let depth = 1;
+            while (depth > 0) {
+                const token = this.next();
+                if (token === '[') depth++;
+                else if (token === ']') depth--;
+                else if (token === 'json_name' && this.peek() === '=') {
+                    this.next();
+                    jsonName = this.unquote(this.next());
+                }
+            }
+        }
+        this.expect(';');
+
+        const field: ProtoField = { name, jsonName, number, type: map ? 'map' : type, repeated: label === 'repeated' || !!map, map, oneof };
+        message.fields.push(field);
+        this.pending.push({ field, scope: message.fullName });
+    }
+
+    private parseEnum(scope: string): void {
+        const fullName = this.qualify(scope, this.next());
+        const values: Record<string, number> = {};
+        this.expect('{');
+        while (this.peek() !== '}') {
+            const token = this.next();
+            if (token === 'option' || token === 'reserved') {
+                this.skipStatement();
+                continue;
+            }
+            if (token === ';') continue;
+
+            this.expect('=');
+            let value = this.next();
+            if (value === '-') value = '-' + this.next();
+            values[token] = Number(value);
+            if (this.peek() === '[') this.skipUntil(']');
+            this.expect(';');
+        }
+        this.expect('}');
+        this.registry.types[fullName] = { kind: 'enum', fullName, values };
+    }
+
+    private parseService(): void {
+        const fullName = this.qualify(this.pkg, this.next());
+        const service: ProtoService = { fullName, file: this.file, methods: [] };
+        this.expect('{');
+        while (this.peek() !== '}') {
+            const token = this.next();
+            if (token === 'option') {
+                this.skipStatement();
+                continue;
+            }
+            if (token === ';') continue;
+            if (token !== 'rpc') throw this.error(`Unexpected token "${token}" in service ${fullName}`);
+
+            const name = this.next();
+            this.expect('(');
+            const clientStreaming = this.peek() === 'stream' && this.tokens[this.pos + 1] !== ')';
+            if (clientStreaming) this.next();
+            const requestType = this.next();
+            this.expect(')');
+            this.expect('returns');
+            this.expect('(');
+            const serverStreaming = this.peek() === 'stream' && this.tokens[this.pos + 1] !== ')';
+            if (serverStreaming) this.next();
+            const responseType = this.next();
+            this.expect(')');
+
+            if (this.peek() === '{') {
+                this.skipBlock();
+            } else {
+                this.expect(';');
+            }
+
+            const method: ProtoMethod = { name, requestType, responseType, clientStreaming, serverStreaming };
+            service.methods.push(method);
+            this.pendingMethods.push({ method, scope: this.pkg });
+        }
+        this.expect('}');
+        this.registry.services.push(service);
+    }
+
+    /**
+     * Resolve type references once every file is parsed, innermost scope first
+     */
+    private resolve(): ProtoRegistry {
+        for (const { field, scope } of this.pending) {
+            if (field.map) {
+                field.map.valueType = this.resolveType(field.map.valueType, scope);
+            } else {
+                field.type = this.resolveType(field.type, scope);
+            }
+        }
+        for (const { method, scope } of this.pendingMethods) {
+            method.requestType = this.resolveType(method.requestType, scope);
+            method.responseType = this.resolveType(method.responseType, scope);
+        }
+        return this.registry;
+    }
+
+    private resolveType(name: string, scope: string): string {
+        if (SCALAR_TYPES.includes(name)) return name;
+        if (name.startsWith('.')) return name.slice(1);
+
+        const parts = scope ? scope.split('.') : [];
+        for (let i = parts.length; i >= 0; i--) {
+            const candidate = [...parts.slice(0, i), name].join('.');
+            if (this.registry.types[candidate]) return candidate;
+        }
+
+        this.registry.warnings.push(`Unknown type: ${name} (in ${scope || 'root'})`);
+        return name;
+    }
+
+    private tokenize(source: string): string[] {
+        const tokens: string[] = [];
+        const pattern = /\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|([A-Za-z_.][\w.]*|-?\d[\w.+-]*)|(\S)/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(source)) !== null) {
+            const token = match[1] ?? match[2] ?? match[3];
+            if (token !== undefined) tokens.push(token);
+        }
+        return tokens;
+    }
+
+    private next(): string {
+        if (this.pos >= this.tokens.length) throw this.error('Unexpected end of file');
+        return this.tokens[this.pos++];
+    }
+
+    private peek(): string | undefined {
+        return this.tokens[this.pos];
+    }
+
+    private expect(token: string): void {
+        const actual = this.next();
+        if (actual !== token) throw this.error(`Expected "${token}" but found "${actual}"`);
+    }
+
+    private skipStatement(): void {
+        while (this.peek() !== ';') {
+            if (this.peek() === '{') this.skipBlock();
+            else this.next();
+        }
+        this.next();
+    }
+
+    private skipBlock(): void {
+        this.expect('{');
+        let depth = 1;
+        while (depth > 0) {
+            const token = this.next();
+            if (token === '{') depth++;
+            else if (token === '}') depth--;
+        }
+    }
+
+    private skipUntil(token: string): void {
+        while (this.next() !== token) { /* skip */ }
+    }
+
+    private qualify(scope: string, name: string): string {
+        return scope ? `${scope}.${name}` : name;
+    }
+
+    private unquote(token: string): string {
+        return token.replace(/^["']|["']$/g, '');
+    }
+
+    private toJsonName(name: string): string {
+        return name.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+    }
+
+    private error(message: string): Error {
+        return new Error(`${path.basename(this.file)}: ${message}`);
+    }
+}
@@ -0,0 +1,443 @@
+import { ProtoRegistry, ProtoMessage, ProtoEnum, ProtoField } from './ProtoParser';
+
+// Wire types (protobuf encoding spec)
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH = 2;
+const WIRE_FIXED32 = 5;
+
+const INT64_TYPES = ['int64', 'uint64', 'sint64', 'fixed64', 'sfixed64'];
+const PACKABLE_TYPES = ['double', 'float', 'int32', 'int64', 'uint32', 'uint64', 'sint32', 'sint64', 'fixed32', 'fixed64', 'sfixed32', 'sfixed64', 'bool'];
+const WRAPPER_TYPES = ['DoubleValue', 'FloatValue', 'Int64Value', 'UInt64Value', 'Int32Value', 'UInt32Value', 'BoolValue', 'StringValue', 'BytesValue'].map(name => `google.protobuf.${name}`);
+
+/**
+ * ProtobufCodec - Encodes JSON into protobuf messages and decodes them back,
+ * following the proto3 JSON mapping (64-bit integers as strings, bytes as base64,
+ * enums by name, and the common well-known types in their string forms)
+ */
+export class ProtobufCodec {
+    constructor(private readonly registry: ProtoRegistry) {}
+
+    encode(typeName: string, value: unknown): Buffer {
+        return this.encodeMessage(this.message(typeName), value ?? {}, '');
+    }
+
+    decode(typeName: string, data: Buffer): Record<string, unknown> {
+        return this.decodeMessage(this.message(typeName), data) as Record<string, unknown>;
+    }
+
+    /**
+     * A JSON skeleton of a message with every field set to its default, as a starting point for editing
+     */
+    template(typeName: string, seen: string[] = []): unknown {
+        const type = this.message(typeName);
+        const known = this.wellKnownTemplate(type.fullName);
+        if (known !== undefined) return known;
+        if (seen.includes(typeName)) return {};
+
+        const result: Record<string, unknown> = {};
+        for (const field of type.fields) {
+            if (field.map) {
+                result[field.jsonName] = {};
+                continue;
+            }
+            const sample = this.fieldTemplate(field.type, [...seen, typeName]);
+            result[field.jsonName] = field.repeated ? [sample] : sample;
+        }
+        return result;
+    }
+
+    private fieldTemplate(type: string, seen: string[]): unknown {
+        if (INT64_TYPES.includes(type)) return '0';
+        switch (type) {
+            case 'string': case 'bytes': return '';
+            case 'bool': return false;
+            case 'double': case 'float': case 'int32': case 'uint32': case 'sint32': case 'fixed32': case 'sfixed32': return 0;
+        }
+        const resolved = this.lookup(type);
+        return resolved.kind === 'enum' ? Object.keys(resolved.values)[0] ?? 0 : this.template(type, seen);
+    }
+
+    // ========================================
+    // Encoding
+    // ========================================
+
+    private encodeMessage(type: ProtoMessage, value: unknown, path: string): Buffer {
+        value = this.fromWellKnown(type.fullName, value, path);
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            throw new Error(`${path || type.fullName}: expected an object`);
+        }
+
+        const parts: Buffer[] = [];
+        for (const [key, fieldValue] of Object.entries(value as Record<string, unknown>)) {
+            const field = type.fields.find(f => f.jsonName === key || f.name === key);
+            if (!field) throw new Error(`${path || type.fullName}: unknown field "${key}"`);
+            if (fieldValue === null || fieldValue === undefined) continue;
+
+            const fieldPath = path ? `${path}.${key}` : key;
+            if (field.map) {
+                parts.push(this.encodeMap(field, fieldValue, fieldPath));
+            } else if (field.repeated) {
+                if (!Array.isArray(fieldValue)) throw new Error(`${fieldPath}: expected an array`);
+                if (PACKABLE_TYPES.includes(field.type) && fieldValue.length > 0) {
+                    const packed = Buffer.concat(fieldValue.map((item, i) => this.encodeScalar(field.type, item, `${fieldPath}[${i}]`)));
+                    parts.push(this.tag(field.number, WIRE_LENGTH), this.varint(BigInt(packed.length)), packed);
+                } else {
+                    fieldValue.forEach((item, i) => parts.push(this.encodeField(field.number, field.type, item, `${fieldPath}[${i}]`)));
+                }
+            } else {
+                parts.push(this.encodeField(field.number, field.type, fieldValue, fieldPath));
+            }
+        }
+        return Buffer.concat(parts);
+    }
+
+    private encodeMap(field: ProtoField, value: unknown, path: string): Buffer {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            throw new Error(`${path}: expected an object`);
+        }
+        const { keyType, valueType } = field.map!;
+        const parts: Buffer[] = [];
+        for (const [key, entryValue] of Object.entries(value as Record<string, unknown>)) {
+            const mapKey = keyType === 'bool' ? key === 'true' : key;
+            const entry = Buffer.concat([
+                this.encodeField(1, keyType, mapKey, `${path}.${key}`),
+                this.encodeField(2, valueType, entryValue, `${path}.${key}`),
+            ]);
+            parts.push(this.tag(field.number, WIRE_LENGTH), this.varint(BigInt(entry.length)), entry);
+        }
+        return Buffer.concat(parts);
+    }
+
+    private encodeField(number: number, type: string, value: unknown, path: string): Buffer {
+        switch (type) {
+            case 'string': {
+                const bytes = Buffer.from(this.expectString(value, path), 'utf8');
+                return Buffer.concat([this.tag(number, WIRE_LENGTH), this.varint(BigInt(bytes.length)), bytes]);
+            }
+            case 'bytes': {
+                const bytes = Buffer.from(this.expectString(value, path), 'base64');
+                return Buffer.concat([this.tag(number, WIRE_LENGTH), this.varint(BigInt(bytes.length)), bytes]);
+            }
+        }
+
+        if (PACKABLE_TYPES.includes(type)) {
+            return Buffer.concat([this.tag(number, this.wireType(type)), this.encodeScalar(type, value, path)]);
+        }
+
+        const resolved = this.lookup(type);
+        if (resolved.kind === 'enum') {
+            return Buffer.concat([this.tag(number, WIRE_VARINT), this.varint(BigInt.asUintN(64, BigInt(this.enumNumber(resolved, value, path))))]);
+        }
+        const nested = this.encodeMessage(resolved, value, path);
+        return Buffer.concat([this.tag(number, WIRE_LENGTH), this.varint(BigInt(nested.length)), nested]);
+    }
+
+    /**
+     * Encode a numeric or bool value without its tag, so it can also be packed
+     */
+    private encodeScalar(type: string, value: unknown, path: string): Buffer {
+        switch (type) {
+            case 'bool':
+                if (typeof value !== 'boolean') throw new Error(`${path}: expected true or false`);
+                return this.varint(value ? 1n : 0n);
+            case 'double': {
+                const buffer = Buffer.alloc(8);
+                buffer.writeDoubleLE(this.expectFloat(value, path));
+                return buffer;
+            }
+            case 'float': {
+                const buffer = Buffer.alloc(4);
+                buffer.writeFloatLE(this.expectFloat(value, path));
+                return buffer;
+            }
+            case 'fixed32': case 'sfixed32': {
+                const buffer = Buffer.alloc(4);
+                const n = Number(this.expectInteger(value, path));
+                if (type === 'fixed32') buffer.writeUInt32LE(n >>> 0); else buffer.writeInt32LE(n | 0);
+                return buffer;
+            }
+            case 'fixed64': case 'sfixed64': {
+                const buffer = Buffer.alloc(8);
+                const n = this.expectInteger(value, path);
+                if (type === 'fixed64') buffer.writeBigUInt64LE(BigInt.asUintN(64, n)); else buffer.writeBigInt64LE(BigInt.asIntN(64, n));
+                return buffer;
+            }
+            case 'sint32': case 'sint64': {
+                const n = this.expectInteger(value, path);
+                return this.varint(n >= 0n ? n * 2n : -n * 2n - 1n);
+            }
+            default:
+                // int32, int64, uint32, uint64; negatives take all ten bytes
+                return this.varint(BigInt.asUintN(64, this.expectInteger(value, path)));
+        }
+    }
+
+    private enumNumber(type: ProtoEnum, value: unknown, path: string): number {
+        if (typeof value === 'number' && Number.isInteger(value)) return value;
+        if (typeof value === 'string' && value in type.values) return type.values[value];
+        throw new Error(`${path}: expected one of ${Object.keys(type.values).join(', ')}`);
+    }
+
+    private expectString(value: unknown, path: string): string {
+        if (typeof value !== 'string') throw new Error(`${path}: expected a string`);
+        return value;
+    }
+
+    private expectFloat(value: unknown, path: string): number {
+        if (typeof value === 'number') return value;
+        if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+        if (value === 'NaN') return NaN;
+        if (value === 'Infinity') return Infinity;
+        if (value === '-Infinity') return -Infinity;
+        throw new Error(`${path}: expected a number`);
+    }
+
+    private expectInteger(value: unknown, path: string): bigint {
+        if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+        if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) return BigInt(value.trim());
+        throw new Error(`${path}: expected an integer`);
+    }
+
+    private tag(number: number, wireType: number): Buffer {
+        return this.varint(BigInt(number) * 8n + BigInt(wireType));
+    }
+
+    private varint(value: bigint): Buffer {
+        const bytes: number[] = [];
+        do {
+            let byte = Number(value & 0x7fn);
+            value >>= 7n;
+            if (value > 0n) byte |= 0x80;
+            bytes.push(byte);
+        } while (value > 0n);
+        return Buffer.from(bytes);
+    }
+
+    private wireType(type: string): number {
+        switch (type) {
+            case 'double': case 'fixed64': case 'sfixed64': return WIRE_FIXED64;
+            case 'float': case 'fixed32': case 'sfixed32': return WIRE_FIXED32;
+            default: return WIRE_VARINT;
+        }
+    }
+
+    // ========================================
+    // Decoding
+    // ========================================
+
+    private decodeMessage(type: ProtoMessage, data: Buffer): unknown {
+        const result: Record<string, unknown> = {};
+        const reader = { data, pos: 0 };
+
+        while (reader.pos < data.length) {
+            const key = this.readVarint(reader);
+            const number = Number(key >> 3n);
+            const wireType = Number(key & 7n);
+            const field = type.fields.find(f => f.number === number);
+
+            if (!field) {
+                this.skipField(reader, wireType);
+                continue;
+            }
+
+            if (field.map) {
+                const entry = this.readLength(reader);
+                const [mapKey, mapValue] = this.decodeMapEntry(field, entry);
+                const map = (result[field.jsonName] ??= {}) as Record<string, unknown>;
+                map[String(mapKey)] = mapValue;
+            } else if (field.repeated) {
+                const list = (result[field.jsonName] ??= []) as unknown[];
+                if (wireType === WIRE_LENGTH && PACKABLE_TYPES.includes(field.type)) {
+                    const packed = { data: this.readLength(reader), pos: 0 };
+                    while (packed.pos < packed.data.length) {
+                        list.push(this.readValue(packed, field.type, this.wireType(field.type)));
+                    }
+                } else {
+                    list.push(this.readValue(reader, field.type, wireType));
+                }
+            } else {
+                result[field.jsonName] = this.readValue(reader, field.type, wireType);
+            }
+        }
+
+        return this.toWellKnown(type.fullName, result);
+    }
+
+    private decodeMapEntry(field: ProtoField, data: Buffer): [unknown, unknown] {
+        const { keyType, valueType } = field.map!;
+        const reader = { data, pos: 0 };
+        let key: unknown = this.defaultValue(keyType);
+        let value: unknown = this.defaultValue(valueType);
+
+        while (reader.pos < data.length) {
+            const tag = this.readVarint(reader);
+            const number = Number(tag >> 3n);
+            const wireType = Number(tag & 7n);
+            if (number === 1) key = this.readValue(reader, keyType, wireType);
+            else if (number === 2) value = this.readValue(reader, valueType, wireType);
+            else this.skipField(reader, wireType);
+        }
+        return [key, value];
+    }
+
+    private readValue(reader: { data: Buffer; pos: number }, type: string, wireType: number): unknown {
+        switch (type) {
+            case 'string': return this.readLength(reader).toString('utf8');
+            case 'bytes': return this.readLength(reader).toString('base64');
+            case 'double': return this.readFixed(reader, 8).readDoubleLE();
+            case 'float': return this.readFixed(reader, 4).readFloatLE();
+            case 'fixed32': return this.readFixed(reader, 4).readUInt32LE();
+            case 'sfixed32': return this.readFixed(reader, 4).readInt32LE();
+            case 'fixed64': return this.readFixed(reader, 8).readBigUInt64LE().toString();
+            case 'sfixed64': return this.readFixed(reader, 8).readBigInt64LE().toString();
+            case 'bool': return this.readVarint(reader) !== 0n;
+            case 'int32': return Number(BigInt.asIntN(32, this.readVarint(reader)));
+            case 'uint32': return Number(BigInt.asUintN(32, this.readVarint(reader)));
+            case 'int64': return BigInt.asIntN(64, this.readVarint(reader)).toString();
+            case 'uint64': return BigInt.asUintN(64, this.readVarint(reader)).toString();
+            case 'sint32': case 'sint64': {
+                const n = this.readVarint(reader);
+                const decoded = n & 1n ? -(n >> 1n) - 1n : n >> 1n;
+                return type === 'sint32' ? Number(decoded) : decoded.toString();
+            }
+        }
+
+        const resolved = this.lookup(type);
+        if (resolved.kind === 'enum') {
+            const n = Number(BigInt.asIntN(32, this.readVarint(reader)));
+            return Object.keys(resolved.values).find(name => resolved.values[name] === n) ?? n;
+        }
+        if (wireType !== WIRE_LENGTH) throw new Error(`Unexpected wire type ${wireType} for message ${type}`);
+        return this.decodeMessage(resolved, this.readLength(reader));
+    }
+
+    private defaultValue(type: string): unknown {
+        if (INT64_TYPES.includes(type)) return '0';
+        if (type === 'string' || type === 'bytes') return '';
+        if (type === 'bool') return false;
+        if (PACKABLE_TYPES.includes(type)) return 0;
+        const resolved = this.lookup(type);
+        return resolved.kind === 'enum' ? Object.keys(resolved.values)[0] ?? 0 : this.toWellKnown(type, {});
+    }
+
+    private readVarint(reader: { data: Buffer; pos: number }): bigint {
+        let result = 0n;
+        let shift = 0n;
+        while (true) {
+            if (reader.pos >= reader.data.length) throw new Error('Truncated protobuf message');
+            const byte = reader.data[reader.pos++];
+            result |= BigInt(byte & 0x7f) << shift;
+            if ((byte & 0x80) === 0) return result;
+            shift += 7n;
+        }
+    }
+
+    private readFixed(reader: { data: Buffer; pos: number }, length: number): Buffer {
+        if (reader.pos + length > reader.data.length) throw new Error('Truncated protobuf message');
+        const bytes = reader.data.subarray(reader.pos, reader.pos + length);
+        reader.pos += length;
+        return bytes;
+    }
+
+    private readLength(reader: { data: Buffer; pos: number }): Buffer {
+        return this.readFixed(reader, Number(this.readVarint(reader)));
+    }
+
+    private skipField(reader: { data: Buffer; pos: number }, wireType: number): void {
+        switch (wireType) {
+            case WIRE_VARINT: this.readVarint(reader); break;
+            case WIRE_FIXED64: this.readFixed(reader, 8); break;
+            case WIRE_LENGTH: this.readLength(reader); break;
+            case WIRE_FIXED32: this.readFixed(reader, 4); break;
+            default: throw new Error(`Unsupported wire type ${wireType}`);
+        }
+    }
+
+    // ========================================
+    // Well-known types
+    // ========================================
+
+    private fromWellKnown(typeName: string, value: unknown, path: string): unknown {
+        if (WRAPPER_TYPES.includes(typeName)) {
+            return { value };
+        }
+        switch (typeName) {
+            case 'google.protobuf.Timestamp': {
+                if (typeof value !== 'string') break;
+                const match = /^(.*?)(?:\.(\d{1,9}))?(Z|[+-]\d\d:\d\d)$/i.exec(value.trim());
+                const ms = match ? Date.parse(match[1] + match[3]) : NaN;
+                if (!match || isNaN(ms)) throw new Error(`${path}: expected an RFC 3339 timestamp`);
+                return { seconds: String(Math.floor(ms / 1000)), nanos: Number((match[2] || '').padEnd(9, '0')) };
+            }
+            case 'google.protobuf.Duration': {
+                if (typeof value !== 'string') break;
+                const match = /^(-?)(\d+)(?:\.(\d{1,9}))?s$/.exec(value.trim());
+                if (!match) throw new Error(`${path}: expected a duration such as "1.5s"`);
+                const sign = match[1] ? -1 : 1;
+                return { seconds: `${match[1]}${match[2]}`, nanos: sign * Number((match[3] || '').padEnd(9, '0')) };
+            }
+            case 'google.protobuf.FieldMask':
+                if (typeof value === 'string') return { paths: value ? value.split(',') : [] };
+                break;
+        }
+        return value;
+    }
+
+    private toWellKnown(typeName: string, value: Record<string, unknown>): unknown {
+        if (WRAPPER_TYPES.includes(typeName)) {
+            return value.value ?? this.defaultValue(this.message(typeName).fields[0].type);
+        }
+        switch (typeName) {
+            case 'google.protobuf.Timestamp': {
+                const seconds = Number(value.seconds ?? 0);
+                const nanos = Number(value.nanos ?? 0);
+                const iso = new Date(seconds * 1000).toISOString().replace('.000Z', '');
+                return `${iso}${this.formatNanos(nanos)}Z`;
+            }
+            case 'google.protobuf.Duration': {
+                const seconds = BigInt(String(value.seconds ?? 0));
+                const nanos = Number(value.nanos ?? 0);
+                const negative = seconds < 0n || nanos < 0;
+                const abs = seconds < 0n ? -seconds : seconds;
+                return `${negative ? '-' : ''}${abs}${this.formatNanos(Math.abs(nanos))}s`;
+            }
+            case 'google.protobuf.FieldMask':
+                return ((value.paths as string[]) || []).join(',');
+        }
+        return value;
+    }
+
+    private wellKnownTemplate(typeName: string): unknown {
+        if (WRAPPER_TYPES.includes(typeName)) return this.defaultValue(this.message(typeName).fields[0].type);
+        switch (typeName) {
+            case 'google.protobuf.Timestamp': return '1970-01-01T00:00:00Z';
+            case 'google.protobuf.Duration': return '0s';
+            case 'google.protobuf.FieldMask': return '';
+        }
+        return undefined;
+    }
+
+    /**
+     * Fractional seconds in groups of 3, 6 or 9 digits as the JSON mapping prescribes
+     */
+    private formatNanos(nanos: number): string {
+        if (nanos === 0) return '';
+        const digits = String(nanos).padStart(9, '0');
+        if (nanos % 1000000 === 0) return '.' + digits.slice(0, 3);
+        if (nanos % 1000 === 0) return '.' + digits.slice(0, 6);
+        return '.' + digits;
+    }
+
+    private lookup(typeName: string): ProtoMessage | ProtoEnum {
+        const type = this.registry.types[typeName];
+        if (!type) throw new Error(`Unknown type: ${typeName}`);
+        return type;
+    }
+
+    private message(typeName: string): ProtoMessage {
+        const type = this.lookup(typeName);
+        if (type.kind !== 'message') throw new Error(`${typeName} is an enum, not a message`);
+        return type;
+    }
+}
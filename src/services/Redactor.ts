@@ -0,0 +1,104 @@
+import { AuthResolver, RequestAuth } from './AuthResolver';
+
+// Headers and query parameters that carry credentials whatever the request's auth settings
+const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'x-api-key', 'api-key', 'x-auth-token', 'x-amz-security-token'];
+const SENSITIVE_PARAMS = ['access_token', 'api_key', 'apikey', 'api-key', 'key', 'token', 'client_secret', 'password', 'signature', 'sig',
+    'x-amz-signature', 'x-amz-credential', 'x-amz-security-token'];
+// Auth fields whose values are secret, as opposed to ones that only say who is signing in
+const SECRET_FIELDS: (keyof RequestAuth)[] = ['token', 'password', 'value', 'clientSecret', 'secretKey', 'sessionToken', 'secret'];
+
+/**
+ * Redactor - Masks credentials in a request before it is kept in history or written to a report:
+ * auth headers, auth query parameters, literal credentials in its auth settings and the values
+ * of secret variables wherever they appear
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class Redactor {
+    static readonly MASK = '[redacted]';
+
+    private readonly headerNames = new Set(SENSITIVE_HEADERS);
+    private readonly paramNames = new Set(SENSITIVE_PARAMS);
+    private readonly cookieName?: string;
+    private readonly values: string[];
+
+    constructor(private readonly auth: RequestAuth | undefined, interpolate: (text: string) => string = (text) => text, secretValues: string[] = []) {
+        if (auth?.type === 'apikey' && auth.key) {
+            const key = interpolate(auth.key);
+            if (auth.addTo === 'query') this.paramNames.add(key.toLowerCase());
+            else if (auth.addTo === 'cookie') this.cookieName = key;
+            else this.headerNames.add(key.toLowerCase());
+        }
+        if (auth?.headerName) this.headerNames.add(interpolate(auth.headerName).toLowerCase());
+
+        const values = [...secretValues, ...SECRET_FIELDS.map(field => auth?.[field]).filter((v): v is string => !!v).map(interpolate)];
+        // Longest first, so a secret that contains another is masked whole
+        this.values = [...new Set(values.filter(v => v !== ''))].sort((a, b) => b.length - a.length);
+    }
+
+    /**
+     * Text with every secret value masked, as written or percent-encoded
+     */
+    text(text: string): string {
+        let result = text;
+        for (const value of this.values) {
+            result = result.split(value).join(Redactor.MASK);
+            const encoded = encodeURIComponent(value);
+            if (encoded !== value) result = result.split(encoded).join(Redactor.MASK);
+        }
+        return result;
+    }
+
+    /**
+     * The URL with credential query parameters masked; the rest is kept as written
+     */
+    url(url: string): string {
+        const hash = url.indexOf('#');
+        const base = hash >= 0 ? url.slice(0, hash) : url;
+        const query = base.indexOf('?');
+        if (query < 0) return this.text(url);
+
+        const params = base.slice(query + 1).split('&').map(param => {
+            const index = param.indexOf('=');
+            if (index < 0) return param;
+            const name = param.slice(0, index);
+            return this.paramNames.has(this.decode(name).toLowerCase()) ? `${name}=${Redactor.MASK}` : param;
+        });
+        return this.text(`${base.slice(0, query + 1)}${params.join('&')}${hash >= 0 ? url.slice(hash) : ''}`);
+    }
+
+    headers(headers: Record<string, string>): Record<string, string> {
+        const result: Record<string, string> = {};
+        for (const [name, value] of Object.entries(headers)) {
+            const lower = name.toLowerCase();
+            if (this.headerNames.has(lower)) {
+                result[name] = Redactor.MASK;
+            } else if (lower === 'cookie' && this.cookieName) {
+                result[name] = this.text(value.split(';').map(pair => pair.trim().startsWith(`${this.cookieName}=`) ? `${this.cookieName}=${Redactor.MASK}` : pair.trim()).join('; '));
+            } else {
+                result[name] = this.text(value);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * The auth settings with credentials that are written out masked; {{variable}} references are kept
+     */
+    authSettings(): RequestAuth | undefined {
+        if (!this.auth) return undefined;
+        const result: RequestAuth = { ...this.auth };
+        for (const field of AuthResolver.CREDENTIAL_FIELDS) {
+            const value = result[field];
+            if (value && !AuthResolver.isReference(value)) result[field] = Redactor.MASK;
+        }
+        return result;
+    }
+
+    private decode(text: string): string {
+        try {
+            return decodeURIComponent(text.replace(/\+/g, ' '));
+        } catch {
+            return text;
+        }
+    }
+}
@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SavedRequest, FormField } from './RequestHistory';
+
+export interface BuiltBody {
+    body?: string | Buffer;
+    contentType?: string;   // Set when the body type dictates the Content-Type
+}
+
+const MIME_TYPES: Record<string, string> = {
+    '.json': 'application/json',
+    '.xml': 'application/xml',
+    '.txt': 'text/plain',
+    '.csv': 'text/csv',
+    '.html': 'text/html',
+    '.pdf': 'application/pdf',
+    '.zip': 'application/zip',
+    '.gz': 'application/gzip',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.mp4': 'video/mp4',
+    '.mp3': 'audio/mpeg',
+};
+
+/**
+ * RequestBodyBuilder - Serializes a request body for the wire
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class RequestBodyBuilder {
+    /**
+     * Build the body. Relative file paths are resolved against baseDir.
+     */
+    static async build(
+        request: Pick<SavedRequest, 'body' | 'bodyType' | 'formData' | 'bodyFile' | 'graphql'>,
+        baseDir: string | undefined,
+        interpolate: (text: string) => string
+    ): Promise<BuiltBody> {
+        switch (request.bodyType) {
+            case 'none':
+                return {};
+
+            case 'multipart':
+                return this.buildMultipart(request.formData || [], baseDir, interpolate);
+
+            case 'form':
+                // Older requests stored the form as a raw key=value string
+                if (!request.formData) {
+                    return request.body
+                        ? { body: interpolate(request.body), contentType: 'application/x-www-form-urlencoded' }
+                        : {};
+                }
+                return this.buildUrlEncoded(request.formData, interpolate);
+
+            case 'graphql':
+                return request.graphql ? this.buildGraphQL(request.graphql, interpolate) : {};
+
+            case 'binary': {
+                if (!request.bodyFile) return {};
+                const filePath = this.resolvePath(interpolate(request.bodyFile), baseDir);
+                return {
+                    body: await fs.promises.readFile(filePath),
+                    contentType: this.guessMimeType(filePath),
+                };
+            }
+
+            default:
+                return request.body ? { body: interpolate(request.body) } : {};
+        }
+    }
+
+    static guessMimeType(filePath: string): string {
+        return MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+    }
+
+    private static async buildMultipart(
+        fields: FormField[],
+        baseDir: string | undefined,
+        interpolate: (text: string) => string
+    ): Promise<BuiltBody> {
+        const boundary = `----ApiTesterBoundary${Math.random().toString(36).substr(2, 12)}${Date.now().toString(36)}`;
+        const parts: Buffer[] = [];
+
+        for (const field of fields) {
+            if (!field.key) continue;
+
+            const name = this.escapeQuoted(interpolate(field.key));
+            if (field.type === 'file') {
+                if (!field.value) continue;
+                const filePath = this.resolvePath(interpolate(field.value), baseDir);
+                const content = await fs.promises.readFile(filePath);
+                parts.push(Buffer.from(
+                    `--${boundary}\r\n` +
+                    `Content-Disposition: form-data; name="${name}"; filename="${this.escapeQuoted(path.basename(filePath))}"\r\n` +
+                    `Content-Type: ${this.guessMimeType(filePath)}\r\n\r\n`
+                ));
+                parts.push(content);
+                parts.push(Buffer.from('\r\n'));
+            } else {
+                parts.push(Buffer.from(
+                    `--${boundary}\r\n` +
+                    `Content-Disposition: form-data; name="${name}"\r\n\r\n` +
+                    `${interpolate(field.value)}\r\n`
+                ));
+            }
+        }
+
+        parts.push(Buffer.from(`--${boundary}--\r\n`));
+
+        return {
+            body: Buffer.concat(parts),
+            contentType: `multipart/form-data; boundary=${boundary}`,
+        };
+    }
+
+    private static buildGraphQL(graphql: NonNullable<SavedRequest['graphql']>, interpolate: (text: string) => string): BuiltBody {
+        const variablesText = interpolate(graphql.variables || '').trim();
+        let variables: unknown;
+        if (variablesText) {
+            try {
+                variables = JSON.parse(variablesText);
+            } catch (error) {
+                throw new Error(`GraphQL variables are not valid JSON: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+
+        return {
+            body: JSON.stringify({
+                query: interpolate(graphql.query),
+                variables,
+                operationName: graphql.operationName || undefined,
+            }),
+            contentType: 'application/json',
+        };
+    }
+
+    private static buildUrlEncoded(fields: FormField[], interpolate: (text: string) => string): BuiltBody {
+        const params = new URLSearchParams();
+        for (const field of fields) {
+            if (field.key) {
+                params.append(interpolate(field.key), interpolate(field.value));
+            }
+        }
+
+        return {
+            body: params.toString(),
+            contentType: 'application/x-www-form-urlencoded',
+        };
+    }
+
+    private static resolvePath(filePath: string, baseDir: string | undefined): string {
+        if (path.isAbsolute(filePath) || !baseDir) return filePath;
+        return path.join(baseDir, filePath);
+    }
+
+    // Percent-encode quotes and line breaks in Content-Disposition values (WHATWG multipart rules)
+    private static escapeQuoted(value: string): string {
+        return value.replace(/\r/g, '%0D').replace(/\n/g, '%0A').replace(/"/g, '%22');
+    }
+}
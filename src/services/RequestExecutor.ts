@@ -0,0 +1,466 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as zlib from 'zlib';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { performance } from 'perf_hooks';
+import { OpenAPIResponseTimings, OpenAPIRedirectHop } from '../types/openapi';
+
+export interface ExecuteRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string | Buffer;
+}
+
+export interface ExecuteOptions {
+    timeout?: number;         // Whole request, from start until the body is read (0 = none)
+    connectTimeout?: number;  // Until the socket (and TLS) is connected (0 = none)
+    followRedirects?: boolean;
+    maxRedirects?: number;
+    cookies?: CookieStore;
+    maxBodyInMemory?: number; // Bodies above this many bytes are streamed to a temp file (0 = never)
+    stream?: StreamHandler;
+}
+
+// Receives the body incrementally when accept() returns true for the final response.
+// Accepted streams are no longer bound by the total timeout.
+export interface StreamHandler {
+    accept(response: { status: number; statusText: string; headers: Record<string, string> }): boolean;
+    onChunk(chunk: Buffer): void;
+}
+
+// Cookie storage consulted before and updated after every hop
+export interface CookieStore {
+    getCookieHeader(url: string): string | undefined;
+    setCookies(url: string, setCookie: string[]): void;
+}
+
+export interface ExecuteResult {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    url: string;
+    body: Buffer;         // Whole body, or only the first maxBodyInMemory bytes when truncated
+    bodySize: number;     // Decoded body size in bytes
+    wireSize: number;     // Body bytes as received, before Content-Encoding is removed
+    bodyFile?: string;    // Temp file holding the full body when truncated; the caller owns it
+    truncated: boolean;
+    stopped: boolean;     // A streamed body was stopped by the caller before it ended
+    time: number;
+    timings: OpenAPIResponseTimings;
+    redirects: OpenAPIRedirectHop[];
+}
+
+// High-resolution timestamps recorded while a single hop is in flight
+interface PhaseMarks {
+    start: number;
+    lookup?: number;
+    connect?: number;
+    secureConnect?: number;
+    response?: number;
+    end?: number;
+}
+
+const DEFAULT_MAX_REDIRECTS = 20;
+const STREAM_STOPPED = new Error('Stream stopped');
+
+/**
+ * RequestExecutor - HTTP execution engine shared by the panel and runners
+ * Has no dependency on the vscode module; callers pass in resolved settings
+ */
+export class RequestExecutor {
+    private inFlight = new Map<string, AbortController>();
+
+    /**
+     * Execute a request. Starting a new request with the same id cancels the previous one.
+     */
+    async execute(id: string, request: ExecuteRequest, options: ExecuteOptions = {}): Promise<ExecuteResult> {
+        const controller = new AbortController();
+        this.inFlight.get(id)?.abort(new Error('Request cancelled'));
+        this.inFlight.set(id, controller);
+
+        const startTime = performance.now();
+        const totalTimer = options.timeout
+            ? setTimeout(() => controller.abort(new Error(`Request timed out after ${options.timeout}ms`)), options.timeout)
+            : undefined;
+
+        const followRedirects = options.followRedirects ?? true;
+        const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+        const redirects: OpenAPIRedirectHop[] = [];
+
+        try {
+            let current: ExecuteRequest = { ...request, headers: { ...request.headers } };
+
+            for (;;) {
+                const marks: PhaseMarks = { start: performance.now() };
+                const response = await this.send(this.withCookies(current, options.cookies), controller.signal, marks, options.connectTimeout);
+                const location = response.headers.location;
+                const status = response.statusCode || 0;
+                const setCookie = response.headers['set-cookie'] || [];
+                options.cookies?.setCookies(current.url, setCookie);
+
+                if (followRedirects && location && [301, 302, 303, 307, 308].includes(status)) {
+                    response.resume();
+                    if (redirects.length >= maxRedirects) {
+                        throw new Error(`Too many redirects (maximum is ${maxRedirects})`);
+                    }
+
+                    redirects.push({
+                        url: current.url,
+                        status,
+                        statusText: response.statusMessage || '',
+                        location,
+                        setCookie: [...setCookie],
+                    });
+                    current = this.nextRedirect(current, status, location);
+                    continue;
+                }
+
+                const headers = this.flattenHeaders(response.headers);
+                const statusText = response.statusMessage || '';
+                const stream = options.stream?.accept({ status, statusText, headers }) ? options.stream : undefined;
+                if (stream) {
+                    // A stream may stay open indefinitely, only the wait for its headers is timed
+                    clearTimeout(totalTimer);
+                }
+
+                const body = await this.readBody(response, current.method, controller.signal, options.maxBodyInMemory, stream);
+                marks.end = performance.now();
+
+                return {
+                    status,
+                    statusText,
+                    headers,
+                    url: current.url,
+                    body: body.preview,
+                    bodySize: body.size,
+                    wireSize: body.wireSize,
+                    bodyFile: body.file,
+                    truncated: body.file !== undefined,
+                    stopped: body.stopped,
+                    time: Math.round(marks.end - startTime),
+                    timings: this.computeTimings(startTime, marks, current.url),
+                    redirects,
+                };
+            }
+        } finally {
+            clearTimeout(totalTimer);
+            if (this.inFlight.get(id) === controller) {
+                this.inFlight.delete(id);
+            }
+        }
+    }
+
+    /**
+     * Cancel an in-flight request
+     */
+    cancel(id: string): boolean {
+        const controller = this.inFlight.get(id);
+        if (!controller) return false;
+
+        controller.abort(new Error('Request cancelled'));
+        return true;
+    }
+
+    /**
+     * Stop a streaming response; the request resolves with what was received so far
+     */
+    stop(id: string): boolean {
+        const controller = this.inFlight.get(id);
+        if (!controller) return false;
+
+        controller.abort(STREAM_STOPPED);
+        return true;
+    }
+
+    dispose(): void {
+        for (const controller of this.inFlight.values()) {
+            controller.abort(new Error('Request cancelled'));
+        }
+        this.inFlight.clear();
+    }
+
+    private send(
+        request: ExecuteRequest,
+        signal: AbortSignal,
+        marks: PhaseMarks,
+        connectTimeout?: number
+    ): Promise<http.IncomingMessage> {
+        return new Promise((resolve, reject) => {
+            if (signal.aborted) {
+                reject(this.abortReason(signal));
+                return;
+            }
+
+            const url = new URL(request.url);
+            if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+                reject(new Error(`Unsupported protocol: ${url.protocol}`));
+                return;
+            }
+
+            const transport = url.protocol === 'https:' ? https : http;
+            const headers = { ...request.headers };
+            const body = request.body !== undefined ? Buffer.from(request.body) : undefined;
+            if (body && !Object.keys(headers).some(k => k.toLowerCase() === 'content-length')) {
+                headers['Content-Length'] = String(body.length);
+            }
+
+            const req = transport.request(url, { method: request.method, headers });
+            let connectTimer: NodeJS.Timeout | undefined;
+
+            const onAbort = () => req.destroy(this.abortReason(signal));
+            signal.addEventListener('abort', onAbort, { once: true });
+
+            req.on('socket', (socket) => {
+                // Reused keep-alive sockets are already connected; waiting for one is not DNS time
+                if (!socket.connecting) {
+                    marks.lookup = marks.connect = marks.secureConnect = marks.start;
+                    return;
+                }
+
+                socket.once('lookup', () => { marks.lookup = performance.now(); });
+                socket.once('connect', () => { marks.connect = performance.now(); });
+                socket.once('secureConnect', () => { marks.secureConnect = performance.now(); });
+
+                if (connectTimeout) {
+                    connectTimer = setTimeout(
+                        () => req.destroy(new Error(`Connection timed out after ${connectTimeout}ms`)),
+                        connectTimeout
+                    );
+                    socket.once(url.protocol === 'https:' ? 'secureConnect' : 'connect', () => clearTimeout(connectTimer));
+                }
+            });
+
+            req.on('response', (response) => {
+                marks.response = performance.now();
+                clearTimeout(connectTimer);
+                signal.removeEventListener('abort', onAbort);
+                resolve(response);
+            });
+
+            req.on('error', (error) => {
+                clearTimeout(connectTimer);
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            });
+
+            req.end(body);
+        });
+    }
+
+    /**
+     * Read the decoded body. Once it grows past maxInMemory, everything is
+     * streamed to a temp file and only the first maxInMemory bytes are kept.
+     * With a stream handler, chunks are also handed over as they arrive.
+     */
+    private readBody(
+        response: http.IncomingMessage,
+        method: string,
+        signal: AbortSignal,
+        maxInMemory?: number,
+        handler?: StreamHandler
+    ): Promise<{ preview: Buffer; size: number; wireSize: number; file?: string; stopped: boolean }> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            const stream = this.hasBody(response, method) ? this.decode(response) : response;
+            let wireSize = 0;
+            let size = 0;
+            let kept = 0;
+            let filePath: string | undefined;
+            let file: fs.WriteStream | undefined;
+            let done = false;
+
+            const fail = (error: Error) => {
+                if (done) return;
+                done = true;
+                signal.removeEventListener('abort', onAbort);
+                file?.destroy();
+                if (filePath) fs.unlink(filePath, () => undefined);
+                reject(error);
+            };
+
+            const finish = (stopped: boolean) => {
+                if (done) return;
+                done = true;
+                signal.removeEventListener('abort', onAbort);
+                const preview = Buffer.concat(chunks);
+                if (file) {
+                    file.end(() => resolve({ preview, size, wireSize, file: filePath, stopped }));
+                } else {
+                    resolve({ preview, size, wireSize, stopped });
+                }
+            };
+
+            const onAbort = () => {
+                response.destroy();
+                if (handler && signal.reason === STREAM_STOPPED) {
+                    finish(true);
+                } else {
+                    fail(this.abortReason(signal));
+                }
+            };
+
+            if (signal.aborted) {
+                onAbort();
+                return;
+            }
+            signal.addEventListener('abort', onAbort, { once: true });
+
+            response.on('data', (chunk: Buffer) => { wireSize += chunk.length; });
+            stream.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+
+                if (maxInMemory && !file && size > maxInMemory) {
+                    filePath = path.join(os.tmpdir(), `api-tester-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+                    file = fs.createWriteStream(filePath);
+                    file.on('error', fail);
+                    chunks.forEach(c => file!.write(c));
+                }
+                file?.write(chunk);
+
+                if (!maxInMemory || kept < maxInMemory) {
+                    const part = maxInMemory ? chunk.subarray(0, maxInMemory - kept) : chunk;
+                    chunks.push(part);
+                    kept += part.length;
+                }
+
+                // A handler that throws, e.g. on a corrupt frame, fails the request rather than the extension host
+                try {
+                    handler?.onChunk(chunk);
+                } catch (error) {
+                    response.destroy();
+                    fail(error instanceof Error ? error : new Error(String(error)));
+                }
+            });
+            stream.on('end', () => finish(false));
+            if (stream !== response) {
+                // An empty body is not a valid gzip or brotli stream, but servers still label it
+                stream.on('error', (error: Error) => wireSize === 0 && response.complete ? finish(false) : fail(error));
+                // pipe() doesn't pass on errors, so a reset mid-body would leave the decoder waiting forever
+                response.on('error', fail);
+                response.on('close', () => {
+                    if (!response.complete) fail(new Error('The connection closed before the response was complete'));
+                });
+            } else {
+                stream.on('error', fail);
+            }
+        });
+    }
+
+    /**
+     * Whether the response can carry a body at all (RFC 9110 6.4.1); Content-Encoding
+     * on a HEAD, 1xx, 204 or 304 response describes the body a GET would have had
+     */
+    private hasBody(response: http.IncomingMessage, method: string): boolean {
+        const status = response.statusCode || 0;
+        if (method.toUpperCase() === 'HEAD' || status < 200 || status === 204 || status === 304) return false;
+        return response.headers['content-length'] !== '0';
+    }
+
+    /**
+     * Decompress the body according to Content-Encoding
+     */
+    private decode(response: http.IncomingMessage): Readable {
+        const encoding = (response.headers['content-encoding'] || '').toLowerCase().trim();
+
+        switch (encoding) {
+            case 'gzip':
+            case 'x-gzip':
+                return response.pipe(zlib.createGunzip());
+            case 'deflate':
+                return response.pipe(zlib.createInflate());
+            case 'br':
+                return response.pipe(zlib.createBrotliDecompress());
+            default:
+                return response;
+        }
+    }
+
+    /**
+     * Append stored cookies to any Cookie header the caller set
+     */
+    private withCookies(request: ExecuteRequest, cookies?: CookieStore): ExecuteRequest {
+        const stored = cookies?.getCookieHeader(request.url);
+        if (!stored) return request;
+
+        const headers = { ...request.headers };
+        const key = Object.keys(headers).find(k => k.toLowerCase() === 'cookie');
+        if (key && headers[key]) {
+            headers[key] = `${headers[key]}; ${stored}`;
+        } else {
+            headers[key || 'Cookie'] = stored;
+        }
+
+        return { ...request, headers };
+    }
+
+    /**
+     * Build the follow-up request for a redirect, matching fetch semantics
+     */
+    private nextRedirect(request: ExecuteRequest, status: number, location: string): ExecuteRequest {
+        const nextUrl = new URL(location, request.url);
+        const headers = { ...request.headers };
+        let method = request.method;
+        let body = request.body;
+
+        if (status === 303 || ((status === 301 || status === 302) && method.toUpperCase() === 'POST')) {
+            method = 'GET';
+            body = undefined;
+            for (const key of Object.keys(headers)) {
+                if (['content-type', 'content-length'].includes(key.toLowerCase())) {
+                    delete headers[key];
+                }
+            }
+        }
+
+        // Don't leak credentials to another origin
+        if (nextUrl.origin !== new URL(request.url).origin) {
+            for (const key of Object.keys(headers)) {
+                if (['authorization', 'cookie'].includes(key.toLowerCase())) {
+                    delete headers[key];
+                }
+            }
+        }
+
+        return { method, url: nextUrl.toString(), headers, body };
+    }
+
+    /**
+     * Turn raw marks into phase durations. Phases that did not happen
+     * (IP literal, plain HTTP, reused socket) collapse to zero.
+     */
+    private computeTimings(startTime: number, marks: PhaseMarks, url: string): OpenAPIResponseTimings {
+        const lookup = marks.lookup ?? marks.start;
+        const connect = marks.connect ?? lookup;
+        const secureConnect = url.startsWith('https:') ? (marks.secureConnect ?? connect) : connect;
+        const response = marks.response ?? secureConnect;
+        const end = marks.end ?? response;
+        const round = (ms: number) => Math.max(0, Math.round(ms * 100) / 100);
+
+        return {
+            redirect: round(marks.start - startTime),
+            dns: round(lookup - marks.start),
+            tcp: round(connect - lookup),
+            tls: round(secureConnect - connect),
+            ttfb: round(response - secureConnect),
+            download: round(end - response),
+            total: round(end - startTime),
+        };
+    }
+
+    private flattenHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+        const result: Record<string, string> = {};
+        for (const [key, value] of Object.entries(headers)) {
+            if (value === undefined) continue;
+            result[key] = Array.isArray(value) ? value.join(', ') : value;
+        }
+        return result;
+    }
+
+    private abortReason(signal: AbortSignal): Error {
+        return signal.reason instanceof Error ? signal.reason : new Error('Request aborted');
+    }
+}
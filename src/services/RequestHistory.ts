@@ -1,23 +1,65 @@
 import * as vscode from 'vscode';
 import { OpenAPIStorage } from './OpenAPIStorage';
+import { OpenAPIDocument, OpenAPIRequestOptions, OpenAPIResponseTimings, OpenAPIRedirectHop, OpenAPIGraphQL, OpenAPIWebSocketSession, OpenAPIGrpcCall, OpenAPIRequestScripts, OpenAPIAssertion } from '../types/openapi';
+
+export interface FormField {
+    key: string;
+    value: string;          // Text value, or a file path for file fields
+    type: 'text' | 'file';
+}
 
 export interface SavedRequest {
     id: string;
     name: string;
-    method: string;
+    method: string;         // HTTP method, WS for a WebSocket session or GRPC for a gRPC call
     url: string;
     headers: Record<string, string>;
     body?: string;
-    bodyType: 'none' | 'json' | 'form' | 'text' | 'xml';
+    bodyType: 'none' | 'json' | 'form' | 'multipart' | 'binary' | 'text' | 'xml' | 'graphql';
+    formData?: FormField[];  // Fields for the multipart and form (urlencoded) body types
+    bodyFile?: string;      // File sent as the whole body for the binary body type
+    graphql?: OpenAPIGraphQL;
+    websocket?: OpenAPIWebSocketSession;
+    grpc?: OpenAPIGrpcCall;
+    scripts?: OpenAPIRequestScripts;
+    assertions?: OpenAPIAssertion[];
+    dataFile?: string;      // CSV or JSON file whose rows drive data-driven runs
     auth?: {
-        type: 'none' | 'bearer' | 'basic' | 'apikey';
+        type: 'none' | 'bearer' | 'basic' | 'apikey' | 'oauth2' | 'digest' | 'awsv4' | 'hmac' | 'jwt';
         token?: string;
         username?: string;
         password?: string;
         key?: string;
         value?: string;
-        addTo?: 'header' | 'query';
+        addTo?: 'header' | 'query' | 'cookie';
+        // OAuth 2.0; tokens themselves are cached per environment, not saved with the request
+        grantType?: 'client_credentials' | 'password' | 'authorization_code';
+        tokenUrl?: string;
+        authorizationUrl?: string;
+        clientId?: string;
+        clientSecret?: string;
+        scope?: string;
+        redirectUri?: string;
+        clientAuth?: 'basic' | 'body';
+        // AWS Signature V4
+        accessKey?: string;
+        secretKey?: string;
+        sessionToken?: string;
+        region?: string;
+        service?: string;
+        // HMAC and JWT signing
+        secret?: string;        // HMAC secret, JWT HMAC secret or PEM private key
+        algorithm?: string;
+        encoding?: 'hex' | 'base64';
+        headerName?: string;
+        template?: string;
+        timestampHeader?: string;
+        payload?: string;       // JWT claims as JSON
+        expiresIn?: string;     // JWT lifetime in seconds
+        keyId?: string;
+        prefix?: string;
     };
+    options?: OpenAPIRequestOptions;
     response?: {
         status: number;
         statusText: string;
@@ -25,6 +67,8 @@ export interface SavedRequest {
         body: string;
         time: number;
         size: number;
+        timings?: OpenAPIResponseTimings;
+        redirects?: OpenAPIRedirectHop[];
     };
     createdAt: number;
     updatedAt: number;
@@ -88,4 +132,11 @@ export class RequestHistory {
     async clear(): Promise<void> {
         return this.storage.clear();
     }
+
+    /**
+     * The stored OpenAPI document, e.g. to validate responses against imported contracts
+     */
+    getDocument(): OpenAPIDocument {
+        return this.storage.getDocument();
+    }
 }
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { SavedRequest } from './RequestHistory';
+
+export interface HistoryEntry {
+    id: string;
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+    bodyType: SavedRequest['bodyType'];
+    formData?: SavedRequest['formData'];
+    bodyFile?: string;
+    graphql?: SavedRequest['graphql'];
+    grpc?: SavedRequest['grpc'];
+    scripts?: SavedRequest['scripts'];
+    assertions?: SavedRequest['assertions'];
+    auth?: SavedRequest['auth'];
+    options?: SavedRequest['options'];
+    resolvedUrl: string;
+    resolvedHeaders: Record<string, string>;
+    resolvedBody?: string;
+    response?: SavedRequest['response'];
+    error?: string;
+    time: number;
+    environmentId?: string;
+    environmentName?: string;
+    timestamp: number;
+}
+
+const STORAGE_KEY = 'apiTester.history';
+
+/**
+ * RequestLog - Chronological log of every executed request
+ * Kept separate from saved requests, capped by apiTester.maxHistoryItems
+ */
+export class RequestLog {
+    private context: vscode.ExtensionContext;
+
+    constructor(context: vscode.ExtensionContext) {
+        this.context = context;
+    }
+
+    async getEntries(): Promise<HistoryEntry[]> {
+        return this.context.globalState.get<HistoryEntry[]>(STORAGE_KEY, []);
+    }
+
+    async getEntry(id: string): Promise<HistoryEntry | null> {
+        const entries = await this.getEntries();
+        return entries.find(e => e.id === id) || null;
+    }
+
+    async record(entry: Omit<HistoryEntry, 'id' | 'timestamp'>): Promise<HistoryEntry | null> {
+        const config = vscode.workspace.getConfiguration('apiTester');
+        if (!config.get<boolean>('saveHistory', true)) return null;
+
+        const maxItems = Math.max(0, config.get<number>('maxHistoryItems', 100));
+        const newEntry: HistoryEntry = {
+            ...entry,
+            id: this.generateId(),
+            timestamp: Date.now(),
+        };
+
+        // Newest first, oldest entries fall off the end
+        const entries = [newEntry, ...(await this.getEntries())].slice(0, maxItems);
+        await this.context.globalState.update(STORAGE_KEY, entries);
+
+        return newEntry;
+    }
+
+    async deleteEntry(id: string): Promise<boolean> {
+        const entries = await this.getEntries();
+        const filtered = entries.filter(e => e.id !== id);
+
+        if (filtered.length === entries.length) return false;
+
+        await this.context.globalState.update(STORAGE_KEY, filtered);
+        return true;
+    }
+
+    async clear(): Promise<void> {
+        await this.context.globalState.update(STORAGE_KEY, []);
+    }
+
+    private generateId(): string {
+        return `hist-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    }
+}
@@ -0,0 +1,90 @@
+import { CollectionRunSummary, RequestRunResult } from './CollectionRunner';
+
+export interface RunReportInfo {
+    name: string;               // Collection, folder or document title
+    environment?: string;
+    startedAt: number;
+}
+
+/**
+ * RunReport - Formats a collection run as JUnit XML or JSON for CI servers
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class RunReport {
+    /**
+     * One testsuite per request and iteration, one testcase per assertion or script test.
+     * Requests that could not be sent are errors; requests without tests get a testcase of their own.
+     */
+    static junit(summary: CollectionRunSummary, info: RunReportInfo): string {
+        const suites = summary.results.map(result => this.junitSuite(result, summary.iterations > 1));
+        const errors = summary.results.filter(r => r.error && !r.skipped).length;
+        const tests = summary.results.reduce((count, r) => count + Math.max(1, r.tests.length + (r.error ? 1 : 0)), 0);
+        const failures = summary.results.reduce((count, r) => count + r.tests.filter(t => !t.passed).length, 0);
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<testsuites name="${this.xml(info.name)}" tests="${tests}" failures="${failures}" errors="${errors}" time="${this.seconds(summary.time)}">`,
+            ...suites,
+            '</testsuites>',
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * The summary without the variables the run ended with, which hold the environment and any --var values
+     */
+    static json(summary: CollectionRunSummary, info: RunReportInfo): string {
+        const { variables, ...totals } = summary;
+        return JSON.stringify({
+            name: info.name,
+            environment: info.environment,
+            startedAt: new Date(info.startedAt).toISOString(),
+            ...totals,
+        }, null, 2);
+    }
+
+    private static junitSuite(result: RequestRunResult, showIteration: boolean): string {
+        const name = showIteration ? `${result.name} (iteration ${result.iteration})` : result.name;
+        const classname = `${result.method} ${result.url}`;
+        const cases: string[] = [];
+
+        if (result.skipped) {
+            cases.push(`    <testcase name="${this.xml(result.name)}" classname="${this.xml(classname)}" time="0">\n      <skipped message="${this.xml(result.error || '')}"/>\n    </testcase>`);
+        } else if (result.error) {
+            cases.push(`    <testcase name="${this.xml(result.name)}" classname="${this.xml(classname)}" time="${this.seconds(result.time)}">\n      <error message="${this.xml(result.error)}"/>\n    </testcase>`);
+        }
+        for (const test of result.tests) {
+            const failure = test.passed ? '' : `\n      <failure message="${this.xml(test.error || 'Failed')}"/>\n    `;
+            cases.push(`    <testcase name="${this.xml(test.name)}" classname="${this.xml(classname)}" time="0">${failure}</testcase>`);
+        }
+        if (cases.length === 0) {
+            cases.push(`    <testcase name="${this.xml(result.name)}" classname="${this.xml(classname)}" time="${this.seconds(result.time)}"/>`);
+        }
+
+        const output = result.logs.map(log => `[${log.phase}] ${log.level}: ${log.message}`).join('\n');
+        const failures = result.tests.filter(t => !t.passed).length;
+        const errors = result.error && !result.skipped ? 1 : 0;
+        return [
+            `  <testsuite name="${this.xml(name)}" tests="${cases.length}" failures="${failures}" errors="${errors}" skipped="${result.skipped ? 1 : 0}" time="${this.seconds(result.time)}">`,
+            ...cases,
+            ...(output ? [`    <system-out>${this.xml(output)}</system-out>`] : []),
+            '  </testsuite>',
+        ].join('\n');
+    }
+
+    private static seconds(ms: number): string {
+        return (ms / 1000).toFixed(3);
+    }
+
+    /**
+     * Escape for attributes and text; characters XML 1.0 can't hold at all are dropped
+     */
+    private static xml(text: string): string {
+        return text
+            .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
@@ -0,0 +1,291 @@
+import { JsonPath } from './JsonPath';
+
+export interface SchemaError {
+    path: string;       // JSON pointer to the offending value, '' for the root
+    message: string;
+}
+
+type Schema = { [keyword: string]: any } | boolean;
+
+const MAX_DEPTH = 200;
+
+const FORMATS: Record<string, RegExp> = {
+    'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+    'date': /^\d{4}-\d{2}-\d{2}$/,
+    'time': /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/,
+    'email': /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    'uuid': /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    'uri': /^[a-z][a-z0-9+.-]*:\S*$/i,
+    'ipv4': /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/,
+    'hostname': /^(?=.{1,253}$)[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i,
+};
+
+/**
+ * SchemaValidator - Checks values against JSON Schema, including the OpenAPI 3.0
+ * dialect (nullable, boolean exclusiveMinimum/exclusiveMaximum)
+ * Local $refs such as #/components/schemas/User resolve against the root document.
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class SchemaValidator {
+    constructor(private readonly root: unknown = {}) {}
+
+    validate(schema: Schema, value: unknown): SchemaError[] {
+        const errors: SchemaError[] = [];
+        this.check(schema, value, '', errors, 0);
+        return errors;
+    }
+
+    /**
+     * Look up a local reference; only #/... pointers into the root document are supported
+     */
+    resolve(ref: string): Schema {
+        if (!ref.startsWith('#')) {
+            throw new Error(`Only local $refs are supported: ${ref}`);
+        }
+        let target: unknown = this.root;
+        for (const token of ref.slice(1).split('/').filter(t => t !== '')) {
+            const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+            if (typeof target !== 'object' || target === null || !(key in target)) {
+                throw new Error(`Cannot resolve $ref ${ref}`);
+            }
+            target = (target as Record<string, unknown>)[key];
+        }
+        return target as Schema;
+    }
+
+    static pointer(path: string, key: string | number): string {
+        return `${path}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+    }
+
+    private check(schema: Schema, value: unknown, path: string, errors: SchemaError[], depth: number): void {
+        if (schema === true || schema === undefined || schema === null) return;
+        if (schema === false) {
+            errors.push({ path, message: 'no value is allowed here' });
+            return;
+        }
+        if (depth > MAX_DEPTH) {
+            errors.push({ path, message: 'schema nesting is too deep, check for circular $refs' });
+            return;
+        }
+
+        // In OpenAPI 3.0 siblings of $ref are ignored
+        if (typeof schema.$ref === 'string') {
+            let target: Schema;
+            try {
+                target = this.resolve(schema.$ref);
+            } catch (error) {
+                errors.push({ path, message: (error as Error).message });
+                return;
+            }
+            this.check(target, value, path, errors, depth + 1);
+            return;
+        }
+
+        if (value === null && schema.nullable === true) return;
+
+        if (schema.type !== undefined && !this.checkType(schema.type, value)) {
+            const expected = Array.isArray(schema.type) ? schema.type.join(' or ') : schema.type;
+            errors.push({ path, message: `expected ${expected}, got ${this.typeOf(value)}` });
+            return;
+        }
+
+        if (schema.enum !== undefined && !schema.enum.some((option: unknown) => JsonPath.equals(option, value))) {
+            errors.push({ path, message: `must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}` });
+        }
+        if ('const' in schema && !JsonPath.equals(schema.const, value)) {
+            errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+        }
+
+        this.checkComposition(schema, value, path, errors, depth);
+
+        if (typeof value === 'string') this.checkString(schema, value, path, errors);
+        else if (typeof value === 'number') this.checkNumber(schema, value, path, errors);
+        else if (Array.isArray(value)) this.checkArray(schema, value, path, errors, depth);
+        else if (typeof value === 'object' && value !== null) this.checkObject(schema, value as Record<string, unknown>, path, errors, depth);
+    }
+
+    private checkComposition(schema: { [keyword: string]: any }, value: unknown, path: string, errors: SchemaError[], depth: number): void {
+        if (Array.isArray(schema.allOf)) {
+            for (const part of schema.allOf) this.check(part, value, path, errors, depth + 1);
+        }
+        if (Array.isArray(schema.anyOf)) {
+            const results = schema.anyOf.map((part: Schema) => this.branch(part, value, path, depth));
+            if (!results.some((result: SchemaError[]) => result.length === 0)) {
+                errors.push({ path, message: 'does not match any of the anyOf schemas' });
+                errors.push(...this.closestBranch(results));
+            }
+        }
+        if (Array.isArray(schema.oneOf)) {
+            const results = schema.oneOf.map((part: Schema) => this.branch(part, value, path, depth));
+            const matching = results.filter((result: SchemaError[]) => result.length === 0).length;
+            if (matching === 0) {
+                errors.push({ path, message: 'does not match any of the oneOf schemas' });
+                errors.push(...this.closestBranch(results));
+            } else if (matching > 1) {
+                errors.push({ path, message: `matches ${matching} of the oneOf schemas, expected exactly one` });
+            }
+        }
+        if (schema.not !== undefined && this.branch(schema.not, value, path, depth).length === 0) {
+            errors.push({ path, message: 'must not match the "not" schema' });
+        }
+    }
+
+    private branch(schema: Schema, value: unknown, path: string, depth: number): SchemaError[] {
+        const errors: SchemaError[] = [];
+        this.check(schema, value, path, errors, depth + 1);
+        return errors;
+    }
+
+    /**
+     * When no branch matches, the one with the fewest errors best explains why
+     */
+    private closestBranch(results: SchemaError[][]): SchemaError[] {
+        return results.reduce((best, result) => result.length < best.length ? result : best, results[0] || []);
+    }
+
+    private checkString(schema: { [keyword: string]: any }, value: string, path: string, errors: SchemaError[]): void {
+        const length = [...value].length;
+        if (typeof schema.minLength === 'number' && length < schema.minLength) {
+            errors.push({ path, message: `must be at least ${schema.minLength} characters, got ${length}` });
+        }
+        if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+            errors.push({ path, message: `must be at most ${schema.maxLength} characters, got ${length}` });
+        }
+        if (typeof schema.pattern === 'string') {
+            try {
+                if (!new RegExp(schema.pattern, 'u').test(value)) {
+                    errors.push({ path, message: `must match pattern ${schema.pattern}` });
+                }
+            } catch {
+                // Patterns JavaScript can't compile are not checked
+            }
+        }
+        const format = typeof schema.format === 'string' ? FORMATS[schema.format] : undefined;
+        if (format && !format.test(value)) {
+            errors.push({ path, message: `must be a valid ${schema.format}` });
+        }
+    }
+
+    private checkNumber(schema: { [keyword: string]: any }, value: number, path: string, errors: SchemaError[]): void {
+        if (typeof schema.minimum === 'number') {
+            // OpenAPI 3.0 uses a boolean exclusiveMinimum next to minimum
+            if (schema.exclusiveMinimum === true ? value <= schema.minimum : value < schema.minimum) {
+                errors.push({ path, message: `must be ${schema.exclusiveMinimum === true ? 'greater than' : 'at least'} ${schema.minimum}, got ${value}` });
+            }
+        }
+        if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+            errors.push({ path, message: `must be greater than ${schema.exclusiveMinimum}, got ${value}` });
+        }
+        if (typeof schema.maximum === 'number') {
+            if (schema.exclusiveMaximum === true ? value >= schema.maximum : value > schema.maximum) {
+                errors.push({ path, message: `must be ${schema.exclusiveMaximum === true ? 'less than' : 'at most'} ${schema.maximum}, got ${value}` });
+            }
+        }
+        if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+            errors.push({ path, message: `must be less than ${schema.exclusiveMaximum}, got ${value}` });
+        }
+        if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+            const quotient = value / schema.multipleOf;
+            if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+                errors.push({ path, message: `must be a multiple of ${schema.multipleOf}` });
+            }
+        }
+    }
+
+    private checkArray(schema: { [keyword: string]: any }, value: unknown[], path: string, errors: SchemaError[], depth: number): void {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+            errors.push({ path, message: `must have at least ${schema.minItems} items, got ${value.length}` });
+        }
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+            errors.push({ path, message: `must have at most ${schema.maxItems} items, got ${value.length}` });
+        }
+        if (schema.uniqueItems === true) {
+            for (let i = 1; i < value.length; i++) {
+                const duplicate = value.slice(0, i).findIndex(item => JsonPath.equals(item, value[i]));
+                if (duplicate !== -1) {
+                    errors.push({ path: SchemaValidator.pointer(path, i), message: `duplicates item ${duplicate}` });
+                }
+            }
+        }
+
+        // Tuple form: one schema per position, then additionalItems for the rest
+        if (Array.isArray(schema.items)) {
+            value.forEach((item, i) => {
+                const itemSchema = i < schema.items.length ? schema.items[i] : schema.additionalItems;
+                this.check(itemSchema, item, SchemaValidator.pointer(path, i), errors, depth + 1);
+            });
+        } else if (schema.items !== undefined) {
+            value.forEach((item, i) => this.check(schema.items, item, SchemaValidator.pointer(path, i), errors, depth + 1));
+        }
+    }
+
+    private checkObject(schema: { [keyword: string]: any }, value: Record<string, unknown>, path: string, errors: SchemaError[], depth: number): void {
+        const keys = Object.keys(value);
+        if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+            errors.push({ path, message: `must have at least ${schema.minProperties} properties, got ${keys.length}` });
+        }
+        if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+            errors.push({ path, message: `must have at most ${schema.maxProperties} properties, got ${keys.length}` });
+        }
+        if (Array.isArray(schema.required)) {
+            for (const key of schema.required) {
+                if (!(key in value)) {
+                    errors.push({ path: SchemaValidator.pointer(path, key), message: 'is required' });
+                }
+            }
+        }
+
+        const properties: Record<string, Schema> = schema.properties || {};
+        const patterns = Object.entries<Schema>(schema.patternProperties || {});
+        for (const key of keys) {
+            const childPath = SchemaValidator.pointer(path, key);
+            let matched = false;
+            if (key in properties) {
+                matched = true;
+                this.check(properties[key], value[key], childPath, errors, depth + 1);
+            }
+            for (const [pattern, patternSchema] of patterns) {
+                if (this.safeTest(pattern, key)) {
+                    matched = true;
+                    this.check(patternSchema, value[key], childPath, errors, depth + 1);
+                }
+            }
+            if (!matched && schema.additionalProperties !== undefined) {
+                if (schema.additionalProperties === false) {
+                    errors.push({ path: childPath, message: 'is not an allowed property' });
+                } else {
+                    this.check(schema.additionalProperties, value[key], childPath, errors, depth + 1);
+                }
+            }
+        }
+    }
+
+    private checkType(type: string | string[], value: unknown): boolean {
+        const types = Array.isArray(type) ? type : [type];
+        return types.some(t => {
+            switch (t) {
+                case 'integer': return typeof value === 'number' && Number.isInteger(value);
+                case 'number': return typeof value === 'number' && Number.isFinite(value);
+                case 'array': return Array.isArray(value);
+                case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+                case 'null': return value === null;
+                default: return typeof value === t;
+            }
+        });
+    }
+
+    private typeOf(value: unknown): string {
+        if (value === null) return 'null';
+        if (Array.isArray(value)) return 'array';
+        if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+        return typeof value;
+    }
+
+    private safeTest(pattern: string, text: string): boolean {
+        try {
+            return new RegExp(pattern, 'u').test(text);
+        } catch {
+            return false;
+        }
+    }
+}
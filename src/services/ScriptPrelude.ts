@@ -0,0 +1,160 @@
+/**
+ * ScriptPrelude - Builds `api` and `console` inside a script's vm context
+ * ScriptRunner runs this function's source text in the context instead of calling it, so every
+ * object a script can reach belongs to that context. It must not use anything from outside its
+ * own body: no imports, no module-level names, nothing TypeScript would compile to a helper.
+ * The one host function, bridge, stays in this closure and only ever takes and returns JSON strings.
+ */
+export function scriptPrelude(bridge: (name: string, args: string) => string, input: string): void {
+    'use strict';
+    const parse = JSON.parse;
+    const stringify = JSON.stringify;
+    const freeze = Object.freeze;
+    const call = (name: string, ...args: unknown[]): any => {
+        let text: string;
+        try {
+            text = bridge(name, stringify(args));
+        } catch (e) {
+            // bridge catches its own errors, except running out of stack, whose RangeError comes from the host's realm
+            throw new RangeError('Maximum call stack size exceeded');
+        }
+        const reply = parse(text);
+        if (reply.error !== undefined) throw new Error(reply.error);
+        return reply.value;
+    };
+    const describe = (error: unknown): string => {
+        try {
+            const message = error !== null && typeof error === 'object' ? (error as { message?: unknown }).message : undefined;
+            return typeof message === 'string' ? message : String(error);
+        } catch (e) {
+            return 'Script failed';
+        }
+    };
+    const show = (value: unknown): string => {
+        if (typeof value === 'string') return value;
+        if (value instanceof Error) return String(value);
+        try {
+            const json = stringify(value);
+            return json === undefined ? String(value) : json;
+        } catch (e) {
+            return String(value);
+        }
+    };
+
+    class AssertionError extends Error {
+        constructor(message: string) {
+            super(message);
+            this.name = 'AssertionError';
+        }
+    }
+    const fail = (message: unknown, fallback: string): never => {
+        if (message instanceof Error) throw message;
+        throw new AssertionError(message === undefined ? fallback : String(message));
+    };
+    // Node's assert.equal semantics: loose equality, with NaN equal to itself
+    const looseEqual = (a: any, b: any): boolean => a == b || (a !== a && b !== b);
+    const deepEqual = (a: any, b: any, strict: boolean): boolean => {
+        if (strict ? Object.is(a, b) : looseEqual(a, b)) return true;
+        if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+        if (strict && Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+        if (Array.isArray(a) !== Array.isArray(b)) return false;
+        if (a instanceof Date || b instanceof Date) return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+        if (a instanceof RegExp || b instanceof RegExp) return String(a) === String(b);
+        const keys = Object.keys(a);
+        if (keys.length !== Object.keys(b).length) return false;
+        return keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key], strict));
+    };
+    const assert = (value: unknown, message?: unknown): void => {
+        if (!value) fail(message, 'The expression evaluated to a falsy value: ' + show(value));
+    };
+    assert.ok = assert;
+    assert.fail = (message?: unknown) => fail(message, 'Failed');
+    assert.equal = (actual: unknown, expected: unknown, message?: unknown) => {
+        if (!looseEqual(actual, expected)) fail(message, 'Expected ' + show(actual) + ' == ' + show(expected));
+    };
+    assert.notEqual = (actual: unknown, expected: unknown, message?: unknown) => {
+        if (looseEqual(actual, expected)) fail(message, 'Expected ' + show(actual) + ' != ' + show(expected));
+    };
+    assert.strictEqual = (actual: unknown, expected: unknown, message?: unknown) => {
+        if (!Object.is(actual, expected)) fail(message, 'Expected ' + show(actual) + ' === ' + show(expected));
+    };
+    assert.notStrictEqual = (actual: unknown, expected: unknown, message?: unknown) => {
+        if (Object.is(actual, expected)) fail(message, 'Expected ' + show(actual) + ' !== ' + show(expected));
+    };
+    assert.deepEqual = (actual: unknown, expected: unknown, message?: unknown) => {
+        if (!deepEqual(actual, expected, false)) fail(message, 'Expected ' + show(actual) + ' to deeply equal ' + show(expected));
+    };
+    assert.notDeepEqual = (actual: unknown, expected: unknown, message?: unknown) => {
+        if (deepEqual(actual, expected, false)) fail(message, 'Expected ' + show(actual) + ' not to deeply equal ' + show(expected));
+    };
+    assert.deepStrictEqual = (actual: unknown, expected: unknown, message?: unknown) => {
+        if (!deepEqual(actual, expected, true)) fail(message, 'Expected ' + show(actual) + ' to deeply and strictly equal ' + show(expected));
+    };
+    assert.notDeepStrictEqual = (actual: unknown, expected: unknown, message?: unknown) => {
+        if (deepEqual(actual, expected, true)) fail(message, 'Expected ' + show(actual) + ' not to deeply and strictly equal ' + show(expected));
+    };
+    assert.match = (text: unknown, pattern: RegExp, message?: unknown) => {
+        if (typeof text !== 'string' || !pattern.test(text)) fail(message, 'Expected ' + show(text) + ' to match ' + String(pattern));
+    };
+    assert.doesNotMatch = (text: unknown, pattern: RegExp, message?: unknown) => {
+        if (typeof text !== 'string' || pattern.test(text)) fail(message, 'Expected ' + show(text) + ' not to match ' + String(pattern));
+    };
+    assert.throws = (fn: () => void, expected?: unknown, message?: unknown) => {
+        if (typeof expected === 'string') {
+            message = expected;
+            expected = undefined;
+        }
+        try {
+            fn();
+        } catch (error) {
+            if (expected instanceof RegExp && !expected.test(describe(error))) fail(message, 'The error ' + show(describe(error)) + ' does not match ' + String(expected));
+            if (typeof expected === 'function' && !(error instanceof expected)) fail(message, 'The error is not an instance of ' + expected.name);
+            return;
+        }
+        fail(message, 'Missing expected exception');
+    };
+    assert.AssertionError = AssertionError;
+
+    const { phase, request, response } = parse(input);
+    const log = (level: string) => (...args: unknown[]) => call('log', level, args.map(show).join(' '));
+    const global = globalThis as any;
+
+    global.api = freeze({
+        request: phase === 'preRequest' ? request : freeze({ ...request, headers: freeze({ ...request.headers }) }),
+        response: response && freeze({
+            ...response,
+            headers: freeze({ ...response.headers }),
+            json: () => parse(response.body),
+        }),
+        variables: freeze({
+            get: (key: unknown) => call('get', String(key)),
+            has: (key: unknown) => call('has', String(key)),
+            set: (key: unknown, value: unknown) => call('set', String(key), typeof value === 'string' ? value : stringify(value)),
+            unset: (key: unknown) => call('unset', String(key)),
+            replace: (text: unknown) => call('replace', String(text)),
+            toObject: () => call('toObject'),
+        }),
+        test: (name: unknown, fn: () => void) => {
+            try {
+                fn();
+                call('test', String(name), true);
+            } catch (error) {
+                call('test', String(name), false, describe(error));
+            }
+        },
+        assert: freeze(assert),
+        crypto: freeze({
+            hash: (algorithm: unknown, data: unknown, encoding?: unknown) => call('hash', String(algorithm), String(data), encoding === undefined ? 'hex' : String(encoding)),
+            hmac: (algorithm: unknown, key: unknown, data: unknown, encoding?: unknown) => call('hmac', String(algorithm), String(key), String(data), encoding === undefined ? 'hex' : String(encoding)),
+            uuid: () => call('uuid'),
+            base64: (text: unknown) => call('base64', String(text)),
+            fromBase64: (text: unknown) => call('fromBase64', String(text)),
+        }),
+    });
+    global.console = freeze({ log: log('log'), info: log('info'), warn: log('warn'), error: log('error') });
+
+    // Read back by the host once the script is done; scripts can't replace them
+    const define = (name: string, value: unknown) => Object.defineProperty(globalThis, name, { value, writable: false, configurable: false });
+    define('__request', () => stringify(request));
+    define('__describe', describe);
+}
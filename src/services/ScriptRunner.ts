@@ -0,0 +1,190 @@
+import * as vm from 'vm';
+import * as crypto from 'crypto';
+import { scriptPrelude } from './ScriptPrelude';
+
+export type ScriptPhase = 'preRequest' | 'test';
+
+export interface ScriptRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+}
+
+export interface ScriptResponse {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    time: number;
+}
+
+export interface ScriptContext {
+    request: ScriptRequest;
+    response?: ScriptResponse;              // Only for test scripts
+    variables: Record<string, string>;      // Variables of the active environment
+    interpolate(text: string, variables: Record<string, string>): string;
+}
+
+export interface ScriptLogEntry {
+    phase: ScriptPhase;
+    level: 'log' | 'info' | 'warn' | 'error';
+    message: string;
+}
+
+export interface ScriptTestResult {
+    name: string;
+    passed: boolean;
+    error?: string;
+}
+
+export interface ScriptResult {
+    request: ScriptRequest;                     // As left by the script
+    variables: Record<string, string | null>;   // Written by the script, null when unset
+    logs: ScriptLogEntry[];
+    tests: ScriptTestResult[];
+    error?: string;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+
+// The prelude's source, run in the context rather than called from here
+const PRELUDE = `(${scriptPrelude.toString()})`;
+
+/**
+ * ScriptRunner - Runs pre-request and test scripts in a separate vm context
+ * Scripts see an `api` object instead of the extension's globals, and run
+ * synchronously under a time limit. `api` is built inside the context and talks
+ * to the extension through strings only, so scripts from an imported collection
+ * can't reach Node's globals.
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class ScriptRunner {
+    /**
+     * Run a script. Errors it throws end up in the result instead of propagating.
+     */
+    static run(phase: ScriptPhase, code: string, context: ScriptContext, timeout: number = DEFAULT_TIMEOUT): ScriptResult {
+        const written: Record<string, string | null> = {};
+        const logs: ScriptLogEntry[] = [];
+        const tests: ScriptTestResult[] = [];
+
+        const current = (): Record<string, string> => {
+            const merged = { ...context.variables };
+            for (const [key, value] of Object.entries(written)) {
+                if (value === null) delete merged[key];
+                else merged[key] = value;
+            }
+            return merged;
+        };
+
+        // What the script's api can ask of the extension; arguments are strings, booleans or numbers
+        const handlers: Record<string, (...args: any[]) => unknown> = {
+            log: (level: ScriptLogEntry['level'], message: string) => {
+                logs.push({ phase, level: ['log', 'info', 'warn', 'error'].includes(level) ? level : 'log', message: String(message) });
+            },
+            test: (name: string, passed: boolean, error?: string) => {
+                tests.push({ name: String(name), passed: passed === true, error: error === undefined ? undefined : String(error) });
+            },
+            get: (key: string) => current()[key],
+            has: (key: string) => key in current(),
+            set: (key: string, value: string) => {
+                written[String(key)] = String(value);
+            },
+            unset: (key: string) => {
+                written[String(key)] = null;
+            },
+            replace: (text: string) => context.interpolate(String(text), current()),
+            toObject: () => current(),
+            hash: (algorithm: string, data: string, encoding: crypto.BinaryToTextEncoding) =>
+                crypto.createHash(algorithm).update(data).digest(encoding),
+            hmac: (algorithm: string, key: string, data: string, encoding: crypto.BinaryToTextEncoding) =>
+                crypto.createHmac(algorithm, key).update(data).digest(encoding),
+            uuid: () => crypto.randomUUID(),
+            base64: (text: string) => Buffer.from(text, 'utf8').toString('base64'),
+            fromBase64: (text: string) => Buffer.from(text, 'base64').toString('utf8'),
+        };
+        // Errors are returned as strings too, as an Error from this realm would leak its constructor
+        const bridge = (name: unknown, args: unknown): string => {
+            try {
+                const handler = Object.prototype.hasOwnProperty.call(handlers, String(name)) ? handlers[String(name)] : undefined;
+                if (!handler) throw new Error(`Unknown call ${name}`);
+                const parsed: unknown[] = JSON.parse(String(args));
+                return JSON.stringify({ value: handler(...parsed.map(arg => typeof arg === 'object' ? undefined : arg)) });
+            } catch (error) {
+                return JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
+            }
+        };
+
+        const input = JSON.stringify({
+            phase,
+            request: { method: context.request.method, url: context.request.url, headers: { ...context.request.headers }, body: context.request.body },
+            response: context.response,
+        });
+        // A null prototype, so the global doesn't inherit this realm's Object.prototype and its constructor
+        const sandbox = vm.createContext(Object.create(null), {
+            codeGeneration: { strings: false, wasm: false },
+            microtaskMode: 'afterEvaluate',
+        });
+        vm.runInContext(PRELUDE, sandbox, { filename: 'api.js', timeout })(bridge, input);
+
+        let error: string | undefined;
+        try {
+            vm.runInContext(code, sandbox, { filename: `${phase}.js`, timeout });
+        } catch (e) {
+            // The error comes from the script; it is described inside the context, where its getters run under the time limit
+            const slot = `__error_${crypto.randomUUID().replace(/-/g, '')}`;
+            sandbox[slot] = e;
+            error = this.callInContext(sandbox, `__describe(${slot})`, timeout) ?? 'Script failed';
+        }
+
+        let request: ScriptRequest = context.request;
+        if (phase === 'preRequest') {
+            const json = this.callInContext(sandbox, '__request()', timeout);
+            try {
+                request = json === undefined ? context.request : JSON.parse(json);
+            } catch {
+                request = context.request;
+            }
+        }
+
+        return {
+            request: this.sanitizeRequest(request, context.request),
+            variables: written,
+            logs,
+            tests,
+            error,
+        };
+    }
+
+    /**
+     * Evaluate one of the prelude's functions in the context; only a string result is taken
+     */
+    private static callInContext(sandbox: vm.Context, expression: string, timeout: number): string | undefined {
+        try {
+            const result = vm.runInContext(expression, sandbox, { timeout });
+            return typeof result === 'string' ? result : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Scripts may assign anything; keep only values that can go on the wire
+     */
+    private static sanitizeRequest(request: ScriptRequest, original: ScriptRequest): ScriptRequest {
+        const headers: Record<string, string> = {};
+        if (request.headers && typeof request.headers === 'object') {
+            for (const [key, value] of Object.entries(request.headers)) {
+                if (value !== undefined && value !== null) headers[key] = String(value);
+            }
+        }
+        return {
+            method: original.method,
+            url: typeof request.url === 'string' ? request.url : original.url,
+            headers,
+            body: request.body === undefined || request.body === null
+                ? undefined
+                : typeof request.body === 'string' ? request.body : JSON.stringify(request.body),
+        };
+    }
+}
@@ -0,0 +1,138 @@
+import { StringDecoder } from 'string_decoder';
+
+export type StreamKind = 'sse' | 'ndjson';
+
+export interface StreamEvent {
+    timestamp: number;
+    data: string;
+    event?: string;         // SSE event type
+    id?: string;            // SSE id, when the event carried one
+    retry?: number;         // SSE reconnection time in milliseconds
+}
+
+const STREAM_CONTENT_TYPES: Record<string, StreamKind> = {
+    'text/event-stream': 'sse',
+    'application/x-ndjson': 'ndjson',
+    'application/ndjson': 'ndjson',
+    'application/jsonl': 'ndjson',
+    'application/x-jsonlines': 'ndjson',
+    'application/stream+json': 'ndjson',
+};
+
+/**
+ * StreamParser - Splits a streamed body into Server-Sent Events or NDJSON records
+ * Chunks may end anywhere, incomplete lines are held back until the next push
+ */
+export class StreamParser {
+    private decoder = new StringDecoder('utf8');
+    private pending = '';
+    private skipLineFeed = false;
+    private data: string[] = [];
+    private event: string | undefined;
+    private id: string | undefined;
+    private retry: number | undefined;
+
+    constructor(readonly kind: StreamKind) {}
+
+    /**
+     * The stream kind for a Content-Type header, or undefined for regular bodies
+     */
+    static detect(contentType: string | undefined): StreamKind | undefined {
+        const mime = (contentType || '').split(';')[0].trim().toLowerCase();
+        return STREAM_CONTENT_TYPES[mime];
+    }
+
+    /**
+     * Feed the next chunk, returns the events it completed
+     */
+    push(chunk: Buffer): StreamEvent[] {
+        let text = this.pending + this.decoder.write(chunk);
+        // A CR ending the previous chunk already closed its line
+        if (this.skipLineFeed && text.startsWith('\n')) {
+            text = text.slice(1);
+        }
+        this.skipLineFeed = false;
+
+        const lines = text.split(/\r\n|\r|\n/);
+        this.pending = lines.pop() ?? '';
+        if (this.pending === '' && text.endsWith('\r')) {
+            this.skipLineFeed = true;
+        }
+
+        const events: StreamEvent[] = [];
+        for (const line of lines) {
+            const event = this.kind === 'sse' ? this.sseLine(line) : this.ndjsonLine(line);
+            if (event) events.push(event);
+        }
+        return events;
+    }
+
+    /**
+     * Flush whatever is left once the stream ended
+     */
+    end(): StreamEvent[] {
+        const events = this.push(Buffer.alloc(0));
+        const rest = this.pending + this.decoder.end();
+        this.pending = '';
+
+        const last = this.kind === 'sse' ? this.sseLine(rest) || this.sseLine('') : this.ndjsonLine(rest);
+        if (last) events.push(last);
+        return events;
+    }
+
+    private ndjsonLine(line: string): StreamEvent | undefined {
+        if (line.trim() === '') return undefined;
+        return { timestamp: Date.now(), data: line };
+    }
+
+    /**
+     * Line handling per the HTML event stream interpretation rules
+     */
+    private sseLine(line: string): StreamEvent | undefined {
+        if (line === '') {
+            return this.dispatch();
+        }
+        if (line.startsWith(':')) {
+            return undefined;
+        }
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        switch (field) {
+            case 'data':
+                this.data.push(value);
+                break;
+            case 'event':
+                this.event = value;
+                break;
+            case 'id':
+                if (!value.includes('\0')) this.id = value;
+                break;
+            case 'retry':
+                if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+                break;
+        }
+        return undefined;
+    }
+
+    private dispatch(): StreamEvent | undefined {
+        const hasData = this.data.length > 0;
+        const event: StreamEvent = {
+            timestamp: Date.now(),
+            data: this.data.join('\n'),
+            event: this.event,
+            id: this.id,
+            retry: this.retry,
+        };
+
+        this.data = [];
+        this.event = undefined;
+        this.id = undefined;
+        this.retry = undefined;
+
+        return hasData || event.retry !== undefined ? event : undefined;
+    }
+}
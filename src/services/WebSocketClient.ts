@@ -0,0 +1,315 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as crypto from 'crypto';
+import { Duplex } from 'stream';
+import { CookieStore } from './RequestExecutor';
+
+export interface WebSocketConnectOptions {
+    headers?: Record<string, string>;
+    protocols?: string[];
+    connectTimeout?: number;  // Milliseconds until the handshake completes (0 = no timeout)
+    cookies?: CookieStore;
+}
+
+export interface WebSocketHandlers {
+    onMessage(data: Buffer, binary: boolean): void;
+    onClose(code: number, reason: string): void;
+    onError(error: Error): void;
+}
+
+export interface WebSocketHandshake {
+    status: number;
+    headers: Record<string, string>;
+    protocol?: string;
+}
+
+// RFC 6455 constants
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+const CLOSE_TIMEOUT = 5000;
+
+/**
+ * WebSocketClient - Minimal RFC 6455 client on top of Node http/https
+ * Has no dependency on the vscode module so runners can use it too
+ */
+export class WebSocketClient {
+    private socket: Duplex;
+    private handlers: WebSocketHandlers;
+    private buffer: Buffer = Buffer.alloc(0);
+    private fragments: Buffer[] = [];
+    private fragmentOpcode = 0;
+    private closing = false;
+    private closed = false;
+    private closeTimer: NodeJS.Timeout | undefined;
+
+    readonly handshake: WebSocketHandshake;
+
+    private constructor(socket: Duplex, head: Buffer, handshake: WebSocketHandshake, handlers: WebSocketHandlers) {
+        this.socket = socket;
+        this.handshake = handshake;
+        this.handlers = handlers;
+
+        socket.on('data', (chunk: Buffer) => this.onData(chunk));
+        socket.on('error', (error: Error) => this.handlers.onError(error));
+        socket.on('close', () => this.finish(1006, 'Connection closed without a close frame'));
+
+        if (head.length > 0) {
+            this.onData(head);
+        }
+    }
+
+    /**
+     * Open a connection, resolves once the server accepted the handshake
+     */
+    static connect(url: string, options: WebSocketConnectOptions, handlers: WebSocketHandlers): Promise<WebSocketClient> {
+        return new Promise((resolve, reject) => {
+            const target = new URL(url);
+            if (target.protocol !== 'ws:' && target.protocol !== 'wss:') {
+                reject(new Error(`Unsupported WebSocket URL scheme: ${target.protocol}`));
+                return;
+            }
+
+            // http(s) URLs are what the cookie jar and servers know about
+            const httpUrl = `${target.protocol === 'wss:' ? 'https:' : 'http:'}//${target.host}${target.pathname}${target.search}`;
+            const key = crypto.randomBytes(16).toString('base64');
+            const headers: Record<string, string> = { ...options.headers };
+            headers['Connection'] = 'Upgrade';
+            headers['Upgrade'] = 'websocket';
+            headers['Sec-WebSocket-Version'] = '13';
+            headers['Sec-WebSocket-Key'] = key;
+            if (options.protocols && options.protocols.length > 0) {
+                headers['Sec-WebSocket-Protocol'] = options.protocols.join(', ');
+            }
+            const cookie = options.cookies?.getCookieHeader(httpUrl);
+            if (cookie) {
+                headers['Cookie'] = cookie;
+            }
+
+            const transport = target.protocol === 'wss:' ? https : http;
+            const request = transport.request(httpUrl, { method: 'GET', headers });
+
+            let timer: NodeJS.Timeout | undefined;
+            if (options.connectTimeout && options.connectTimeout > 0) {
+                timer = setTimeout(() => {
+                    request.destroy(new Error(`Connection timed out after ${options.connectTimeout}ms`));
+                }, options.connectTimeout);
+            }
+
+            request.on('upgrade', (response, socket, head) => {
+                clearTimeout(timer);
+                const responseHeaders = this.flattenHeaders(response.headers);
+                options.cookies?.setCookies(httpUrl, response.headers['set-cookie'] || []);
+
+                const expected = crypto.createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+                if (responseHeaders['sec-websocket-accept'] !== expected) {
+                    socket.destroy();
+                    reject(new Error('Invalid Sec-WebSocket-Accept header in the handshake response'));
+                    return;
+                }
+
+                const protocol = responseHeaders['sec-websocket-protocol'];
+                if (protocol && !options.protocols?.includes(protocol)) {
+                    socket.destroy();
+                    reject(new Error(`Server selected a subprotocol that was not requested: ${protocol}`));
+                    return;
+                }
+
+                resolve(new WebSocketClient(socket, head, { status: response.statusCode || 101, headers: responseHeaders, protocol }, handlers));
+            });
+
+            request.on('response', (response) => {
+                clearTimeout(timer);
+                options.cookies?.setCookies(httpUrl, response.headers['set-cookie'] || []);
+                response.resume();
+                reject(new Error(`Unexpected server response: ${response.statusCode} ${response.statusMessage || ''}`.trim()));
+            });
+
+            request.on('error', (error) => {
+                clearTimeout(timer);
+                reject(error);
+            });
+
+            request.end();
+        });
+    }
+
+    get isOpen(): boolean {
+        return !this.closing && !this.closed;
+    }
+
+    send(data: string | Buffer): void {
+        if (!this.isOpen) {
+            throw new Error('WebSocket is not open');
+        }
+        const binary = Buffer.isBuffer(data);
+        this.writeFrame(binary ? OPCODE_BINARY : OPCODE_TEXT, binary ? data : Buffer.from(data, 'utf8'));
+    }
+
+    ping(data: Buffer = Buffer.alloc(0)): void {
+        if (this.isOpen) {
+            this.writeFrame(OPCODE_PING, data);
+        }
+    }
+
+    /**
+     * Start the closing handshake, the socket is dropped if the server doesn't answer in time
+     */
+    close(code = 1000, reason = ''): void {
+        if (!this.isOpen) return;
+
+        this.closing = true;
+        const reasonBytes = Buffer.from(reason, 'utf8');
+        const payload = Buffer.alloc(2 + reasonBytes.length);
+        payload.writeUInt16BE(code, 0);
+        reasonBytes.copy(payload, 2);
+        this.writeFrame(OPCODE_CLOSE, payload);
+
+        this.closeTimer = setTimeout(() => {
+            this.socket.destroy();
+            this.finish(code, reason);
+        }, CLOSE_TIMEOUT);
+    }
+
+    private onData(chunk: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        while (!this.closed) {
+            const frame = this.readFrame();
+            if (!frame) return;
+            this.handleFrame(frame.fin, frame.opcode, frame.payload);
+        }
+    }
+
+    /**
+     * Take one complete frame off the buffer, or null if more bytes are needed
+     */
+    private readFrame(): { fin: boolean; opcode: number; payload: Buffer } | null {
+        const buffer = this.buffer;
+        if (buffer.length < 2) return null;
+
+        const fin = (buffer[0] & 0x80) !== 0;
+        const opcode = buffer[0] & 0x0f;
+        const masked = (buffer[1] & 0x80) !== 0;
+        let length = buffer[1] & 0x7f;
+        let offset = 2;
+
+        if (length === 126) {
+            if (buffer.length < 4) return null;
+            length = buffer.readUInt16BE(2);
+            offset = 4;
+        } else if (length === 127) {
+            if (buffer.length < 10) return null;
+            length = Number(buffer.readBigUInt64BE(2));
+            offset = 10;
+        }
+
+        const maskOffset = offset;
+        if (masked) offset += 4;
+        if (buffer.length < offset + length) return null;
+
+        const payload = Buffer.from(buffer.subarray(offset, offset + length));
+        if (masked) {
+            for (let i = 0; i < payload.length; i++) {
+                payload[i] ^= buffer[maskOffset + (i % 4)];
+            }
+        }
+
+        this.buffer = buffer.subarray(offset + length);
+        return { fin, opcode, payload };
+    }
+
+    private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+        switch (opcode) {
+            case OPCODE_TEXT:
+            case OPCODE_BINARY:
+            case OPCODE_CONTINUATION: {
+                if (opcode !== OPCODE_CONTINUATION) {
+                    this.fragmentOpcode = opcode;
+                    this.fragments = [];
+                }
+                this.fragments.push(payload);
+                if (fin) {
+                    const message = Buffer.concat(this.fragments);
+                    this.fragments = [];
+                    this.handlers.onMessage(message, this.fragmentOpcode === OPCODE_BINARY);
+                }
+                break;
+            }
+
+            case OPCODE_PING:
+                if (this.isOpen) this.writeFrame(OPCODE_PONG, payload);
+                break;
+
+            case OPCODE_PONG:
+                break;
+
+            case OPCODE_CLOSE: {
+                const code = payload.length >= 2 ? payload.readUInt16BE(0) : 1005;
+                const reason = payload.length > 2 ? payload.subarray(2).toString('utf8') : '';
+
+                // Echo the close frame unless we started the handshake
+                if (!this.closing) {
+                    this.closing = true;
+                    this.writeFrame(OPCODE_CLOSE, payload.subarray(0, 2));
+                }
+                this.socket.end();
+                this.finish(code, reason);
+                break;
+            }
+
+            default:
+                this.handlers.onError(new Error(`Unknown WebSocket opcode: ${opcode}`));
+                this.socket.destroy();
+        }
+    }
+
+    /**
+     * Client frames are always masked (RFC 6455 5.3)
+     */
+    private writeFrame(opcode: number, payload: Buffer): void {
+        let header: Buffer;
+        if (payload.length < 126) {
+            header = Buffer.alloc(2);
+            header[1] = 0x80 | payload.length;
+        } else if (payload.length < 65536) {
+            header = Buffer.alloc(4);
+            header[1] = 0x80 | 126;
+            header.writeUInt16BE(payload.length, 2);
+        } else {
+            header = Buffer.alloc(10);
+            header[1] = 0x80 | 127;
+            header.writeBigUInt64BE(BigInt(payload.length), 2);
+        }
+        header[0] = 0x80 | opcode;
+
+        const mask = crypto.randomBytes(4);
+        const masked = Buffer.alloc(payload.length);
+        for (let i = 0; i < payload.length; i++) {
+            masked[i] = payload[i] ^ mask[i % 4];
+        }
+
+        this.socket.write(Buffer.concat([header, mask, masked]));
+    }
+
+    private finish(code: number, reason: string): void {
+        if (this.closed) return;
+        this.closed = true;
+        clearTimeout(this.closeTimer);
+        this.handlers.onClose(code, reason);
+    }
+
+    private static flattenHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+        const result: Record<string, string> = {};
+        for (const [key, value] of Object.entries(headers)) {
+            if (value !== undefined) {
+                result[key] = Array.isArray(value) ? value.join(', ') : value;
+            }
+        }
+        return result;
+    }
+}
@@ -0,0 +1,38 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface TestServer {
+    url: string;
+    server: http.Server;
+    close(): Promise<void>;
+}
+
+/**
+ * Start an HTTP server on a free loopback port
+ */
+export function listen(handler: http.RequestListener): Promise<TestServer> {
+    const server = http.createServer(handler);
+    return new Promise((resolve) => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({
+                url: `http://127.0.0.1:${port}`,
+                server,
+                close: () => new Promise(done => {
+                    // Keep-alive sockets would hold close() open until they time out
+                    server.closeAllConnections();
+                    server.close(() => done());
+                }),
+            });
+        });
+    });
+}
+
+/**
+ * Read a request body as text
+ */
+export async function readText(request: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString('utf8');
+}
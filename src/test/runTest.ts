@@ -0,0 +1,12 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Runs the unit tests in suite/ with Node's built-in test runner. The services they
+ * cover have no dependency on the vscode module, or only a stubbed one, so no editor
+ * instance is started.
+ */
+const suite = path.join(__dirname, 'suite');
+for (const file of fs.readdirSync(suite).filter(name => name.endsWith('.test.js')).sort()) {
+    require(path.join(suite, file));
+}
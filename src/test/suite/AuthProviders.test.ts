@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import { describe, it, mock, afterEach } from 'node:test';
+import { AwsSigV4AuthProvider, DigestAuthProvider, HmacAuthProvider, JwtAuthProvider } from '../../services/AuthProviders';
+import { ExecuteResult } from '../../services/RequestExecutor';
+
+const same = (text: string) => text;
+// The module itself rather than the namespace copy above, so the providers see mocked methods
+const cryptoModule: typeof crypto = require('crypto');
+
+describe('AwsSigV4AuthProvider', () => {
+    // Credentials and expected signatures of the AWS Signature Version 4 test suite
+    const auth = {
+        type: 'awsv4',
+        accessKey: 'AKIDEXAMPLE',
+        secretKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+        region: 'us-east-1',
+        service: 'service',
+    };
+
+    afterEach(() => mock.timers.reset());
+
+    it('signs get-vanilla', () => {
+        mock.timers.enable({ apis: ['Date'], now: Date.UTC(2015, 7, 30, 12, 36, 0) });
+        const headers = new AwsSigV4AuthProvider().sign({ method: 'GET', url: 'https://example.amazonaws.com/', headers: {} }, auth, same);
+
+        assert.strictEqual(headers['X-Amz-Date'], '20150830T123600Z');
+        assert.strictEqual(
+            headers['Authorization'],
+            'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date, ' +
+            'Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+        );
+    });
+
+    it('sorts query parameters (get-vanilla-query-order-key-case)', () => {
+        mock.timers.enable({ apis: ['Date'], now: Date.UTC(2015, 7, 30, 12, 36, 0) });
+        const headers = new AwsSigV4AuthProvider().sign({ method: 'GET', url: 'https://example.amazonaws.com/?Param2=value2&Param1=value1', headers: {} }, auth, same);
+
+        assert.match(headers['Authorization'], /Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500$/);
+    });
+
+    it('adds the session token and signs it', () => {
+        const headers = new AwsSigV4AuthProvider().sign(
+            { method: 'GET', url: 'https://example.amazonaws.com/', headers: {} },
+            { ...auth, sessionToken: '{{token}}' },
+            (text) => text.replace('{{token}}', 'session-123')
+        );
+
+        assert.strictEqual(headers['X-Amz-Security-Token'], 'session-123');
+        assert.match(headers['Authorization'], /SignedHeaders=host;x-amz-date;x-amz-security-token,/);
+    });
+
+    it('requires both keys', () => {
+        assert.throws(() => new AwsSigV4AuthProvider().sign({ method: 'GET', url: 'https://example.amazonaws.com/', headers: {} }, { type: 'awsv4', accessKey: 'a' }, same), /secret key/);
+    });
+});
+
+describe('DigestAuthProvider', () => {
+    const challenge = 'Digest realm="testrealm@host.com", qop="auth,auth-int", nonce="dcd98b7102dd2f0e8b11d0f600bfb0c093", opaque="5ccc069c403ebaf9f0171e9517f40e41"';
+    const response = (wwwAuthenticate: string) => ({ status: 401, headers: { 'www-authenticate': wwwAuthenticate } }) as unknown as ExecuteResult;
+
+    afterEach(() => mock.restoreAll());
+
+    it('parses a challenge offered next to other schemes', () => {
+        assert.deepStrictEqual(DigestAuthProvider.parseChallenge(`Basic realm="x", ${challenge}`), {
+            realm: 'testrealm@host.com',
+            qop: 'auth,auth-int',
+            nonce: 'dcd98b7102dd2f0e8b11d0f600bfb0c093',
+            opaque: '5ccc069c403ebaf9f0171e9517f40e41',
+        });
+        assert.strictEqual(DigestAuthProvider.parseChallenge('Basic realm="x"'), undefined);
+    });
+
+    it('answers the RFC 2617 example', () => {
+        mock.method(cryptoModule, 'randomBytes', () => Buffer.from('0a4f113b', 'hex'));
+        const provider = new DigestAuthProvider();
+        const request = { method: 'GET', url: 'http://www.nowhere.org/dir/index.html', headers: {} };
+        const auth = { type: 'digest', username: 'Mufasa', password: 'Circle Of Life' };
+
+        assert.deepStrictEqual(provider.sign(request, auth, same), {});
+        const headers = provider.challenge(request, response(challenge), auth, same);
+
+        assert.ok(headers);
+        assert.match(headers['Authorization'], /^Digest username="Mufasa", realm="testrealm@host.com", nonce="dcd98b7102dd2f0e8b11d0f600bfb0c093", uri="\/dir\/index.html"/);
+        assert.match(headers['Authorization'], /response="6629fae49393a05397450978507c4ef1"/);
+        assert.match(headers['Authorization'], /qop=auth, nc=00000001, cnonce="0a4f113b", opaque="5ccc069c403ebaf9f0171e9517f40e41"$/);
+
+        // Later requests reuse the nonce with the next count
+        assert.match(provider.sign(request, auth, same)['Authorization'], /nc=00000002/);
+    });
+
+    it('ignores responses without a Digest challenge', () => {
+        const request = { method: 'GET', url: 'http://host/', headers: {} };
+        assert.strictEqual(new DigestAuthProvider().challenge(request, response('Bearer realm="x"'), { type: 'digest' }, same), undefined);
+    });
+});
+
+describe('HmacAuthProvider', () => {
+    afterEach(() => mock.timers.reset());
+
+    it('signs the default template', () => {
+        mock.timers.enable({ apis: ['Date'], now: 1700000000000 });
+        const headers = new HmacAuthProvider().sign({ method: 'post', url: 'https://api.test/orders?id=1', headers: {}, body: '{"a":1}' }, { type: 'hmac', secret: 'key' }, same);
+
+        const bodyHash = crypto.createHash('sha256').update('{"a":1}').digest('hex');
+        const expected = crypto.createHmac('sha256', 'key').update(`POST\n/orders?id=1\n1700000000\n${bodyHash}`).digest('hex');
+        assert.deepStrictEqual(headers, { 'X-Signature': expected, 'X-Timestamp': '1700000000' });
+    });
+
+    it('fills in headers and uses the chosen header names and encoding', () => {
+        const headers = new HmacAuthProvider().sign(
+            { method: 'GET', url: 'https://api.test/', headers: { 'X-Client': 'abc' } },
+            { type: 'hmac', secret: 'key', template: '{method} {header:x-client}', encoding: 'base64', headerName: 'Signature', timestampHeader: '' },
+            same
+        );
+
+        assert.deepStrictEqual(headers, { 'Signature': crypto.createHmac('sha256', 'key').update('GET abc').digest('base64') });
+    });
+});
+
+describe('JwtAuthProvider', () => {
+    afterEach(() => mock.timers.reset());
+
+    const decode = (part: string) => JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+
+    it('signs HS256 tokens with iat and exp', () => {
+        mock.timers.enable({ apis: ['Date'], now: 1700000000000 });
+        const token = new JwtAuthProvider().token({ type: 'jwt', secret: 'secret', payload: '{"sub":"{{user}}"}', expiresIn: '60', keyId: 'k1' }, (text) => text.replace('{{user}}', 'alice'));
+        const [header, claims, signature] = token.split('.');
+
+        assert.deepStrictEqual(decode(header), { alg: 'HS256', typ: 'JWT', kid: 'k1' });
+        assert.deepStrictEqual(decode(claims), { iat: 1700000000, exp: 1700000060, sub: 'alice' });
+        assert.strictEqual(signature, crypto.createHmac('sha256', 'secret').update(`${header}.${claims}`).digest('base64url'));
+    });
+
+    it('signs ES256 tokens verifiable with the public key', () => {
+        const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+        const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString().replace(/\n/g, '\\n');
+        const token = new JwtAuthProvider().token({ type: 'jwt', algorithm: 'ES256', secret: pem }, same);
+        const [header, claims, signature] = token.split('.');
+
+        assert.ok(crypto.verify('sha256', Buffer.from(`${header}.${claims}`), { key: publicKey, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url')));
+    });
+
+    it('sends the token with the prefix in the chosen header', () => {
+        const headers = new JwtAuthProvider().sign({ method: 'GET', url: 'https://api.test/', headers: {} }, { type: 'jwt', secret: 's', headerName: 'X-Token', prefix: '' }, same);
+        assert.deepStrictEqual(Object.keys(headers), ['X-Token']);
+        assert.strictEqual(headers['X-Token'].split('.').length, 3);
+    });
+
+    it('rejects payloads that are not objects', () => {
+        assert.throws(() => new JwtAuthProvider().token({ type: 'jwt', secret: 's', payload: '[1]' }, same), /must be a JSON object/);
+        assert.throws(() => new JwtAuthProvider().token({ type: 'jwt', algorithm: 'none', secret: 's' }, same), /Unsupported JWT algorithm/);
+    });
+});
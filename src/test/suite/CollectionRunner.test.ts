@@ -0,0 +1,176 @@
+import * as assert from 'assert';
+import { describe, it, before, after } from 'node:test';
+import { CollectionRunner, CollectionRunOptions } from '../../services/CollectionRunner';
+import { RequestExecutor } from '../../services/RequestExecutor';
+import { SavedRequest } from '../../services/RequestHistory';
+import { listen, TestServer } from '../helpers';
+
+let nextId = 0;
+
+function saved(request: Partial<SavedRequest> & Pick<SavedRequest, 'url'>): SavedRequest {
+    nextId++;
+    return { id: `r${nextId}`, name: `Request ${nextId}`, method: 'GET', headers: {}, bodyType: 'none', createdAt: 0, updatedAt: 0, ...request };
+}
+
+const statusIs = (value: string): SavedRequest['assertions'] => [{ source: 'status', operator: 'equals', value }];
+
+describe('CollectionRunner', () => {
+    const executor = new RequestExecutor();
+    let server: TestServer;
+    let paths: string[];
+
+    before(async () => {
+        // /status/<code> answers with that code; everything else echoes the path and the X-Token header
+        server = await listen((req, res) => {
+            paths.push(req.url!);
+            const match = /^\/status\/(\d+)/.exec(req.url!);
+            res.writeHead(match ? Number(match[1]) : 200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ path: req.url, token: req.headers['x-token'] ?? null, next: paths.length + 1 }));
+        });
+    });
+
+    after(async () => {
+        executor.dispose();
+        await server.close();
+    });
+
+    const options = (overrides: Partial<CollectionRunOptions> = {}): CollectionRunOptions => ({ iterations: 1, delay: 0, stopOnFailure: false, ...overrides });
+    const run = (requests: SavedRequest[], variables: Record<string, string>, overrides: Partial<CollectionRunOptions> = {}, runner = new CollectionRunner(executor)) => {
+        paths = [];
+        return runner.run(requests, variables, options(overrides));
+    };
+
+    it('runs the requests in order for each iteration', async () => {
+        const started: number[] = [];
+        paths = [];
+        const summary = await new CollectionRunner(executor).run(
+            [saved({ url: '{{base}}/a' }), saved({ url: '{{base}}/b' })],
+            { base: server.url },
+            options({ iterations: 3 }),
+            { onIteration: (iteration) => started.push(iteration) }
+        );
+
+        assert.deepStrictEqual(paths, ['/a', '/b', '/a', '/b', '/a', '/b']);
+        assert.deepStrictEqual(started, [1, 2, 3]);
+        assert.deepStrictEqual(summary.results.map(r => r.iteration), [1, 1, 2, 2, 3, 3]);
+        assert.strictEqual(summary.iterations, 3);
+        assert.strictEqual(summary.total, 6);
+        assert.strictEqual(summary.passed, 6);
+        assert.strictEqual(summary.stopped, false);
+    });
+
+    it('carries variables written by scripts over to later requests and iterations', async () => {
+        const written: [string, string | null][] = [];
+        const environment = { base: server.url, stale: 'yes' };
+        paths = [];
+        const summary = await new CollectionRunner(executor).run([
+            saved({ url: '{{base}}/login', scripts: { test: `api.variables.set('token', 'tok-' + api.response.json().next); api.variables.unset('stale');` } }),
+            saved({ url: '{{base}}/orders', headers: { 'X-Token': '{{token}}' }, scripts: { test: `api.test('has token', () => api.assert.strictEqual(api.response.json().token, api.variables.get('token')));` } }),
+            saved({ url: '{{base}}/check/{{stale}}' }),
+        ], environment, options({ iterations: 2 }), {
+            onVariable: (key, value) => { written.push([key, value]); },
+        });
+
+        assert.deepStrictEqual(paths, ['/login', '/orders', '/check/%7B%7Bstale%7D%7D', '/login', '/orders', '/check/%7B%7Bstale%7D%7D']);
+        assert.deepStrictEqual(summary.results.map(r => r.tests.map(t => t.passed)), [[], [true], [], [], [true], []]);
+        assert.deepStrictEqual(summary.variables, { base: server.url, token: 'tok-5' });
+        assert.deepStrictEqual(written.slice(0, 2), [['token', 'tok-2'], ['stale', null]]);
+        // The caller's variables are left alone
+        assert.deepStrictEqual(environment, { base: server.url, stale: 'yes' });
+    });
+
+    it('fails a request on a failed assertion, send error or pre-request script error', async () => {
+        const summary = await run([
+            saved({ url: `${server.url}/status/500`, assertions: statusIs('200') }),
+            saved({ url: 'http://127.0.0.1:1/refused' }),
+            saved({ url: `${server.url}/ok`, scripts: { preRequest: `throw new Error('no token')` } }),
+            saved({ url: `${server.url}/ok`, assertions: statusIs('200') }),
+        ], {});
+
+        assert.deepStrictEqual(summary.results.map(r => r.passed), [false, false, false, true]);
+        assert.strictEqual(summary.results[0].tests[0].passed, false);
+        assert.match(summary.results[1].error!, /ECONNREFUSED/);
+        assert.strictEqual(summary.results[2].error, 'Pre-request script failed: no token');
+        assert.deepStrictEqual(paths, ['/status/500', '/ok']);
+        assert.strictEqual(summary.failed, 3);
+        assert.strictEqual(summary.stopped, false);
+    });
+
+    it('stops at the first failure with stopOnFailure', async () => {
+        const summary = await run([
+            saved({ url: `${server.url}/one`, assertions: statusIs('200') }),
+            saved({ url: `${server.url}/status/404`, assertions: statusIs('200') }),
+            saved({ url: `${server.url}/three` }),
+        ], {}, { iterations: 3, stopOnFailure: true });
+
+        assert.deepStrictEqual(paths, ['/one', '/status/404']);
+        assert.strictEqual(summary.iterations, 1);
+        assert.strictEqual(summary.total, 2);
+        assert.strictEqual(summary.stopped, true);
+        assert.deepStrictEqual(summary.failedIterations, [1]);
+    });
+
+    it('skips WebSocket sessions and gRPC calls without failing', async () => {
+        const summary = await run([
+            saved({ method: 'WS', url: 'ws://127.0.0.1:1/socket' }),
+            saved({ method: 'GRPC', url: 'http://127.0.0.1:1/pkg.Service/Method' }),
+            saved({ url: `${server.url}/http` }),
+        ], {}, { stopOnFailure: true });
+
+        assert.deepStrictEqual(summary.results.map(r => r.skipped ?? false), [true, true, false]);
+        assert.strictEqual(summary.skipped, 2);
+        assert.strictEqual(summary.passed, 1);
+        assert.strictEqual(summary.failed, 0);
+    });
+
+    it('stops during the delay between requests when cancelled', async () => {
+        const runner = new CollectionRunner(executor);
+        const running = run([saved({ url: `${server.url}/one` }), saved({ url: `${server.url}/two` })], {}, { delay: 5000 }, runner);
+        setTimeout(() => runner.cancel(), 50);
+        const summary = await running;
+
+        assert.strictEqual(summary.stopped, true);
+        assert.deepStrictEqual(paths, ['/one']);
+        assert.ok(summary.time < 1000, `took ${summary.time}ms`);
+    });
+
+    describe('data rows', () => {
+        const rows = [{ user: 'ada', expect: '200' }, { user: 'bob', expect: '404' }, { user: 'cy', expect: '200' }];
+
+        it('runs once per row, ignoring iterations, with the columns over the environment', async () => {
+            const seen: (string | undefined)[] = [];
+            paths = [];
+            const summary = await new CollectionRunner(executor).run(
+                [saved({ url: '{{base}}/users/{{user}}', assertions: statusIs('{{expect}}') })],
+                { base: server.url, user: 'environment' },
+                options({ iterations: 5, data: rows }),
+                { onIteration: (_, row) => seen.push(row?.user) }
+            );
+
+            assert.deepStrictEqual(paths, ['/users/ada', '/users/bob', '/users/cy']);
+            assert.deepStrictEqual(seen, ['ada', 'bob', 'cy']);
+            assert.strictEqual(summary.iterations, 3);
+            // bob expected a 404 but got a 200
+            assert.deepStrictEqual(summary.failedIterations, [2]);
+            // Row values don't leak into the variables the run ends with
+            assert.strictEqual(summary.variables.user, 'environment');
+        });
+
+        it('writes script variables to the environment, under the row for later requests', async () => {
+            const summary = await run([
+                saved({ url: '{{base}}/first/{{user}}', scripts: { test: `api.variables.set('user', 'changed'); api.variables.set('seen', api.variables.get('user'));` } }),
+                saved({ url: '{{base}}/second/{{user}}/{{seen}}' }),
+            ], { base: server.url }, { data: rows.slice(0, 2) });
+
+            assert.deepStrictEqual(paths, ['/first/ada', '/second/ada/changed', '/first/bob', '/second/bob/changed']);
+            assert.strictEqual(summary.variables.user, 'changed');
+        });
+
+        it('re-runs only the rows asked for, skipping ones out of range', async () => {
+            const summary = await run([saved({ url: '{{base}}/users/{{user}}' })], { base: server.url }, { data: rows, rows: [3, 1, 7] });
+
+            assert.deepStrictEqual(paths, ['/users/cy', '/users/ada']);
+            assert.deepStrictEqual(summary.results.map(r => r.iteration), [3, 1]);
+        });
+    });
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { describe, it, mock, afterEach } from 'node:test';
+import { CookieJar, CookieJarState } from '../../services/CookieJar';
+
+function memoryState(): CookieJarState {
+    const values = new Map<string, unknown>();
+    return {
+        get: <T>(key: string, defaultValue: T) => (values.has(key) ? values.get(key) as T : defaultValue),
+        update: async (key: string, value: unknown) => { values.set(key, value); },
+    };
+}
+
+describe('CookieJar', () => {
+    afterEach(() => mock.timers.reset());
+
+    it('sends host-only cookies to the same host only', () => {
+        const jar = new CookieJar(memoryState());
+        jar.setCookies(undefined, 'https://api.example.com/login', ['session=abc; Path=/']);
+
+        assert.strictEqual(jar.getCookieHeader(undefined, 'https://api.example.com/items'), 'session=abc');
+        assert.strictEqual(jar.getCookieHeader(undefined, 'https://sub.api.example.com/items'), undefined);
+        assert.strictEqual(jar.getCookieHeader(undefined, 'https://example.com/items'), undefined);
+    });
+
+    it('sends domain cookies to subdomains and rejects foreign domains', () => {
+        const jar = new CookieJar(memoryState());
+        jar.setCookies(undefined, 'https://api.example.com/', ['a=1; Domain=.Example.com', 'b=2; Domain=other.com', 'c=3; Domain=pi.example.com']);
+
+        assert.strictEqual(jar.getCookieHeader(undefined, 'https://www.example.com/'), 'a=1');
+        assert.strictEqual(jar.getCookieHeader(undefined, 'https://example.com/'), 'a=1');
+        // Suffix matching stops at label boundaries
+        assert.strictEqual(jar.getCookieHeader(undefined, 'https://notexample.com/'), undefined);
+        assert.deepStrictEqual(jar.getCookies().map(c => c.name), ['a']);
+    });
+
+    it('matches paths on segment boundaries and defaults to the request directory', () => {
+        const jar = new CookieJar(memoryState());
+        jar.setCookies(undefined, 'http://host.test/app/login', ['dir=1', 'docs=2; Path=/docs', 'slash=3; Path=/docs/']);
+
+        assert.strictEqual(jar.getCookies().find(c => c.name === 'dir')?.path, '/app');
+        assert.strictEqual(jar.getCookieHeader(undefined, 'http://host.test/app'), 'dir=1');
+        assert.strictEqual(jar.getCookieHeader(undefined, 'http://host.test/app/x/y'), 'dir=1');
+        assert.strictEqual(jar.getCookieHeader(undefined, 'http://host.test/apple'), undefined);
+        assert.strictEqual(jar.getCookieHeader(undefined, 'http://host.test/docs'), 'docs=2');
+        assert.strictEqual(jar.getCookieHeader(undefined, 'http://host.test/docsearch'), undefined);
+        // Longer paths come first
+        assert.strictEqual(jar.getCookieHeader(undefined, 'http://host.test/docs/page'), 'slash=3; docs=2');
+    });
+
+    it('keeps secure cookies off plain http', () => {
+        const jar = new CookieJar(memoryState());
+        jar.setCookies(undefined, 'https://host.test/', ['id=1; Secure; HttpOnly']);
+
+        assert.strictEqual(jar.getCookieHeader(undefined, 'http://host.test/'), undefined);
+        assert.strictEqual(jar.getCookieHeader(undefined, 'https://host.test/'), 'id=1');
+        assert.strictEqual(jar.getCookies()[0].httpOnly, true);
+    });
+
+    it('expires cookies, with Max-Age over Expires, and deletes them when told to', () => {
+        mock.timers.enable({ apis: ['Date'], now: Date.UTC(2024, 0, 1) });
+        const jar = new CookieJar(memoryState());
+        jar.setCookies(undefined, 'https://host.test/', ['short=1; Max-Age=60; Expires=Wed, 01 Jan 2025 00:00:00 GMT', 'long=2; Expires=Wed, 01 Jan 2025 00:00:00 GMT']);
+        assert.strictEqual(jar.getCookieHeader(undefined, 'https://host.test/'), 'short=1; long=2');
+
+        mock.timers.tick(61_000);
+        assert.strictEqual(jar.getCookieHeader(undefined, 'https://host.test/'), 'long=2');
+
+        jar.setCookies(undefined, 'https://host.test/', ['long=; Max-Age=0']);
+        assert.strictEqual(jar.getCookieHeader(undefined, 'https://host.test/'), undefined);
+    });
+
+    it('replaces cookies with the same name, domain and path and scopes them per environment', () => {
+        const jar = new CookieJar(memoryState());
+        jar.setCookies('dev', 'https://host.test/', ['token=old']);
+        jar.setCookies('dev', 'https://host.test/', ['token=new']);
+
+        assert.strictEqual(jar.getCookieHeader('dev', 'https://host.test/'), 'token=new');
+        assert.strictEqual(jar.getCookieHeader('prod', 'https://host.test/'), undefined);
+        assert.strictEqual(jar.getCookieHeader(undefined, 'https://host.test/'), undefined);
+    });
+
+    it('ignores malformed Set-Cookie headers', () => {
+        const jar = new CookieJar(memoryState());
+        jar.setCookies(undefined, 'https://host.test/', ['novalue', '=nameless']);
+        assert.deepStrictEqual(jar.getCookies(), []);
+    });
+});
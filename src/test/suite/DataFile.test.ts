@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DataFile } from '../../services/DataFile';
+
+describe('DataFile', () => {
+    it('reads CSV rows keyed by the header row', () => {
+        assert.deepStrictEqual(DataFile.parse('﻿name, age\r\nAda,36\r\nAlan,41\r\n', 'users.csv'), [
+            { name: 'Ada', age: '36' },
+            { name: 'Alan', age: '41' },
+        ]);
+    });
+
+    it('reads quoted CSV fields with commas, quotes and line breaks', () => {
+        assert.deepStrictEqual(DataFile.parse('id,note\n1,"a, b"\n2,"say ""hi"""\n3,"two\nlines"', 'data.txt'), [
+            { id: '1', note: 'a, b' },
+            { id: '2', note: 'say "hi"' },
+            { id: '3', note: 'two\nlines' },
+        ]);
+    });
+
+    it('skips blank records and fills in short ones', () => {
+        assert.deepStrictEqual(DataFile.parse('a,b,\n\n1\n,\n2,3,4\n', 'rows.csv'), [
+            { a: '1', b: '' },
+            { a: '2', b: '3' },
+        ]);
+        assert.deepStrictEqual(DataFile.parse('\n\n', 'empty.csv'), []);
+    });
+
+    it('rejects unclosed quotes', () => {
+        assert.throws(() => DataFile.parse('a\n"open', 'bad.csv'), /bad\.csv has a quoted field that is never closed/);
+    });
+
+    it('reads JSON arrays of objects, keeping nested values as JSON', () => {
+        assert.deepStrictEqual(DataFile.parse('[{"id":1,"ok":true,"tags":["x"],"none":null}]', 'rows.JSON'), [
+            { id: '1', ok: 'true', tags: '["x"]', none: '' },
+        ]);
+    });
+
+    it('rejects JSON that is not an array of objects', () => {
+        assert.throws(() => DataFile.parse('{"id":1}', 'rows.json'), /rows\.json must hold an array of objects/);
+        assert.throws(() => DataFile.parse('[{"id":1},2]', 'rows.json'), /Row 2 of rows\.json is not an object/);
+        assert.throws(() => DataFile.parse('[', 'rows.json'), /rows\.json is not valid JSON/);
+    });
+});
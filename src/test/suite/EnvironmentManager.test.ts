@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import type * as vscode from 'vscode';
+import { describe, it } from 'node:test';
+import type { Environment, EnvironmentManager as EnvironmentManagerClass } from '../../services/EnvironmentManager';
+
+/**
+ * EnvironmentManager watches .env files through the vscode module, which only exists inside the
+ * editor. It is loaded with a stand-in for the little of that module it uses, with no folder open.
+ */
+const moduleLoader = require('module') as { _load(request: string, ...rest: unknown[]): unknown };
+const load = moduleLoader._load;
+moduleLoader._load = function (request: string, ...rest: unknown[]) {
+    if (request !== 'vscode') return load.call(this, request, ...rest);
+    return {
+        workspace: {
+            workspaceFolders: undefined,
+            createFileSystemWatcher: () => ({ onDidChange: () => undefined, onDidCreate: () => undefined, onDidDelete: () => undefined, dispose: () => undefined }),
+        },
+    };
+};
+const { EnvironmentManager } = require('../../services/EnvironmentManager') as { EnvironmentManager: typeof EnvironmentManagerClass };
+moduleLoader._load = load;
+
+const SECRETS_KEY = 'apiTester.environmentSecrets';
+
+function extensionContext(state = new Map<string, unknown>(), secrets = new Map<string, string>()) {
+    const context = {
+        globalState: {
+            get: <T>(key: string, defaultValue?: T) => (state.has(key) ? JSON.parse(JSON.stringify(state.get(key))) as T : defaultValue),
+            update: async (key: string, value: unknown) => { state.set(key, JSON.parse(JSON.stringify(value))); },
+        },
+        secrets: {
+            get: async (key: string) => secrets.get(key),
+            store: async (key: string, value: string) => { secrets.set(key, value); },
+            delete: async (key: string) => { secrets.delete(key); },
+        },
+    };
+    return { context: context as unknown as vscode.ExtensionContext, state, secrets };
+}
+
+const stored = (state: Map<string, unknown>) => state.get('apiTester.environments') as Environment[];
+
+describe('EnvironmentManager', () => {
+    it('keeps the values of secret variables out of globalState', async () => {
+        const { context, state, secrets } = extensionContext();
+        const manager = new EnvironmentManager(context);
+        const env = await manager.createEnvironment('Staging', { baseUrl: 'https://staging.test', apiKey: 'sk-live-1' }, ['apiKey']);
+        await manager.setVariable(env.id, 'password', 'hunter2', true);
+
+        assert.ok(!JSON.stringify([...state.values()]).includes('sk-live-1'));
+        assert.ok(!JSON.stringify([...state.values()]).includes('hunter2'));
+        assert.deepStrictEqual(stored(state)[0].variables, { baseUrl: 'https://staging.test' });
+        assert.deepStrictEqual(stored(state)[0].secrets, ['apiKey', 'password']);
+        assert.deepStrictEqual(JSON.parse(secrets.get(SECRETS_KEY)!), { [env.id]: { apiKey: 'sk-live-1', password: 'hunter2' } });
+
+        const [loaded] = await manager.getEnvironments();
+        assert.deepStrictEqual(loaded.variables, { baseUrl: 'https://staging.test', apiKey: 'sk-live-1', password: 'hunter2' });
+        assert.deepStrictEqual((await manager.getSecretValues()).sort(), ['hunter2', 'sk-live-1']);
+    });
+
+    it('moves a value between the stores when a variable is marked secret or plain', async () => {
+        const { context, state, secrets } = extensionContext();
+        const manager = new EnvironmentManager(context);
+        const env = await manager.createEnvironment('Dev', { token: 't-1', user: 'ada' });
+
+        await manager.setVariableSecret(env.id, 'token', true);
+        assert.deepStrictEqual(stored(state)[0].variables, { user: 'ada' });
+        assert.deepStrictEqual(JSON.parse(secrets.get(SECRETS_KEY)!), { [env.id]: { token: 't-1' } });
+
+        await manager.setVariableSecret(env.id, 'token', false);
+        assert.deepStrictEqual(stored(state)[0].variables, { token: 't-1', user: 'ada' });
+        assert.strictEqual(stored(state)[0].secrets, undefined);
+        assert.deepStrictEqual(JSON.parse(secrets.get(SECRETS_KEY)!), {});
+
+        await manager.setVariable(env.id, 'token', 't-2', true);
+        await manager.deleteVariable(env.id, 'token');
+        assert.deepStrictEqual(JSON.parse(secrets.get(SECRETS_KEY)!), {});
+        assert.strictEqual(stored(state)[0].secrets, undefined);
+    });
+
+    it('exports secret variables with empty values', async () => {
+        const { context } = extensionContext();
+        const manager = new EnvironmentManager(context);
+        const env = await manager.createEnvironment('Prod', { baseUrl: 'https://api.test', apiKey: 'sk-live-2' }, ['apiKey']);
+
+        const exported = await manager.exportEnvironment(env.id);
+        assert.ok(!exported!.includes('sk-live-2'));
+        assert.deepStrictEqual(JSON.parse(exported!).variables, { baseUrl: 'https://api.test', apiKey: '' });
+        assert.deepStrictEqual(JSON.parse(exported!).secrets, ['apiKey']);
+
+        // Importing it back keeps the variable secret, ready for its value to be filled in
+        const imported = await manager.importEnvironment(exported!);
+        assert.deepStrictEqual(imported!.secrets, ['apiKey']);
+        assert.strictEqual(await manager.exportEnvironment('missing'), null);
+    });
+
+    it('interpolates secret variables once ready() resolves', async () => {
+        const { context, state, secrets } = extensionContext();
+        const first = new EnvironmentManager(context);
+        await first.createEnvironment('Staging', { baseUrl: 'https://staging.test', apiKey: 'sk-live-3' }, ['apiKey']);
+
+        // A new session: globalState is there at once, SecretStorage has to be read first
+        const manager = new EnvironmentManager(extensionContext(state, secrets).context);
+        assert.strictEqual(manager.interpolate('{{baseUrl}}?key={{apiKey}}'), 'https://staging.test?key={{apiKey}}');
+
+        await manager.ready();
+        assert.strictEqual(manager.interpolate('{{baseUrl}}?key={{apiKey}}'), 'https://staging.test?key=sk-live-3');
+        assert.strictEqual(manager.interpolate('${apiKey}/{{ missing }}', { missing: 'given' }), 'sk-live-3/given');
+    });
+});
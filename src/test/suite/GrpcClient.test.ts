@@ -0,0 +1,260 @@
+import * as assert from 'assert';
+import * as http2 from 'http2';
+import * as net from 'net';
+import * as zlib from 'zlib';
+import { describe, it, before, after } from 'node:test';
+import { GrpcClient, GrpcHandlers } from '../../services/GrpcClient';
+import { RequestExecutor } from '../../services/RequestExecutor';
+import { listen, TestServer } from '../helpers';
+
+/**
+ * Length-prefixed message as a gRPC server writes it
+ */
+function frame(payload: Buffer | string, flags = 0): Buffer {
+    const body = Buffer.from(payload);
+    const header = Buffer.alloc(5);
+    header[0] = flags;
+    header.writeUInt32BE(body.length, 1);
+    return Buffer.concat([header, body]);
+}
+
+/**
+ * Collects the messages a call receives, as text
+ */
+function collect(): GrpcHandlers & { messages: string[]; headers?: Record<string, string> } {
+    const received: GrpcHandlers & { messages: string[]; headers?: Record<string, string> } = {
+        messages: [],
+        onHeaders: (headers) => { received.headers = headers; },
+        onMessage: (message) => { received.messages.push(message.toString('utf8')); },
+    };
+    return received;
+}
+
+async function readBody(stream: NodeJS.ReadableStream): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+}
+
+describe('GrpcClient', () => {
+    const executor = new RequestExecutor();
+    const client = new GrpcClient(executor);
+
+    describe('native gRPC over HTTP/2', () => {
+        let server: http2.Http2Server;
+        let url: string;
+        let lastHeaders: http2.IncomingHttpHeaders;
+        let lastBody: Buffer;
+
+        before(async () => {
+            // An in-process server for a Greeter service; each method exercises one part of the protocol
+            server = http2.createServer();
+            server.on('stream', async (stream, headers) => {
+                lastHeaders = headers;
+                lastBody = await readBody(stream);
+                const name = lastBody.subarray(5).toString('utf8');
+                const ok = { ':status': 200, 'content-type': 'application/grpc+proto', 'x-served-by': 'test' };
+
+                switch (headers[':path']) {
+                    case '/test.Greeter/SayHello':
+                        stream.respond(ok, { waitForTrailers: true });
+                        stream.on('wantTrailers', () => stream.sendTrailers({ 'grpc-status': '0', 'x-request-cost': '3' }));
+                        stream.end(frame(`Hello ${name}`));
+                        break;
+                    case '/test.Greeter/CountTo': {
+                        stream.respond(ok, { waitForTrailers: true });
+                        stream.on('wantTrailers', () => stream.sendTrailers({ 'grpc-status': '0' }));
+                        // Frames split across writes, and one sent gzipped
+                        const frames = Buffer.concat([frame('one'), frame(zlib.gzipSync('two'), 0x01), frame('three')]);
+                        stream.write(frames.subarray(0, 7));
+                        setTimeout(() => stream.end(frames.subarray(7)), 10);
+                        break;
+                    }
+                    case '/test.Greeter/Fail':
+                        stream.respond(ok, { waitForTrailers: true });
+                        stream.on('wantTrailers', () => stream.sendTrailers({ 'grpc-status': '5', 'grpc-message': encodeURIComponent(`No user "${name}"`) }));
+                        stream.end(frame('partial'));
+                        break;
+                    case '/test.Greeter/Deny':
+                        // Trailers-only response: the status comes in the headers
+                        stream.respond({ ...ok, 'grpc-status': '16', 'grpc-message': 'Missing%20token' }, { endStream: true });
+                        break;
+                    case '/test.Greeter/Hang':
+                        stream.respond(ok);
+                        stream.write(frame('started'));
+                        break;
+                    default:
+                        stream.respond({ ':status': 404 }, { endStream: true });
+                }
+            });
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            url = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+        });
+
+        after(async () => {
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        it('makes a unary call with metadata and reads the trailers', async () => {
+            const handlers = collect();
+            const result = await client.call('unary', `${url}/test.Greeter/SayHello`, Buffer.from('Ada'), {
+                metadata: { 'Authorization': 'Bearer t', 'content-type': 'text/plain', ':path': '/other' },
+                timeout: 5000,
+            }, handlers);
+
+            assert.deepStrictEqual(handlers.messages, ['Hello Ada']);
+            assert.strictEqual(handlers.headers?.['x-served-by'], 'test');
+            assert.strictEqual(result.status, 0);
+            assert.strictEqual(result.statusName, 'OK');
+            assert.strictEqual(result.trailers['x-request-cost'], '3');
+            assert.strictEqual(result.size, 5 + 'Hello Ada'.length);
+
+            assert.deepStrictEqual(lastBody, frame('Ada'));
+            assert.strictEqual(lastHeaders['authorization'], 'Bearer t');
+            // Metadata can't override the transport's own headers
+            assert.strictEqual(lastHeaders['content-type'], 'application/grpc+proto');
+            assert.strictEqual(lastHeaders[':path'], '/test.Greeter/SayHello');
+            assert.strictEqual(lastHeaders['te'], 'trailers');
+            assert.strictEqual(lastHeaders['grpc-timeout'], '5000m');
+        });
+
+        it('emits each message of a server stream, across chunks and compressed', async () => {
+            const handlers = collect();
+            const result = await client.call('stream', `${url}/test.Greeter/CountTo`, Buffer.from('3'), {}, handlers);
+
+            assert.deepStrictEqual(handlers.messages, ['one', 'two', 'three']);
+            assert.strictEqual(result.status, 0);
+            assert.strictEqual(lastHeaders['grpc-timeout'], undefined);
+        });
+
+        it('resolves with the grpc-status and decoded grpc-message of a failed call', async () => {
+            const handlers = collect();
+            const result = await client.call('fail', `${url}/test.Greeter/Fail`, Buffer.from('bob'), {}, handlers);
+
+            assert.strictEqual(result.status, 5);
+            assert.strictEqual(result.statusName, 'NOT_FOUND');
+            assert.strictEqual(result.message, 'No user "bob"');
+            assert.deepStrictEqual(handlers.messages, ['partial']);
+            assert.strictEqual(GrpcClient.httpStatus(result.status), 404);
+        });
+
+        it('reads the status from the headers of a trailers-only response', async () => {
+            const result = await client.call('deny', `${url}/test.Greeter/Deny`, Buffer.alloc(0), {}, collect());
+
+            assert.strictEqual(result.statusName, 'UNAUTHENTICATED');
+            assert.strictEqual(result.message, 'Missing token');
+            assert.deepStrictEqual(result.trailers, {});
+        });
+
+        it('maps an HTTP error without a grpc-status to UNKNOWN', async () => {
+            const result = await client.call('missing', `${url}/test.Greeter/Nothing`, Buffer.alloc(0), {}, collect());
+
+            assert.strictEqual(result.statusName, 'UNKNOWN');
+            assert.strictEqual(result.message, 'HTTP status 404');
+        });
+
+        it('ends with DEADLINE_EXCEEDED or CANCELLED and keeps the messages received', async () => {
+            const late = collect();
+            const expired = await client.call('late', `${url}/test.Greeter/Hang`, Buffer.alloc(0), { timeout: 100 }, late);
+            assert.strictEqual(expired.statusName, 'DEADLINE_EXCEEDED');
+            assert.strictEqual(expired.message, 'Deadline of 100ms exceeded');
+            assert.deepStrictEqual(late.messages, ['started']);
+
+            const stopped = collect();
+            stopped.onHeaders = () => setTimeout(() => client.cancel('stopped'), 20);
+            const cancelled = await client.call('stopped', `${url}/test.Greeter/Hang`, Buffer.alloc(0), {}, stopped);
+            assert.strictEqual(cancelled.statusName, 'CANCELLED');
+            assert.deepStrictEqual(stopped.messages, ['started']);
+            assert.strictEqual(client.cancel('stopped'), false);
+        });
+
+        it('rejects when the server cannot be reached', async () => {
+            const closed = net.createServer();
+            await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+            const port = (closed.address() as net.AddressInfo).port;
+            await new Promise(resolve => closed.close(resolve));
+
+            await assert.rejects(client.call('refused', `http://127.0.0.1:${port}/test.Greeter/SayHello`, Buffer.alloc(0), {}, collect()), /ECONNREFUSED/);
+        });
+    });
+
+    describe('gRPC-Web over the executor', () => {
+        let server: TestServer;
+        let lastHeaders: Record<string, string | string[] | undefined>;
+        let lastBody: Buffer;
+
+        before(async () => {
+            server = await listen(async (req, res) => {
+                lastHeaders = req.headers;
+                lastBody = await readBody(req);
+                const name = lastBody.subarray(5).toString('utf8');
+
+                switch (req.url) {
+                    case '/test.Greeter/CountTo':
+                        res.writeHead(200, { 'Content-Type': 'application/grpc-web+proto' });
+                        res.write(frame(`Hello ${name}`));
+                        res.end(Buffer.concat([frame('again'), frame('grpc-status: 0\r\nx-request-cost: 2\r\n', 0x80)]));
+                        break;
+                    case '/test.Greeter/Fail':
+                        res.writeHead(200, { 'Content-Type': 'application/grpc-web+proto' });
+                        res.end(frame('grpc-status: 7\r\ngrpc-message: Not%20allowed\r\n', 0x80));
+                        break;
+                    case '/test.Greeter/Deny':
+                        // Trailers-only: the status comes in the HTTP headers
+                        res.writeHead(200, { 'Content-Type': 'application/grpc-web+proto', 'grpc-status': '14', 'grpc-message': 'Down' });
+                        res.end();
+                        break;
+                    case '/test.Greeter/Hang':
+                        res.writeHead(200, { 'Content-Type': 'application/grpc-web+proto' });
+                        res.write(frame('started'));
+                        break;
+                    default:
+                        res.writeHead(502);
+                        res.end('Bad gateway');
+                }
+            });
+        });
+
+        after(async () => {
+            executor.dispose();
+            await server.close();
+        });
+
+        it('streams the messages and reads the status from the trailer frame', async () => {
+            const handlers = collect();
+            const result = await client.call('web', `${server.url}/test.Greeter/CountTo`, Buffer.from('Ada'), { web: true, metadata: { 'x-trace': '1', 'X-Grpc-Web': '0' } }, handlers);
+
+            assert.deepStrictEqual(handlers.messages, ['Hello Ada', 'again']);
+            assert.strictEqual(handlers.headers?.['content-type'], 'application/grpc-web+proto');
+            assert.strictEqual(result.statusName, 'OK');
+            assert.deepStrictEqual(result.trailers, { 'grpc-status': '0', 'x-request-cost': '2' });
+
+            assert.deepStrictEqual(lastBody, frame('Ada'));
+            assert.strictEqual(lastHeaders['content-type'], 'application/grpc-web+proto');
+            assert.strictEqual(lastHeaders['x-grpc-web'], '1');
+            assert.strictEqual(lastHeaders['x-trace'], '1');
+        });
+
+        it('resolves with the status of a failed or trailers-only call', async () => {
+            const failed = await client.call('web-fail', `${server.url}/test.Greeter/Fail`, Buffer.alloc(0), { web: true }, collect());
+            assert.strictEqual(failed.statusName, 'PERMISSION_DENIED');
+            assert.strictEqual(failed.message, 'Not allowed');
+
+            const denied = await client.call('web-deny', `${server.url}/test.Greeter/Deny`, Buffer.alloc(0), { web: true }, collect());
+            assert.strictEqual(denied.statusName, 'UNAVAILABLE');
+            assert.strictEqual(denied.message, 'Down');
+
+            const proxied = await client.call('web-502', `${server.url}/test.Greeter/Nothing`, Buffer.alloc(0), { web: true }, collect());
+            assert.strictEqual(proxied.statusName, 'UNKNOWN');
+            assert.strictEqual(proxied.message, 'HTTP status 502');
+        });
+
+        it('ends at the deadline and keeps the messages received', async () => {
+            const handlers = collect();
+            const result = await client.call('web-late', `${server.url}/test.Greeter/Hang`, Buffer.alloc(0), { web: true, timeout: 100 }, handlers);
+
+            assert.strictEqual(result.statusName, 'DEADLINE_EXCEEDED');
+            assert.deepStrictEqual(handlers.messages, ['started']);
+        });
+    });
+});
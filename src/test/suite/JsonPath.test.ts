@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { JsonPath } from '../../services/JsonPath';
+
+const store = {
+    store: {
+        book: [
+            { category: 'reference', author: 'Nigel Rees', title: 'Sayings of the Century', price: 8.95 },
+            { category: 'fiction', author: 'Evelyn Waugh', title: 'Sword of Honour', price: 12.99 },
+            { category: 'fiction', author: 'Herman Melville', title: 'Moby Dick', isbn: '0-553-21311-3', price: 8.99 },
+            { category: 'fiction', author: 'J. R. R. Tolkien', title: 'The Lord of the Rings', isbn: '0-395-19395-8', price: 22.99 },
+        ],
+        bicycle: { color: 'red', price: 19.95 },
+    },
+};
+
+describe('JsonPath', () => {
+    it('selects children by name, index and quoted name', () => {
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.bicycle.color'), ['red']);
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.book[0].title'), ['Sayings of the Century']);
+        assert.deepStrictEqual(JsonPath.query(store, '$[\'store\']["bicycle"].price'), [19.95]);
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.book[-1].author'), ['J. R. R. Tolkien']);
+        assert.deepStrictEqual(JsonPath.query(store, '$'), [store]);
+    });
+
+    it('selects nothing for missing members', () => {
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.car'), []);
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.book[10]'), []);
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.bicycle[0]'), []);
+    });
+
+    it('selects wildcards and unions in document order', () => {
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.book[*].price'), [8.95, 12.99, 8.99, 22.99]);
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.bicycle.*'), ['red', 19.95]);
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.book[0,2].author'), ['Nigel Rees', 'Herman Melville']);
+    });
+
+    it('selects descendants', () => {
+        assert.deepStrictEqual(JsonPath.query(store, '$..author'), ['Nigel Rees', 'Evelyn Waugh', 'Herman Melville', 'J. R. R. Tolkien']);
+        assert.deepStrictEqual(JsonPath.query(store, '$.store..price'), [8.95, 12.99, 8.99, 22.99, 19.95]);
+        assert.deepStrictEqual(JsonPath.query(store, '$..book[2].isbn'), ['0-553-21311-3']);
+    });
+
+    it('selects slices', () => {
+        const titles = (expression: string) => JsonPath.query(store, expression).map(book => (book as { title: string }).title);
+        assert.deepStrictEqual(titles('$.store.book[:2]'), ['Sayings of the Century', 'Sword of Honour']);
+        assert.deepStrictEqual(titles('$.store.book[-2:]'), ['Moby Dick', 'The Lord of the Rings']);
+        assert.deepStrictEqual(titles('$.store.book[::2]'), ['Sayings of the Century', 'Moby Dick']);
+        assert.deepStrictEqual(titles('$.store.book[::-1]').length, 4);
+        assert.strictEqual(titles('$.store.book[::-1]')[0], 'The Lord of the Rings');
+    });
+
+    it('filters by existence, comparison and pattern', () => {
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.book[?(@.isbn)].title'), ['Moby Dick', 'The Lord of the Rings']);
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.book[?(@.price < 10)].title'), ['Sayings of the Century', 'Moby Dick']);
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.book[?(@.category == "reference")].author'), ['Nigel Rees']);
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.book[?(@.category != \'fiction\')].author'), ['Nigel Rees']);
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.book[?(@.author =~ "^J")].price'), [22.99]);
+        // Values of different types never compare
+        assert.deepStrictEqual(JsonPath.query(store, '$.store.book[?(@.price > "1")]'), []);
+    });
+
+    it('rejects malformed expressions', () => {
+        assert.throws(() => JsonPath.query(store, '$.store[0'), /Invalid JSONPath "\$\.store\[0": Expected "\]"/);
+        assert.throws(() => JsonPath.query(store, '$.store.book[::0]'), /Slice step cannot be 0/);
+        assert.throws(() => JsonPath.query(store, '$store'), /Unexpected "s"/);
+        assert.throws(() => JsonPath.query(store, '$.book[?(@.price < x)]'), /Expected a string, number, true, false or null/);
+    });
+
+    it('compares values structurally', () => {
+        assert.ok(JsonPath.equals({ a: [1, { b: null }] }, { a: [1, { b: null }] }));
+        assert.ok(!JsonPath.equals({ a: 1 }, { a: 1, b: undefined }));
+        assert.ok(!JsonPath.equals([1, 2], { 0: 1, 1: 2 }));
+        assert.ok(!JsonPath.equals(1, '1'));
+    });
+});
@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import { LoadTester, LoadTestPoint } from '../../services/LoadTester';
+import { ExecuteRequest, ExecuteResult, RequestExecutor } from '../../services/RequestExecutor';
+import { listen, TestServer } from '../helpers';
+
+/**
+ * Answers at once with preset response times, so percentiles can be checked exactly
+ */
+class FixedTimeExecutor extends RequestExecutor {
+    private next = 0;
+
+    constructor(private readonly times: number[]) {
+        super();
+    }
+
+    async execute(_id: string, request: ExecuteRequest): Promise<ExecuteResult> {
+        return { status: 200, statusText: 'OK', headers: {}, url: request.url, time: this.times[this.next++ % this.times.length] } as ExecuteResult;
+    }
+}
+
+describe('LoadTester', () => {
+    const executor = new RequestExecutor();
+    let server: TestServer;
+    let inFlight: number;
+    let maxInFlight: number;
+    let received: number;
+
+    before(async () => {
+        server = await listen((req, res) => {
+            received++;
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            // /cycle answers 200, 404 and 500 in turn
+            const status = req.url === '/cycle' ? [200, 404, 500][(received - 1) % 3] : 200;
+            setTimeout(() => {
+                inFlight--;
+                res.writeHead(status);
+                res.end();
+            }, 20);
+        });
+    });
+
+    beforeEach(() => {
+        inFlight = 0;
+        maxInFlight = 0;
+        received = 0;
+    });
+
+    after(async () => {
+        executor.dispose();
+        await server.close();
+    });
+
+    const prepare = (path = '/') => async () => ({ request: { method: 'GET', url: `${server.url}${path}`, headers: {} }, options: {} });
+
+    it('never has more requests in flight than the concurrency', async () => {
+        const stats = await new LoadTester(executor).run(prepare(), { concurrency: 3, requests: 12 });
+
+        assert.strictEqual(stats.total, 12);
+        assert.strictEqual(received, 12);
+        assert.strictEqual(maxInFlight, 3);
+        assert.strictEqual(stats.stopped, false);
+    });
+
+    it('sends exactly the requested count, defaulting to one per worker', async () => {
+        assert.strictEqual((await new LoadTester(executor).run(prepare(), { concurrency: 3, requests: 7 })).total, 7);
+        assert.strictEqual((await new LoadTester(executor).run(prepare(), { concurrency: 4 })).total, 4);
+        assert.strictEqual(received, 11);
+    });
+
+    it('keeps sending until the duration is up, ignoring the count', async () => {
+        const stats = await new LoadTester(executor).run(prepare(), { concurrency: 2, requests: 1, duration: 200 });
+
+        assert.ok(stats.total >= 8, `sent ${stats.total}`);
+        assert.ok(stats.elapsed >= 200 && stats.elapsed < 400, `took ${stats.elapsed}ms`);
+        assert.ok(stats.throughput > 0);
+    });
+
+    it('starts workers evenly over the ramp-up', async () => {
+        const points: LoadTestPoint[] = [];
+        await new LoadTester(executor).run(prepare(), { concurrency: 4, duration: 400, rampUp: 300, interval: 50 }, {
+            onProgress: (_, point) => points.push(point),
+        });
+
+        const workers = points.map(point => point.workers);
+        assert.ok(workers[0] <= 2, `workers ${workers}`);
+        assert.strictEqual(workers[workers.length - 1], 4);
+        assert.ok(workers.every((count, i) => i === 0 || count >= workers[i - 1]), `workers ${workers}`);
+        // One started at 0, 75, 150 and 225ms: all of them only in the second half
+        assert.ok(points.filter(point => point.time < 200).every(point => point.workers < 4), `workers ${workers}`);
+    });
+
+    it('counts statuses and treats 4xx, 5xx and send failures as errors', async () => {
+        const stats = await new LoadTester(executor).run(prepare('/cycle'), { concurrency: 1, requests: 9 });
+        assert.deepStrictEqual(stats.statuses, { 200: 3, 404: 3, 500: 3 });
+        assert.strictEqual(stats.errors, 6);
+        assert.strictEqual(stats.errorRate, 6 / 9);
+
+        const failing = await new LoadTester(executor).run(async () => { throw new Error('Variable file missing'); }, { concurrency: 2, requests: 4 });
+        assert.deepStrictEqual(failing.failures, { 'Variable file missing': 4 });
+        assert.deepStrictEqual(failing.statuses, {});
+        assert.strictEqual(failing.errorRate, 1);
+    });
+
+    it('reports nearest-rank latency percentiles', async () => {
+        // 1 to 100ms in shuffled order
+        const times = Array.from({ length: 100 }, (_, i) => (i * 37) % 100 + 1);
+        const stats = await new LoadTester(new FixedTimeExecutor(times)).run(prepare(), { concurrency: 5, requests: 100 });
+
+        assert.deepStrictEqual(stats.latency, { min: 1, mean: 51, p50: 50, p90: 90, p99: 99, max: 100 });
+
+        const few = await new LoadTester(new FixedTimeExecutor([10, 30, 20])).run(prepare(), { concurrency: 1, requests: 3 });
+        assert.deepStrictEqual(few.latency, { min: 10, mean: 20, p50: 20, p90: 30, p99: 30, max: 30 });
+    });
+
+    it('stops early when cancelled, leaving out the requests it aborted', async () => {
+        const tester = new LoadTester(executor);
+        const running = tester.run(prepare(), { concurrency: 2, duration: 5000, rampUp: 1000 });
+        setTimeout(() => tester.cancel(), 100);
+        const stats = await running;
+
+        assert.strictEqual(stats.stopped, true);
+        assert.ok(stats.elapsed < 1000, `took ${stats.elapsed}ms`);
+        assert.deepStrictEqual(stats.failures, {});
+    });
+});
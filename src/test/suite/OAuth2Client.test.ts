@@ -0,0 +1,257 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import { OAuth2Client, OAuth2Config, OAuth2TokenStore } from '../../services/OAuth2Client';
+import { RequestExecutor } from '../../services/RequestExecutor';
+import { listen, readText, TestServer } from '../helpers';
+
+function memoryStore(): OAuth2TokenStore & { values: Map<string, string> } {
+    const values = new Map<string, string>();
+    return {
+        values,
+        get: async (key: string) => values.get(key),
+        store: async (key: string, value: string) => { values.set(key, value); },
+    };
+}
+
+/**
+ * Follow the authorization URL the way a browser would after the user signs in
+ */
+async function signIn(url: string, override: Record<string, string> = {}): Promise<void> {
+    const authorize = new URL(url);
+    const callback = new URL(authorize.searchParams.get('redirect_uri')!);
+    callback.searchParams.set('code', 'the-code');
+    callback.searchParams.set('state', authorize.searchParams.get('state')!);
+    for (const [key, value] of Object.entries(override)) {
+        if (value) callback.searchParams.set(key, value); else callback.searchParams.delete(key);
+    }
+    await fetch(callback);
+}
+
+describe('OAuth2Client', () => {
+    const executor = new RequestExecutor();
+    let server: TestServer;
+    let requests: { authorization?: string; form: URLSearchParams }[];
+    let challenge: string | undefined;
+    let nextExpiresIn: number;
+    let refreshFails: boolean;
+
+    before(async () => {
+        // A mock authorization server's token endpoint
+        server = await listen(async (req, res) => {
+            const form = new URLSearchParams(await readText(req));
+            requests.push({ authorization: req.headers.authorization, form });
+            const reply = (status: number, body: object) => {
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(body));
+            };
+
+            switch (form.get('grant_type')) {
+                case 'client_credentials':
+                    if (req.headers.authorization !== `Basic ${Buffer.from('app:s3cret').toString('base64')}` && form.get('client_secret') !== 's3cret') {
+                        return reply(401, { error: 'invalid_client' });
+                    }
+                    return reply(200, { access_token: `cc-${requests.length}`, token_type: 'bearer', expires_in: nextExpiresIn });
+                case 'password':
+                    return reply(200, { access_token: `pw-${requests.length}`, refresh_token: 'refresh-1', expires_in: nextExpiresIn });
+                case 'refresh_token':
+                    if (refreshFails) return reply(400, { error: 'invalid_grant' });
+                    return reply(200, { access_token: `refreshed-${requests.length}`, expires_in: nextExpiresIn });
+                case 'authorization_code': {
+                    const verifier = form.get('code_verifier') || '';
+                    const expected = crypto.createHash('sha256').update(verifier).digest('base64url');
+                    if (form.get('code') !== 'the-code' || expected !== challenge) return reply(400, { error: 'invalid_grant' });
+                    return reply(200, { access_token: 'ac-token', refresh_token: 'ac-refresh' });
+                }
+                default:
+                    return reply(400, { error: 'unsupported_grant_type' });
+            }
+        });
+    });
+
+    beforeEach(() => {
+        requests = [];
+        challenge = undefined;
+        nextExpiresIn = 3600;
+        refreshFails = false;
+    });
+
+    afterEach(() => mock.timers.reset());
+
+    after(async () => {
+        executor.dispose();
+        await server.close();
+    });
+
+    const clientCredentials = (): OAuth2Config => ({ grantType: 'client_credentials', tokenUrl: `${server.url}/token`, clientId: 'app', clientSecret: 's3cret', scope: 'read write' });
+    const passwordGrant = (): OAuth2Config => ({ grantType: 'password', tokenUrl: `${server.url}/token`, clientId: 'app', username: 'ada', password: 'pw' });
+
+    describe('client credentials and password grants', () => {
+        it('sends the client secret with Basic auth by default', async () => {
+            const token = await new OAuth2Client(executor, memoryStore()).fetchToken(clientCredentials());
+
+            assert.strictEqual(token.accessToken, 'cc-1');
+            assert.strictEqual(token.tokenType, 'bearer');
+            assert.strictEqual(token.scope, 'read write');
+            assert.strictEqual(token.expiresAt, token.issuedAt + 3600 * 1000);
+            assert.strictEqual(requests[0].form.get('scope'), 'read write');
+            assert.strictEqual(requests[0].form.get('client_id'), null);
+        });
+
+        it('sends the client secret in the body when asked to', async () => {
+            await new OAuth2Client(executor, memoryStore()).fetchToken({ ...clientCredentials(), clientAuth: 'body' });
+
+            assert.strictEqual(requests[0].authorization, undefined);
+            assert.strictEqual(requests[0].form.get('client_id'), 'app');
+            assert.strictEqual(requests[0].form.get('client_secret'), 's3cret');
+        });
+
+        it('reports the error the token endpoint returns', async () => {
+            await assert.rejects(
+                new OAuth2Client(executor, memoryStore()).fetchToken({ ...clientCredentials(), clientSecret: 'wrong' }),
+                { message: 'Token request failed: invalid_client' }
+            );
+        });
+
+        it('sends the resource owner credentials with the password grant', async () => {
+            const token = await new OAuth2Client(executor, memoryStore()).fetchToken(passwordGrant());
+
+            assert.strictEqual(token.accessToken, 'pw-1');
+            assert.strictEqual(token.refreshToken, 'refresh-1');
+            assert.strictEqual(requests[0].form.get('username'), 'ada');
+            assert.strictEqual(requests[0].form.get('password'), 'pw');
+            // A public client identifies itself in the body
+            assert.strictEqual(requests[0].form.get('client_id'), 'app');
+            await assert.rejects(new OAuth2Client(executor, memoryStore()).fetchToken({ ...passwordGrant(), username: '' }), /needs a username/);
+        });
+    });
+
+    describe('caching and refresh', () => {
+        it('reuses a fresh token per environment and shares concurrent fetches', async () => {
+            const client = new OAuth2Client(executor, memoryStore());
+            const [first, second] = await Promise.all([client.getToken(clientCredentials(), 'dev'), client.getToken(clientCredentials(), 'dev')]);
+
+            assert.strictEqual(first.accessToken, 'cc-1');
+            assert.strictEqual(second.accessToken, 'cc-1');
+            assert.strictEqual((await client.getToken(clientCredentials(), 'dev')).accessToken, 'cc-1');
+            assert.strictEqual(requests.length, 1);
+
+            assert.strictEqual((await client.getToken(clientCredentials(), 'prod')).accessToken, 'cc-2');
+            assert.strictEqual((await client.getToken(clientCredentials(), 'dev', { force: true })).accessToken, 'cc-3');
+        });
+
+        it('keeps tokens in the store so a new client starts with them', async () => {
+            const store = memoryStore();
+            await new OAuth2Client(executor, store).getToken(clientCredentials(), 'dev');
+
+            const restarted = new OAuth2Client(executor, store);
+            assert.strictEqual((await restarted.getCachedToken(clientCredentials(), 'dev'))?.accessToken, 'cc-1');
+            assert.strictEqual((await restarted.getToken(clientCredentials(), 'dev')).accessToken, 'cc-1');
+            assert.strictEqual(requests.length, 1);
+
+            await restarted.clearToken(clientCredentials(), 'dev');
+            assert.strictEqual(await new OAuth2Client(executor, store).getCachedToken(clientCredentials(), 'dev'), undefined);
+        });
+
+        it('refreshes shortly before expiry and keeps a refresh token that was not rotated', async () => {
+            mock.timers.enable({ apis: ['Date'], now: Date.UTC(2024, 0, 1) });
+            const client = new OAuth2Client(executor, memoryStore());
+            nextExpiresIn = 600;
+            await client.getToken(passwordGrant(), undefined);
+
+            // A tenth of a short lifetime before expiry, the cached token is still used
+            mock.timers.tick(539_000);
+            assert.strictEqual((await client.getToken(passwordGrant(), undefined)).accessToken, 'pw-1');
+
+            mock.timers.tick(2_000);
+            const refreshed = await client.getToken(passwordGrant(), undefined);
+            assert.strictEqual(refreshed.accessToken, 'refreshed-2');
+            assert.strictEqual(refreshed.refreshToken, 'refresh-1');
+            assert.strictEqual(requests[1].form.get('grant_type'), 'refresh_token');
+            assert.strictEqual(requests[1].form.get('refresh_token'), 'refresh-1');
+        });
+
+        it('starts over when the refresh token is rejected', async () => {
+            mock.timers.enable({ apis: ['Date'], now: Date.UTC(2024, 0, 1) });
+            const client = new OAuth2Client(executor, memoryStore());
+            await client.getToken(passwordGrant(), undefined);
+
+            refreshFails = true;
+            mock.timers.tick(3600_000);
+            assert.strictEqual((await client.getToken(passwordGrant(), undefined)).accessToken, 'pw-3');
+            assert.deepStrictEqual(requests.map(r => r.form.get('grant_type')), ['password', 'refresh_token', 'password']);
+        });
+    });
+
+    describe('authorization code grant', () => {
+        const authorizationCode = (): OAuth2Config => ({
+            grantType: 'authorization_code',
+            tokenUrl: `${server.url}/token`,
+            authorizationUrl: 'https://auth.test/authorize?audience=api',
+            clientId: 'app',
+            scope: 'openid',
+        });
+
+        it('sends a PKCE challenge and trades the code and verifier for a token', async () => {
+            const client = new OAuth2Client(executor, memoryStore());
+            const token = await client.fetchToken(authorizationCode(), {
+                openBrowser: (url) => {
+                    const authorize = new URL(url);
+                    assert.strictEqual(authorize.origin + authorize.pathname, 'https://auth.test/authorize');
+                    assert.strictEqual(authorize.searchParams.get('audience'), 'api');
+                    assert.strictEqual(authorize.searchParams.get('response_type'), 'code');
+                    assert.strictEqual(authorize.searchParams.get('client_id'), 'app');
+                    assert.strictEqual(authorize.searchParams.get('scope'), 'openid');
+                    assert.strictEqual(authorize.searchParams.get('code_challenge_method'), 'S256');
+                    assert.match(authorize.searchParams.get('redirect_uri')!, /^http:\/\/127\.0\.0\.1:\d+\/callback$/);
+                    challenge = authorize.searchParams.get('code_challenge')!;
+                    void signIn(url);
+                },
+            });
+
+            assert.strictEqual(token.accessToken, 'ac-token');
+            assert.strictEqual(requests[0].form.get('code'), 'the-code');
+            assert.match(requests[0].form.get('code_verifier')!, /^[A-Za-z0-9_-]{43}$/);
+        });
+
+        it('rejects a redirect with the wrong state', async () => {
+            const client = new OAuth2Client(executor, memoryStore());
+            await assert.rejects(
+                client.fetchToken(authorizationCode(), { openBrowser: (url) => { void signIn(url, { state: 'forged' }); } }),
+                /wrong state/
+            );
+            assert.strictEqual(requests.length, 0);
+        });
+
+        it('reports an error the authorization server redirects back with', async () => {
+            const client = new OAuth2Client(executor, memoryStore());
+            await assert.rejects(
+                client.fetchToken(authorizationCode(), { openBrowser: (url) => { void signIn(url, { code: '', error: 'access_denied' }); } }),
+                { message: 'Authorization failed: access_denied' }
+            );
+        });
+
+        it('fails at once when the browser cannot be opened', async () => {
+            const client = new OAuth2Client(executor, memoryStore());
+            await assert.rejects(client.fetchToken(authorizationCode(), { openBrowser: async () => false }), { message: 'Could not open the browser to sign in' });
+            await assert.rejects(client.fetchToken(authorizationCode()), /needs a browser/);
+        });
+
+        it('gives up when nobody signs in', async () => {
+            mock.timers.enable({ apis: ['setTimeout'] });
+            const client = new OAuth2Client(executor, memoryStore());
+            await assert.rejects(
+                client.fetchToken(authorizationCode(), { openBrowser: () => { mock.timers.tick(5 * 60 * 1000); } }),
+                { message: 'Timed out waiting for the authorization server to redirect back' }
+            );
+        });
+
+        it('only listens on loopback addresses', async () => {
+            const client = new OAuth2Client(executor, memoryStore());
+            await assert.rejects(
+                client.fetchToken({ ...authorizationCode(), redirectUri: 'http://example.com/callback' }, { openBrowser: () => undefined }),
+                /must be a loopback address/
+            );
+        });
+    });
+});
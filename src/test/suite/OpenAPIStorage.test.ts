@@ -0,0 +1,195 @@
+import * as assert from 'assert';
+import type * as vscode from 'vscode';
+import { describe, it } from 'node:test';
+import { OpenAPIConverter } from '../../services/OpenAPIConverter';
+import { OpenAPIStorage } from '../../services/OpenAPIStorage';
+import { SavedRequest } from '../../services/RequestHistory';
+import { OpenAPIDocument, OpenAPIOperation, OpenAPISecurityScheme } from '../../types/openapi';
+
+/**
+ * The parts of an extension context the storage uses, kept in memory like the CLI's
+ */
+function extensionContext(state = new Map<string, unknown>(), secrets = new Map<string, string>()) {
+    const context = {
+        globalState: {
+            get: <T>(key: string, defaultValue?: T) => (state.has(key) ? state.get(key) as T : defaultValue),
+            update: async (key: string, value: unknown) => { state.set(key, JSON.parse(JSON.stringify(value))); },
+        },
+        secrets: {
+            get: async (key: string) => secrets.get(key),
+            store: async (key: string, value: string) => { secrets.set(key, value); },
+            delete: async (key: string) => { secrets.delete(key); },
+        },
+    };
+    return { context: context as unknown as vscode.ExtensionContext, state, secrets };
+}
+
+type NewRequest = Omit<SavedRequest, 'id' | 'createdAt' | 'updatedAt'>;
+
+function request(auth: SavedRequest['auth'], url = 'https://api.test/orders'): NewRequest {
+    return { name: 'Orders', method: 'GET', url, headers: {}, bodyType: 'none', auth };
+}
+
+describe('OpenAPIConverter auth', () => {
+    const roundTrip = (auth: SavedRequest['auth'], securitySchemes: Record<string, OpenAPISecurityScheme> = {}) => {
+        const operation: OpenAPIOperation = { responses: {} };
+        const literal = OpenAPIConverter.writeAuth(operation, auth, securitySchemes);
+        return { operation, literal, securitySchemes, read: OpenAPIConverter.readAuth(JSON.parse(JSON.stringify(operation)), securitySchemes) };
+    };
+
+    it('keeps {{variable}} references on the operation and returns credentials typed in', () => {
+        const { operation, literal, securitySchemes, read } = roundTrip({ type: 'basic', username: '{{user}}', password: 'hunter2' });
+
+        assert.deepStrictEqual(operation.security, [{ basicAuth: [] }]);
+        assert.deepStrictEqual(securitySchemes, { basicAuth: { type: 'http', scheme: 'basic' } });
+        assert.deepStrictEqual(operation['x-auth-credentials'], { username: '{{user}}' });
+        assert.deepStrictEqual(literal, { password: 'hunter2' });
+        assert.ok(!JSON.stringify(operation).includes('hunter2'));
+        assert.deepStrictEqual(read, { type: 'basic', username: '{{user}}', password: '' });
+    });
+
+    it('describes API keys and OAuth 2.0 as security schemes and reads them back', () => {
+        const apiKey = roundTrip({ type: 'apikey', key: 'api_key', value: '${KEY}', addTo: 'query' });
+        assert.deepStrictEqual(apiKey.securitySchemes, { apiKeyAuth: { type: 'apiKey', in: 'query', name: 'api_key' } });
+        assert.deepStrictEqual(apiKey.literal, {});
+        assert.deepStrictEqual(apiKey.read, { type: 'apikey', key: 'api_key', value: '${KEY}', addTo: 'query' });
+
+        const oauth2 = roundTrip({
+            type: 'oauth2', grantType: 'authorization_code', tokenUrl: 'https://auth.test/token', authorizationUrl: 'https://auth.test/authorize',
+            clientId: '{{clientId}}', clientSecret: 'shh', scope: 'read write', redirectUri: 'http://127.0.0.1:8765/callback',
+        });
+        assert.deepStrictEqual(oauth2.operation.security, [{ oauth2Auth: ['read', 'write'] }]);
+        assert.deepStrictEqual(oauth2.literal, { clientSecret: 'shh' });
+        assert.deepStrictEqual(oauth2.read, {
+            type: 'oauth2', grantType: 'authorization_code', tokenUrl: 'https://auth.test/token', authorizationUrl: 'https://auth.test/authorize',
+            scope: 'read write', redirectUri: 'http://127.0.0.1:8765/callback', clientAuth: undefined, clientId: '{{clientId}}',
+        });
+    });
+
+    it('reuses a matching scheme and numbers a different one with the same name', () => {
+        const securitySchemes: Record<string, OpenAPISecurityScheme> = {};
+        assert.deepStrictEqual(roundTrip({ type: 'apikey', key: 'X-API-Key', value: 'a' }, securitySchemes).operation.security, [{ apiKeyAuth: [] }]);
+        assert.deepStrictEqual(roundTrip({ type: 'apikey', key: 'X-API-Key', value: 'b' }, securitySchemes).operation.security, [{ apiKeyAuth: [] }]);
+        assert.deepStrictEqual(roundTrip({ type: 'apikey', key: 'X-Other', value: 'c' }, securitySchemes).operation.security, [{ apiKeyAuth2: [] }]);
+        assert.deepStrictEqual(Object.keys(securitySchemes), ['apiKeyAuth', 'apiKeyAuth2']);
+    });
+
+    it('clears the security of an operation whose auth was removed', () => {
+        const operation: OpenAPIOperation = { responses: {}, security: [{ bearerAuth: [] }], 'x-auth-credentials': { token: '{{token}}' } };
+        assert.deepStrictEqual(OpenAPIConverter.writeAuth(operation, { type: 'none' }, {}), {});
+        assert.strictEqual(operation.security, undefined);
+        assert.strictEqual(operation['x-auth-credentials'], undefined);
+        assert.deepStrictEqual(OpenAPIConverter.readAuth(operation), { type: 'none' });
+    });
+});
+
+describe('OpenAPIStorage', () => {
+    it('keeps typed-in credentials in SecretStorage and out of the document', async () => {
+        const { context, state, secrets } = extensionContext();
+        const storage = new OpenAPIStorage(context);
+        const saved = await storage.saveRequest(request({ type: 'bearer', token: 'live-token-123' }));
+
+        assert.ok(!JSON.stringify(state.get('apiTester.openapi')).includes('live-token-123'));
+        assert.ok(!storage.exportJSON().includes('live-token-123'));
+        assert.deepStrictEqual(JSON.parse(secrets.get('apiTester.authCredentials')!), { [saved.id]: { token: 'live-token-123' } });
+        assert.deepStrictEqual((await storage.getRequests())[0].auth, { type: 'bearer', token: 'live-token-123' });
+
+        // A new session reads them back from both stores
+        const reloaded = new OpenAPIStorage(context);
+        assert.deepStrictEqual((await reloaded.getRequests())[0].auth, { type: 'bearer', token: 'live-token-123' });
+    });
+
+    it('saves references in the document and forgets credentials no longer typed in', async () => {
+        const { context, secrets } = extensionContext();
+        const storage = new OpenAPIStorage(context);
+        await storage.saveRequest(request({ type: 'bearer', token: 'live-token-123' }));
+        await storage.saveRequest(request({ type: 'bearer', token: '{{token}}' }));
+
+        const operation = storage.getDocument().paths['/orders'].get!;
+        assert.deepStrictEqual(operation['x-auth-credentials'], { token: '{{token}}' });
+        assert.deepStrictEqual(JSON.parse(secrets.get('apiTester.authCredentials')!), {});
+        assert.deepStrictEqual((await storage.getRequests())[0].auth, { type: 'bearer', token: '{{token}}' });
+    });
+
+    it('drops security schemes nothing refers to any more', async () => {
+        const { context } = extensionContext();
+        const storage = new OpenAPIStorage(context);
+        await storage.saveRequest(request({ type: 'basic', username: 'ada', password: 'pw' }));
+        await storage.saveRequest(request({ type: 'bearer', token: '{{token}}' }, 'https://api.test/users'));
+        assert.deepStrictEqual(Object.keys(storage.getDocument().components!.securitySchemes!), ['basicAuth', 'bearerAuth']);
+
+        await storage.saveRequest(request({ type: 'bearer', token: '{{token}}' }));
+        assert.deepStrictEqual(Object.keys(storage.getDocument().components!.securitySchemes!), ['bearerAuth']);
+
+        await storage.deleteRequest('https://api.test/orders', 'GET');
+        await storage.deleteRequest('https://api.test/users', 'GET');
+        assert.strictEqual(storage.getDocument().components, undefined);
+    });
+
+    it('deletes the credentials of a deleted request', async () => {
+        const { context, secrets } = extensionContext();
+        const storage = new OpenAPIStorage(context);
+        await storage.saveRequest(request({ type: 'apikey', key: 'X-API-Key', value: 'k-1' }));
+        await storage.saveRequest(request({ type: 'apikey', key: 'X-API-Key', value: 'k-2' }, 'https://api.test/users'));
+
+        await storage.deleteRequest('https://api.test/orders', 'GET');
+        const remaining = JSON.parse(secrets.get('apiTester.authCredentials')!);
+        assert.deepStrictEqual(Object.values(remaining), [{ value: 'k-2' }]);
+
+        await storage.clear();
+        assert.strictEqual(secrets.has('apiTester.authCredentials'), false);
+    });
+
+    it('renames imported security schemes that clash with ours', async () => {
+        const { context } = extensionContext();
+        const storage = new OpenAPIStorage(context);
+        await storage.saveRequest(request({ type: 'apikey', key: 'X-API-Key', value: '{{key}}' }));
+        await storage.saveRequest(request({ type: 'bearer', token: '{{token}}' }, 'https://api.test/users'));
+
+        const imported: OpenAPIDocument = {
+            openapi: '3.0.3',
+            info: { title: 'Partner API', version: '1.0.0' },
+            paths: {
+                '/partners': { get: { operationId: 'p1', responses: {}, security: [{ apiKeyAuth: [] }], 'x-auth-credentials': { value: '{{partnerKey}}' } } },
+                '/tokens': { get: { operationId: 'p2', responses: {}, security: [{ bearerAuth: [] }] } },
+            },
+            components: {
+                securitySchemes: {
+                    apiKeyAuth: { type: 'apiKey', in: 'query', name: 'partner_key' },
+                    bearerAuth: { type: 'http', scheme: 'bearer' },
+                },
+            },
+        };
+        assert.deepStrictEqual(await storage.importJSON(JSON.stringify(imported)), { imported: 2, errors: [] });
+
+        const document = storage.getDocument();
+        assert.deepStrictEqual(document.components!.securitySchemes, {
+            apiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+            bearerAuth: { type: 'http', scheme: 'bearer' },
+            apiKeyAuth2: { type: 'apiKey', in: 'query', name: 'partner_key' },
+        });
+        assert.deepStrictEqual(document.paths['/partners'].get!.security, [{ apiKeyAuth2: [] }]);
+        // An identical scheme is shared rather than renamed
+        assert.deepStrictEqual(document.paths['/tokens'].get!.security, [{ bearerAuth: [] }]);
+
+        const partners = (await storage.getRequests()).find(r => r.id === 'p1')!;
+        assert.deepStrictEqual(partners.auth, { type: 'apikey', key: 'partner_key', value: '{{partnerKey}}', addTo: 'query' });
+        const orders = (await storage.getRequests()).find(r => r.url.endsWith('/orders'))!;
+        assert.deepStrictEqual(orders.auth, { type: 'apikey', key: 'X-API-Key', value: '{{key}}', addTo: 'header' });
+    });
+
+    it('moves credentials of requests saved in the legacy format to SecretStorage', async () => {
+        const legacy: SavedRequest[] = [{
+            id: 'old', name: 'Legacy', method: 'GET', url: 'https://api.test/legacy', headers: {}, bodyType: 'none',
+            auth: { type: 'basic', username: '{{user}}', password: 'old-password' }, createdAt: 0, updatedAt: 0,
+        }];
+        const { context, state, secrets } = extensionContext(new Map([['apiTester.savedRequests', legacy]]));
+        const storage = new OpenAPIStorage(context);
+        const [migrated] = await storage.getRequests();
+        await new Promise(resolve => setImmediate(resolve));
+
+        assert.deepStrictEqual(migrated.auth, { type: 'basic', username: '{{user}}', password: 'old-password' });
+        assert.ok(!JSON.stringify(state.get('apiTester.openapi')).includes('old-password'));
+        assert.ok(secrets.get('apiTester.authCredentials')!.includes('old-password'));
+    });
+});
@@ -0,0 +1,204 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { ProtoParser } from '../../services/ProtoParser';
+import { ProtobufCodec } from '../../services/ProtobufCodec';
+
+const SOURCE = `
+syntax = "proto3";
+package shop.v1;
+
+option java_package = "com.example.shop";
+
+/* Orders placed in the shop */
+message Order {
+    reserved 9, 10;
+    string id = 1;
+    int64 total_cents = 2;
+    repeated int32 quantities = 3;
+    Status status = 4;
+    map<string, Item> items = 5;
+    oneof payment {
+        string card = 6;
+        bytes voucher = 7 [json_name = "voucherCode"];
+    }
+    sint32 adjustment = 8;
+    Item.Kind kind = 11;
+    repeated Item extras = 12;
+
+    message Item {
+        enum Kind { KIND_UNSPECIFIED = 0; PHYSICAL = 1; DIGITAL = 2 [deprecated = true]; }
+        string sku = 1;
+        fixed64 serial = 2;
+        double price = 3;
+    }
+}
+
+enum Status {
+    STATUS_UNSPECIFIED = 0;
+    PAID = 1;
+    REFUNDED = -1;
+}
+
+service Orders {
+    option deprecated = false;
+    rpc Get (Order) returns (Order);
+    rpc Watch (Order) returns (stream Order) {}
+    rpc Upload (stream .shop.v1.Order) returns (Order);
+}
+`;
+
+describe('ProtoParser', () => {
+    const registry = ProtoParser.parse(SOURCE, 'shop.proto');
+
+    it('registers messages and enums under their qualified names', () => {
+        assert.deepStrictEqual(Object.keys(registry.types).sort(), ['shop.v1.Order', 'shop.v1.Order.Item', 'shop.v1.Order.Item.Kind', 'shop.v1.Status']);
+        assert.deepStrictEqual(registry.types['shop.v1.Status'], { kind: 'enum', fullName: 'shop.v1.Status', values: { STATUS_UNSPECIFIED: 0, PAID: 1, REFUNDED: -1 } });
+        assert.deepStrictEqual(registry.warnings, []);
+    });
+
+    it('reads fields with labels, maps, oneofs, json names and resolved types', () => {
+        const order = registry.types['shop.v1.Order'];
+        assert.ok(order.kind === 'message');
+        const field = (name: string) => order.fields.find(f => f.name === name);
+
+        assert.deepStrictEqual(field('total_cents'), { name: 'total_cents', jsonName: 'totalCents', number: 2, type: 'int64', repeated: false, map: undefined, oneof: undefined });
+        assert.strictEqual(field('quantities')?.repeated, true);
+        assert.strictEqual(field('status')?.type, 'shop.v1.Status');
+        assert.deepStrictEqual(field('items')?.map, { keyType: 'string', valueType: 'shop.v1.Order.Item' });
+        assert.strictEqual(field('card')?.oneof, 'payment');
+        assert.strictEqual(field('voucher')?.jsonName, 'voucherCode');
+        assert.strictEqual(field('kind')?.type, 'shop.v1.Order.Item.Kind');
+    });
+
+    it('reads services and their streaming modes', () => {
+        assert.deepStrictEqual(registry.services, [{
+            fullName: 'shop.v1.Orders',
+            file: 'shop.proto',
+            methods: [
+                { name: 'Get', requestType: 'shop.v1.Order', responseType: 'shop.v1.Order', clientStreaming: false, serverStreaming: false },
+                { name: 'Watch', requestType: 'shop.v1.Order', responseType: 'shop.v1.Order', clientStreaming: false, serverStreaming: true },
+                { name: 'Upload', requestType: 'shop.v1.Order', responseType: 'shop.v1.Order', clientStreaming: true, serverStreaming: false },
+            ],
+        }]);
+    });
+
+    it('warns about unknown types and fails on syntax errors', () => {
+        assert.deepStrictEqual(ProtoParser.parse('message A { Missing b = 1; }').warnings, ['Unknown type: Missing (in A)']);
+        assert.throws(() => ProtoParser.parse('message A { string b 1; }', 'bad.proto'), /bad\.proto: Expected "=" but found "1"/);
+        assert.throws(() => ProtoParser.parse('message A { string b = 1;', 'cut.proto'), /cut\.proto: Unexpected end of file/);
+    });
+
+    it('loads imports next to the file and the bundled well-known types', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proto-'));
+        try {
+            fs.writeFileSync(path.join(dir, 'common.proto'), 'syntax = "proto3"; package common; message Money { int64 units = 1; }');
+            fs.writeFileSync(path.join(dir, 'main.proto'), [
+                'syntax = "proto3";',
+                'import "common.proto";',
+                'import "google/protobuf/timestamp.proto";',
+                'import "missing.proto";',
+                'message Payment { common.Money amount = 1; google.protobuf.Timestamp at = 2; }',
+            ].join('\n'));
+
+            const loaded = await ProtoParser.load(path.join(dir, 'main.proto'));
+            assert.ok(loaded.types['common.Money']);
+            assert.ok(loaded.types['google.protobuf.Timestamp']);
+            assert.deepStrictEqual(loaded.warnings, ['Import not found: missing.proto (from main.proto)']);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('ProtobufCodec', () => {
+    const codec = new ProtobufCodec(ProtoParser.parse(SOURCE, 'shop.proto'));
+    const hex = (buffer: Buffer) => buffer.toString('hex');
+
+    it('encodes the examples of the protobuf encoding guide', () => {
+        const guide = new ProtobufCodec(ProtoParser.parse('message Test { int32 a = 1; string b = 2; repeated int32 d = 4; }'));
+        assert.strictEqual(hex(guide.encode('Test', { a: 150 })), '089601');
+        assert.strictEqual(hex(guide.encode('Test', { b: 'testing' })), '120774657374696e67');
+        assert.strictEqual(hex(guide.encode('Test', { d: [3, 270, 86942] })), '2206038e029ea705');
+        // Negative int32 values take ten bytes
+        assert.strictEqual(hex(guide.encode('Test', { a: -1 })), '08ffffffffffffffffff01');
+    });
+
+    it('encodes zigzag, fixed and enum values', () => {
+        assert.strictEqual(hex(codec.encode('shop.v1.Order', { adjustment: -1 })), '4001');
+        assert.strictEqual(hex(codec.encode('shop.v1.Order', { adjustment: 1 })), '4002');
+        assert.strictEqual(hex(codec.encode('shop.v1.Order', { status: 'PAID' })), '2001');
+        assert.strictEqual(hex(codec.encode('shop.v1.Order', { status: 'REFUNDED' })), '20ffffffffffffffffff01');
+        assert.strictEqual(hex(codec.encode('shop.v1.Order.Item', { serial: '1' })), '110100000000000000');
+    });
+
+    it('round-trips messages through the JSON mapping', () => {
+        const order = {
+            id: 'o-1',
+            totalCents: '9007199254740993',
+            quantities: [1, 2, 300],
+            status: 'REFUNDED',
+            items: { a: { sku: 'A-1', serial: '18446744073709551615', price: 2.5 } },
+            voucherCode: Buffer.from([0, 255, 16]).toString('base64'),
+            adjustment: -42,
+            kind: 'DIGITAL',
+            extras: [{ sku: 'X' }, {}],
+        };
+        assert.deepStrictEqual(codec.decode('shop.v1.Order', codec.encode('shop.v1.Order', order)), order);
+    });
+
+    it('accepts proto field names and skips nulls', () => {
+        assert.deepStrictEqual(codec.decode('shop.v1.Order', codec.encode('shop.v1.Order', { total_cents: 5, card: null })), { totalCents: '5' });
+    });
+
+    it('skips unknown fields when decoding', () => {
+        const data = Buffer.concat([Buffer.from('a80101', 'hex'), codec.encode('shop.v1.Order', { id: 'x' })]);
+        assert.deepStrictEqual(codec.decode('shop.v1.Order', data), { id: 'x' });
+    });
+
+    it('reports where a value does not fit', () => {
+        assert.throws(() => codec.encode('shop.v1.Order', { nope: 1 }), /shop\.v1\.Order: unknown field "nope"/);
+        assert.throws(() => codec.encode('shop.v1.Order', { items: { a: { price: 'cheap' } } }), /items\.a\.price: expected a number/);
+        assert.throws(() => codec.encode('shop.v1.Order', { quantities: [1, 1.5] }), /quantities\[1\]: expected an integer/);
+        assert.throws(() => codec.encode('shop.v1.Order', { status: 'LOST' }), /status: expected one of STATUS_UNSPECIFIED, PAID, REFUNDED/);
+        assert.throws(() => codec.encode('shop.v1.Status', {}), /shop\.v1\.Status is an enum, not a message/);
+        assert.throws(() => codec.decode('shop.v1.Order', Buffer.from('0a05ab', 'hex')), /Truncated protobuf message/);
+    });
+
+    it('builds templates with defaults for every field', () => {
+        assert.deepStrictEqual(codec.template('shop.v1.Order'), {
+            id: '',
+            totalCents: '0',
+            quantities: [0],
+            status: 'STATUS_UNSPECIFIED',
+            items: {},
+            card: '',
+            voucherCode: '',
+            adjustment: 0,
+            kind: 'KIND_UNSPECIFIED',
+            extras: [{ sku: '', serial: '0', price: 0 }],
+        });
+    });
+
+    it('maps well-known types to their string forms', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proto-'));
+        try {
+            fs.writeFileSync(path.join(dir, 'event.proto'), [
+                'syntax = "proto3";',
+                'import "google/protobuf/timestamp.proto";',
+                'import "google/protobuf/duration.proto";',
+                'import "google/protobuf/wrappers.proto";',
+                'message Event { google.protobuf.Timestamp at = 1; google.protobuf.Duration took = 2; google.protobuf.Int64Value count = 3; }',
+            ].join('\n'));
+            const wellKnown = new ProtobufCodec(await ProtoParser.load(path.join(dir, 'event.proto')));
+            const event = { at: '2024-05-06T07:08:09.120Z', took: '-1.500s', count: '7' };
+
+            assert.deepStrictEqual(wellKnown.decode('Event', wellKnown.encode('Event', event)), event);
+            assert.throws(() => wellKnown.encode('Event', { at: 'yesterday' }), /at: expected an RFC 3339 timestamp/);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,309 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as zlib from 'zlib';
+import { describe, it, before, after } from 'node:test';
+import { RequestExecutor } from '../../services/RequestExecutor';
+import { listen, readText, TestServer } from '../helpers';
+
+const LARGE = Buffer.from(Array.from({ length: 100 }, (_, i) => String(i).padEnd(1024, '.')).join(''));
+
+describe('RequestExecutor', () => {
+    let server: TestServer;
+    let other: TestServer;
+    const executor = new RequestExecutor();
+
+    before(async () => {
+        // A second origin, for redirects that leave the first one
+        other = await listen(async (req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ method: req.method, headers: req.headers, body: await readText(req) }));
+        });
+        server = await listen((req, res) => {
+            const url = new URL(req.url || '/', 'http://localhost');
+            switch (url.pathname) {
+                case '/gz':
+                    res.writeHead(200, { 'Content-Encoding': 'gzip' });
+                    res.end(req.method === 'HEAD' ? undefined : zlib.gzipSync('hello'));
+                    break;
+                case '/not-modified':
+                    res.writeHead(304, { 'Content-Encoding': 'gzip' });
+                    res.end();
+                    break;
+                case '/no-content':
+                    res.writeHead(204, { 'Content-Encoding': 'br' });
+                    res.end();
+                    break;
+                case '/empty-chunked':
+                    // No Content-Length, so the decoder sees a body that ends before it starts
+                    res.writeHead(200, { 'Content-Encoding': 'gzip', 'Transfer-Encoding': 'chunked' });
+                    res.end();
+                    break;
+                case '/hang':
+                    // Never answers; the socket is closed when the server is
+                    break;
+                case '/drip':
+                    // Sends the headers and part of the body, then stalls
+                    res.writeHead(200, { 'Content-Type': 'text/plain' });
+                    res.write('partial');
+                    break;
+                case '/slow':
+                    // 50ms to the first byte, then 50ms more for the rest of the body
+                    setTimeout(() => {
+                        res.writeHead(200);
+                        res.write('first');
+                        setTimeout(() => res.end('last'), 50);
+                    }, 50);
+                    break;
+                case '/hops': {
+                    // /hops?n=3 redirects three times before answering
+                    const n = Number(url.searchParams.get('n'));
+                    res.writeHead(n > 0 ? 302 : 200, n > 0 ? { Location: `/hops?n=${n - 1}`, 'Set-Cookie': `hop=${n}` } : {});
+                    res.end(n > 0 ? undefined : 'arrived');
+                    break;
+                }
+                case '/see-other':
+                    res.writeHead(303, { Location: '/echo' });
+                    res.end();
+                    break;
+                case '/elsewhere':
+                    res.writeHead(307, { Location: `${other.url}/echo` });
+                    res.end();
+                    break;
+                case '/echo':
+                    readText(req).then(body => {
+                        res.writeHead(200, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ method: req.method, headers: req.headers, body }));
+                    });
+                    break;
+                case '/large':
+                    // 100 kB in 1 kB chunks, gzipped so the wire size differs
+                    res.writeHead(200, { 'Content-Encoding': 'gzip' });
+                    res.end(zlib.gzipSync(LARGE));
+                    break;
+                default:
+                    res.writeHead(404);
+                    res.end();
+            }
+        });
+    });
+
+    after(async () => {
+        executor.dispose();
+        await server.close();
+        await other.close();
+    });
+
+    describe('compressed responses without a body', () => {
+        it('decodes a regular gzip body', async () => {
+            const result = await executor.execute('t', { method: 'GET', url: `${server.url}/gz`, headers: {} });
+            assert.strictEqual(result.body.toString(), 'hello');
+        });
+
+        it('returns an empty body for HEAD', async () => {
+            const result = await executor.execute('t', { method: 'HEAD', url: `${server.url}/gz`, headers: {} });
+            assert.strictEqual(result.status, 200);
+            assert.strictEqual(result.body.length, 0);
+        });
+
+        it('returns an empty body for 304 and 204', async () => {
+            const notModified = await executor.execute('t', { method: 'GET', url: `${server.url}/not-modified`, headers: {} });
+            assert.strictEqual(notModified.status, 304);
+            assert.strictEqual(notModified.body.length, 0);
+
+            const noContent = await executor.execute('t', { method: 'DELETE', url: `${server.url}/no-content`, headers: {} });
+            assert.strictEqual(noContent.status, 204);
+            assert.strictEqual(noContent.body.length, 0);
+        });
+
+        it('returns an empty body for an empty chunked stream', async () => {
+            const result = await executor.execute('t', { method: 'GET', url: `${server.url}/empty-chunked`, headers: {} });
+            assert.strictEqual(result.status, 200);
+            assert.strictEqual(result.body.length, 0);
+        });
+    });
+
+    describe('timeouts', () => {
+        it('fails when the response does not arrive within the total timeout', async () => {
+            await assert.rejects(
+                executor.execute('t', { method: 'GET', url: `${server.url}/hang`, headers: {} }, { timeout: 100 }),
+                { message: 'Request timed out after 100ms' }
+            );
+        });
+
+        it('counts reading the body towards the total timeout', async () => {
+            await assert.rejects(
+                executor.execute('t', { method: 'GET', url: `${server.url}/drip`, headers: {} }, { timeout: 100 }),
+                { message: 'Request timed out after 100ms' }
+            );
+        });
+
+        it('fails when the TLS handshake does not finish within the connect timeout', async () => {
+            // Accepts TCP connections but never answers the TLS hello
+            const sockets: net.Socket[] = [];
+            const silent = net.createServer(socket => sockets.push(socket));
+            await new Promise<void>(resolve => silent.listen(0, '127.0.0.1', resolve));
+            const { port } = silent.address() as net.AddressInfo;
+            try {
+                await assert.rejects(
+                    executor.execute('t', { method: 'GET', url: `https://127.0.0.1:${port}/`, headers: {} }, { connectTimeout: 100, timeout: 5000 }),
+                    { message: 'Connection timed out after 100ms' }
+                );
+            } finally {
+                sockets.forEach(socket => socket.destroy());
+                await new Promise(resolve => silent.close(resolve));
+            }
+        });
+    });
+
+    describe('cancellation', () => {
+        it('cancels an in-flight request by id', async () => {
+            const pending = executor.execute('cancel-me', { method: 'GET', url: `${server.url}/hang`, headers: {} });
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            assert.strictEqual(executor.cancel('cancel-me'), true);
+            await assert.rejects(pending, { message: 'Request cancelled' });
+            assert.strictEqual(executor.cancel('cancel-me'), false);
+        });
+
+        it('cancels while the body is being read', async () => {
+            const pending = executor.execute('body', { method: 'GET', url: `${server.url}/drip`, headers: {} });
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            executor.cancel('body');
+            await assert.rejects(pending, { message: 'Request cancelled' });
+        });
+
+        it('cancels the previous request when another starts with the same id', async () => {
+            const first = executor.execute('same', { method: 'GET', url: `${server.url}/hang`, headers: {} });
+            const second = executor.execute('same', { method: 'GET', url: `${server.url}/gz`, headers: {} });
+
+            await assert.rejects(first, { message: 'Request cancelled' });
+            assert.strictEqual((await second).body.toString(), 'hello');
+        });
+    });
+
+    describe('timings', () => {
+        it('splits the time into phases that add up to the total', async () => {
+            const result = await executor.execute('t', { method: 'GET', url: `${server.url.replace('127.0.0.1', 'localhost')}/slow`, headers: {} });
+            const { redirect, dns, tcp, tls, ttfb, download, total } = result.timings;
+
+            assert.strictEqual(result.body.toString(), 'firstlast');
+            assert.strictEqual(tls, 0);
+            assert.ok(ttfb >= 45, `ttfb ${ttfb}`);
+            assert.ok(download >= 45, `download ${download}`);
+            assert.ok(Math.abs(redirect + dns + tcp + tls + ttfb + download - total) < 0.1);
+            assert.strictEqual(result.time, Math.round(total));
+        });
+
+        it('reports no DNS or connect time on a reused keep-alive socket', async () => {
+            await executor.execute('t', { method: 'GET', url: `${server.url}/gz`, headers: {} });
+            const result = await executor.execute('t', { method: 'GET', url: `${server.url}/gz`, headers: {} });
+
+            assert.strictEqual(result.timings.dns, 0);
+            assert.strictEqual(result.timings.tcp, 0);
+        });
+    });
+
+    describe('redirects', () => {
+        it('follows redirects and records each hop', async () => {
+            const result = await executor.execute('t', { method: 'GET', url: `${server.url}/hops?n=2`, headers: {} });
+
+            assert.strictEqual(result.body.toString(), 'arrived');
+            assert.strictEqual(result.url, `${server.url}/hops?n=0`);
+            assert.deepStrictEqual(result.redirects, [
+                { url: `${server.url}/hops?n=2`, status: 302, statusText: 'Found', location: '/hops?n=1', setCookie: ['hop=2'] },
+                { url: `${server.url}/hops?n=1`, status: 302, statusText: 'Found', location: '/hops?n=0', setCookie: ['hop=1'] },
+            ]);
+            assert.ok(result.timings.redirect > 0);
+        });
+
+        it('stops at the hop limit', async () => {
+            await assert.rejects(
+                executor.execute('t', { method: 'GET', url: `${server.url}/hops?n=3`, headers: {} }, { maxRedirects: 2 }),
+                { message: 'Too many redirects (maximum is 2)' }
+            );
+            const result = await executor.execute('t', { method: 'GET', url: `${server.url}/hops?n=2`, headers: {} }, { maxRedirects: 2 });
+            assert.strictEqual(result.status, 200);
+        });
+
+        it('returns the redirect itself when following is off', async () => {
+            const result = await executor.execute('t', { method: 'GET', url: `${server.url}/hops?n=1`, headers: {} }, { followRedirects: false });
+
+            assert.strictEqual(result.status, 302);
+            assert.strictEqual(result.headers.location, '/hops?n=0');
+            assert.deepStrictEqual(result.redirects, []);
+        });
+
+        it('turns a POST into a GET without a body on 303', async () => {
+            const result = await executor.execute('t', {
+                method: 'POST',
+                url: `${server.url}/see-other`,
+                headers: { 'Content-Type': 'application/json' },
+                body: '{"a":1}',
+            });
+            const echo = JSON.parse(result.body.toString());
+
+            assert.strictEqual(echo.method, 'GET');
+            assert.strictEqual(echo.body, '');
+            assert.strictEqual(echo.headers['content-type'], undefined);
+        });
+
+        it('keeps credentials on the same origin and strips them on another', async () => {
+            const headers = { 'Authorization': 'Bearer secret', 'Cookie': 'session=1', 'X-Trace': 'kept' };
+
+            const same = JSON.parse((await executor.execute('t', { method: 'GET', url: `${server.url}/see-other`, headers })).body.toString());
+            assert.strictEqual(same.headers.authorization, 'Bearer secret');
+            assert.strictEqual(same.headers.cookie, 'session=1');
+
+            const cross = JSON.parse((await executor.execute('t', { method: 'PUT', url: `${server.url}/elsewhere`, headers, body: 'data' })).body.toString());
+            assert.strictEqual(cross.method, 'PUT');
+            assert.strictEqual(cross.body, 'data');
+            assert.strictEqual(cross.headers.authorization, undefined);
+            assert.strictEqual(cross.headers.cookie, undefined);
+            assert.strictEqual(cross.headers['x-trace'], 'kept');
+        });
+    });
+
+    describe('large bodies', () => {
+        it('keeps bodies under the limit in memory', async () => {
+            const result = await executor.execute('t', { method: 'GET', url: `${server.url}/large`, headers: {} }, { maxBodyInMemory: LARGE.length });
+
+            assert.strictEqual(result.truncated, false);
+            assert.strictEqual(result.bodyFile, undefined);
+            assert.ok(result.body.equals(LARGE));
+        });
+
+        it('spills bodies over the limit to a temp file and keeps the start in memory', async () => {
+            const result = await executor.execute('t', { method: 'GET', url: `${server.url}/large`, headers: {} }, { maxBodyInMemory: 4096 });
+            try {
+                assert.strictEqual(result.truncated, true);
+                assert.ok(result.body.equals(LARGE.subarray(0, 4096)));
+                assert.strictEqual(result.bodySize, LARGE.length);
+                assert.ok(result.wireSize < LARGE.length);
+                assert.ok(result.bodyFile);
+                assert.ok(fs.readFileSync(result.bodyFile).equals(LARGE));
+            } finally {
+                if (result.bodyFile) fs.unlinkSync(result.bodyFile);
+            }
+        });
+
+        it('removes the temp file when the request fails', async () => {
+            const before = new Set(fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('api-tester-')));
+            await assert.rejects(
+                executor.execute('t', { method: 'GET', url: `${server.url}/large`, headers: {} }, {
+                    maxBodyInMemory: 1024,
+                    stream: {
+                        accept: () => true,
+                        onChunk: (chunk) => { if (chunk.includes('50')) throw new Error('stop here'); },
+                    },
+                }),
+                { message: 'stop here' }
+            );
+            await new Promise(resolve => setTimeout(resolve, 20));
+            const left = fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('api-tester-') && !before.has(name));
+            assert.deepStrictEqual(left, []);
+        });
+    });
+});
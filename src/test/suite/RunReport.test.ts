@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { CollectionRunSummary, RequestRunResult } from '../../services/CollectionRunner';
+import { RunReport, RunReportInfo } from '../../services/RunReport';
+
+function result(overrides: Partial<RequestRunResult>): RequestRunResult {
+    return { iteration: 1, requestId: 'r', name: 'Request', method: 'GET', url: 'https://api.test/', time: 0, tests: [], logs: [], passed: true, ...overrides };
+}
+
+const info: RunReportInfo = { name: 'Shop & Co', environment: 'staging', startedAt: Date.UTC(2024, 0, 1, 12) };
+
+function summary(results: RequestRunResult[], iterations = 1): CollectionRunSummary {
+    const skipped = results.filter(r => r.skipped).length;
+    const passed = results.filter(r => r.passed && !r.skipped).length;
+    return {
+        iterations,
+        total: results.length,
+        passed,
+        failed: results.length - passed - skipped,
+        skipped,
+        time: 1234,
+        stopped: false,
+        failedIterations: [...new Set(results.filter(r => !r.passed).map(r => r.iteration))],
+        variables: { token: 's3cret' },
+        results,
+    };
+}
+
+const results = [
+    result({
+        name: 'List orders',
+        url: 'https://api.test/orders?key=****',
+        status: 200,
+        time: 150,
+        tests: [
+            { name: 'status is 200', passed: true },
+            { name: 'body has <items>', passed: false, error: 'Expected "a" === "b"' },
+        ],
+        logs: [{ phase: 'test', level: 'log', message: 'count: 2\u0007' }],
+        passed: false,
+    }),
+    result({ name: 'Create order', method: 'POST', url: 'https://api.test/orders', time: 20, error: 'connect ECONNREFUSED', passed: false }),
+    result({ name: 'Live feed', method: 'WS', url: 'wss://api.test/feed', skipped: true, error: "WebSocket sessions can't be run from a collection" }),
+    result({ name: 'Health', url: 'https://api.test/health', status: 204, time: 5 }),
+];
+
+describe('RunReport', () => {
+    describe('junit', () => {
+        it('writes a testsuite per request and a testcase per test, with totals', () => {
+            const xml = RunReport.junit(summary(results), info);
+
+            assert.ok(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n'));
+            assert.match(xml, /<testsuites name="Shop &amp; Co" tests="5" failures="1" errors="1" time="1.234">/);
+            assert.strictEqual(xml.match(/<testsuite /g)?.length, 4);
+            assert.strictEqual(xml.match(/<testcase /g)?.length, 5);
+            assert.ok(xml.trimEnd().endsWith('</testsuites>'));
+        });
+
+        it('marks failed tests, send errors and skipped requests', () => {
+            const xml = RunReport.junit(summary(results), info);
+
+            assert.ok(xml.includes([
+                '  <testsuite name="List orders" tests="2" failures="1" errors="0" skipped="0" time="0.150">',
+                '    <testcase name="status is 200" classname="GET https://api.test/orders?key=****" time="0"></testcase>',
+                '    <testcase name="body has &lt;items&gt;" classname="GET https://api.test/orders?key=****" time="0">',
+                '      <failure message="Expected &quot;a&quot; === &quot;b&quot;"/>',
+                '    </testcase>',
+                // Characters XML can't hold are dropped
+                '    <system-out>[test] log: count: 2</system-out>',
+                '  </testsuite>',
+            ].join('\n')), xml);
+            assert.ok(xml.includes('<testsuite name="Create order" tests="1" failures="0" errors="1" skipped="0" time="0.020">\n'
+                + '    <testcase name="Create order" classname="POST https://api.test/orders" time="0.020">\n'
+                + '      <error message="connect ECONNREFUSED"/>'), xml);
+            assert.ok(xml.includes('<testsuite name="Live feed" tests="1" failures="0" errors="0" skipped="1" time="0.000">\n'
+                + '    <testcase name="Live feed" classname="WS wss://api.test/feed" time="0">\n'
+                + '      <skipped message="WebSocket sessions can\'t be run from a collection"/>'), xml);
+            // A request without tests still counts as one passing testcase
+            assert.ok(xml.includes('    <testcase name="Health" classname="GET https://api.test/health" time="0.005"/>'), xml);
+        });
+
+        it('names suites by iteration when there is more than one', () => {
+            const xml = RunReport.junit(summary([result({ name: 'Health' }), result({ name: 'Health', iteration: 2 })], 2), info);
+
+            assert.match(xml, /<testsuite name="Health \(iteration 1\)"/);
+            assert.match(xml, /<testsuite name="Health \(iteration 2\)"/);
+        });
+    });
+
+    describe('json', () => {
+        it('writes the summary and run details, leaving out the variables', () => {
+            const report = JSON.parse(RunReport.json(summary(results), info));
+
+            assert.strictEqual(report.name, 'Shop & Co');
+            assert.strictEqual(report.environment, 'staging');
+            assert.strictEqual(report.startedAt, '2024-01-01T12:00:00.000Z');
+            assert.deepStrictEqual(
+                { total: report.total, passed: report.passed, failed: report.failed, skipped: report.skipped, time: report.time, stopped: report.stopped },
+                { total: 4, passed: 1, failed: 2, skipped: 1, time: 1234, stopped: false }
+            );
+            assert.deepStrictEqual(report.failedIterations, [1]);
+            assert.deepStrictEqual(report.results, JSON.parse(JSON.stringify(results)));
+            assert.strictEqual('variables' in report, false);
+        });
+    });
+});
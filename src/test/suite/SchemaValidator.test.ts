@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { SchemaValidator } from '../../services/SchemaValidator';
+
+describe('SchemaValidator', () => {
+    const validator = new SchemaValidator();
+
+    it('checks types, including integer and type lists', () => {
+        assert.deepStrictEqual(validator.validate({ type: 'integer' }, 1.5), [{ path: '', message: 'expected integer, got number' }]);
+        assert.deepStrictEqual(validator.validate({ type: 'number' }, 3), []);
+        assert.deepStrictEqual(validator.validate({ type: ['string', 'null'] }, null), []);
+        assert.deepStrictEqual(validator.validate({ type: 'object' }, []), [{ path: '', message: 'expected object, got array' }]);
+        assert.deepStrictEqual(validator.validate(false, 1), [{ path: '', message: 'no value is allowed here' }]);
+    });
+
+    it('reports nested errors with JSON pointers', () => {
+        const schema = {
+            type: 'object',
+            required: ['id', 'a/b'],
+            properties: {
+                id: { type: 'integer', minimum: 1 },
+                tags: { type: 'array', items: { type: 'string', maxLength: 3 }, uniqueItems: true },
+            },
+            additionalProperties: false,
+        };
+        assert.deepStrictEqual(validator.validate(schema, { id: 0, tags: ['abcd', 'x', 'x'], extra: true }), [
+            { path: '/a~1b', message: 'is required' },
+            { path: '/id', message: 'must be at least 1, got 0' },
+            { path: '/tags/2', message: 'duplicates item 1' },
+            { path: '/tags/0', message: 'must be at most 3 characters, got 4' },
+            { path: '/extra', message: 'is not an allowed property' },
+        ]);
+    });
+
+    it('checks string lengths in code points, patterns and formats', () => {
+        assert.deepStrictEqual(validator.validate({ type: 'string', maxLength: 1 }, '😀'), []);
+        assert.deepStrictEqual(validator.validate({ pattern: '^[a-z]+$' }, 'abc1'), [{ path: '', message: 'must match pattern ^[a-z]+$' }]);
+        assert.deepStrictEqual(validator.validate({ format: 'date-time' }, '2024-01-02T03:04:05.678Z'), []);
+        assert.deepStrictEqual(validator.validate({ format: 'uuid' }, 'not-a-uuid'), [{ path: '', message: 'must be a valid uuid' }]);
+        assert.deepStrictEqual(validator.validate({ format: 'email' }, 'someone@example.com'), []);
+        assert.deepStrictEqual(validator.validate({ format: 'ipv4' }, '256.1.1.1'), [{ path: '', message: 'must be a valid ipv4' }]);
+        // Unknown formats are not checked
+        assert.deepStrictEqual(validator.validate({ format: 'color' }, '#fff'), []);
+    });
+
+    it('checks numbers in both exclusiveMinimum dialects and multipleOf', () => {
+        assert.deepStrictEqual(validator.validate({ minimum: 5, exclusiveMinimum: true }, 5), [{ path: '', message: 'must be greater than 5, got 5' }]);
+        assert.deepStrictEqual(validator.validate({ exclusiveMaximum: 10 }, 10), [{ path: '', message: 'must be less than 10, got 10' }]);
+        assert.deepStrictEqual(validator.validate({ multipleOf: 0.1 }, 0.3), []);
+        assert.deepStrictEqual(validator.validate({ multipleOf: 2 }, 3), [{ path: '', message: 'must be a multiple of 2' }]);
+    });
+
+    it('accepts null for OpenAPI nullable schemas', () => {
+        assert.deepStrictEqual(validator.validate({ type: 'string', nullable: true }, null), []);
+        assert.deepStrictEqual(validator.validate({ type: 'string' }, null), [{ path: '', message: 'expected string, got null' }]);
+    });
+
+    it('checks enum, const and composition keywords', () => {
+        assert.deepStrictEqual(validator.validate({ enum: ['a', { b: 1 }] }, { b: 1 }), []);
+        assert.deepStrictEqual(validator.validate({ const: 'x' }, 'y'), [{ path: '', message: 'must be "x"' }]);
+        assert.deepStrictEqual(validator.validate({ oneOf: [{ type: 'number' }, { type: 'integer' }] }, 2), [
+            { path: '', message: 'matches 2 of the oneOf schemas, expected exactly one' },
+        ]);
+        // Of the failing branches, the one with the fewest errors explains why
+        assert.deepStrictEqual(validator.validate({ anyOf: [{ type: 'object', required: ['id', 'name'] }, { type: 'object', required: ['id'] }] }, {}), [
+            { path: '', message: 'does not match any of the anyOf schemas' },
+            { path: '/id', message: 'is required' },
+        ]);
+        assert.deepStrictEqual(validator.validate({ not: { type: 'string' } }, 's'), [{ path: '', message: 'must not match the "not" schema' }]);
+    });
+
+    it('resolves local $refs against the root document and stops on cycles', () => {
+        const root = {
+            components: {
+                schemas: {
+                    User: { type: 'object', required: ['name'], properties: { manager: { $ref: '#/components/schemas/User' } } },
+                    Loop: { $ref: '#/components/schemas/Loop' },
+                },
+            },
+        };
+        const refs = new SchemaValidator(root);
+        assert.deepStrictEqual(refs.validate({ $ref: '#/components/schemas/User' }, { name: 'a', manager: {} }), [{ path: '/manager/name', message: 'is required' }]);
+        assert.deepStrictEqual(refs.validate({ $ref: '#/components/schemas/Missing' }, {}), [{ path: '', message: 'Cannot resolve $ref #/components/schemas/Missing' }]);
+        assert.deepStrictEqual(refs.validate({ $ref: 'other.json#/User' }, {}), [{ path: '', message: 'Only local $refs are supported: other.json#/User' }]);
+        assert.match(refs.validate({ $ref: '#/components/schemas/Loop' }, {})[0].message, /circular \$refs/);
+    });
+});
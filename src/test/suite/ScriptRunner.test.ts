@@ -0,0 +1,194 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import { describe, it } from 'node:test';
+import { ScriptContext, ScriptPhase, ScriptRunner } from '../../services/ScriptRunner';
+
+function context(overrides: Partial<ScriptContext> = {}): ScriptContext {
+    return {
+        request: { method: 'POST', url: 'https://api.test/orders', headers: { 'Content-Type': 'application/json' }, body: '{"id":1}' },
+        variables: { baseUrl: 'https://api.test', token: 'abc' },
+        interpolate: (text, variables) => text.replace(/\{\{(\w+)\}\}/g, (match, name: string) => variables[name] ?? match),
+        ...overrides,
+    };
+}
+
+const run = (code: string, phase: ScriptPhase = 'preRequest', overrides: Partial<ScriptContext> = {}, timeout?: number) =>
+    ScriptRunner.run(phase, code, context(overrides), timeout);
+
+describe('ScriptRunner', () => {
+    describe('sandbox', () => {
+        it('hides Node globals from scripts', () => {
+            const result = run(`console.log(typeof process, typeof require, typeof module, typeof Buffer, typeof setTimeout)`);
+
+            assert.strictEqual(result.error, undefined);
+            assert.strictEqual(result.logs[0].message, 'undefined undefined undefined undefined undefined');
+        });
+
+        it('disallows code generation from strings, including through api functions', () => {
+            for (const code of [
+                `eval('1 + 1')`,
+                `new Function('return 1')()`,
+                `api.crypto.hash.constructor('return process')()`,
+                `api.variables.get.constructor.constructor('return this')()`,
+                `console.log.constructor('return process')()`,
+                `this.constructor.constructor('return process')()`,
+            ]) {
+                assert.match(run(code).error ?? '', /Code generation from strings disallowed/, code);
+            }
+        });
+
+        it('keeps host objects out of errors from the bridge', () => {
+            const result = run(`
+                try { api.crypto.hash('no-such-algorithm', 'x'); } catch (e) {
+                    console.log(e instanceof Error, e.constructor === Error, e.message);
+                }
+            `);
+
+            assert.strictEqual(result.logs[0].message, 'true true Digest method not supported');
+        });
+
+        it('does not let scripts replace what the host reads back', () => {
+            const result = run(`
+                __request = () => '{"url":"https://evil.test"}';
+                try { Object.defineProperty(globalThis, '__request', { value: () => '{}' }); } catch (e) { console.log(e.name); }
+                api.request.url = 'https://api.test/v2/orders';
+            `);
+
+            assert.strictEqual(result.logs[0].message, 'TypeError');
+            assert.strictEqual(result.request.url, 'https://api.test/v2/orders');
+        });
+    });
+
+    describe('time limit', () => {
+        it('stops a script that runs too long', () => {
+            const started = Date.now();
+            const result = run(`while (true) {}`, 'test', {}, 100);
+
+            assert.strictEqual(result.error, 'Script execution timed out after 100ms');
+            assert.ok(Date.now() - started < 2000);
+        });
+
+        it('also limits an error whose message getter never returns', () => {
+            const result = run(`throw { get message() { while (true) {} } }`, 'test', {}, 100);
+            assert.strictEqual(result.error, 'Script failed');
+        });
+
+        it('keeps what the script did before it was stopped', () => {
+            const result = run(`console.log('started'); api.variables.set('step', 1); for (;;) {}`, 'preRequest', {}, 100);
+
+            assert.deepStrictEqual(result.logs.map(entry => entry.message), ['started']);
+            assert.deepStrictEqual(result.variables, { step: '1' });
+        });
+    });
+
+    describe('variables', () => {
+        it('reports writes to the host and sees its own writes', () => {
+            const result = run(`
+                api.variables.set('orderId', 42);
+                api.variables.set('user', { name: 'ada' });
+                api.variables.unset('token');
+                console.log(api.variables.get('orderId'), api.variables.has('token'), api.variables.replace('{{baseUrl}}/orders/{{orderId}}'));
+                console.log(api.variables.toObject());
+            `);
+
+            assert.deepStrictEqual(result.variables, { orderId: '42', user: '{"name":"ada"}', token: null });
+            assert.strictEqual(result.logs[0].message, '42 false https://api.test/orders/42');
+            assert.deepStrictEqual(JSON.parse(result.logs[1].message), { baseUrl: 'https://api.test', orderId: '42', user: '{"name":"ada"}' });
+        });
+
+        it('lets pre-request scripts rewrite the request but not its method', () => {
+            const result = run(`
+                api.request.method = 'DELETE';
+                api.request.url = api.variables.replace('{{baseUrl}}/v2/orders');
+                api.request.headers['X-Signature'] = api.crypto.hmac('sha256', 'key', api.request.body);
+                api.request.headers['X-Count'] = 3;
+                api.request.body = { id: 2 };
+            `);
+
+            assert.deepStrictEqual(result.request, {
+                method: 'POST',
+                url: 'https://api.test/v2/orders',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Signature': crypto.createHmac('sha256', 'key').update('{"id":1}').digest('hex'),
+                    'X-Count': '3',
+                },
+                body: '{"id":2}',
+            });
+        });
+
+        it('gives test scripts a read-only request and the response', () => {
+            const result = run(`
+                'use strict';
+                api.test('response', () => {
+                    api.assert.strictEqual(api.response.status, 201);
+                    api.assert.deepStrictEqual(api.response.json(), { id: 7 });
+                    api.assert.strictEqual(api.response.headers['content-type'], 'application/json');
+                });
+                api.request.url = 'https://evil.test';
+            `, 'test', { response: { status: 201, statusText: 'Created', headers: { 'content-type': 'application/json' }, body: '{"id":7}', time: 12 } });
+
+            assert.deepStrictEqual(result.tests, [{ name: 'response', passed: true, error: undefined }]);
+            assert.match(result.error ?? '', /read only/);
+            assert.strictEqual(result.request.url, 'https://api.test/orders');
+        });
+    });
+
+    describe('assertions', () => {
+        it('records passing and failing tests with their messages', () => {
+            const result = run(`
+                api.test('equal', () => api.assert.equal('1', 1));
+                api.test('strict', () => api.assert.strictEqual('1', 1));
+                api.test('deep', () => api.assert.deepStrictEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] }));
+                api.test('custom', () => api.assert.ok(false, 'should be truthy'));
+                api.test('match', () => api.assert.match('order-17', /^order-\\d+$/));
+                api.test('throws', () => api.assert.throws(() => { throw new TypeError('bad input'); }, /bad/));
+                api.test('missing', () => api.assert.throws(() => {}));
+                api.test('thrown', () => { throw 'plain string'; });
+            `, 'test');
+
+            assert.deepStrictEqual(result.tests, [
+                { name: 'equal', passed: true, error: undefined },
+                { name: 'strict', passed: false, error: 'Expected 1 === 1' },
+                { name: 'deep', passed: false, error: 'Expected {"a":[1,{"b":2}]} to deeply and strictly equal {"a":[1,{"b":3}]}' },
+                { name: 'custom', passed: false, error: 'should be truthy' },
+                { name: 'match', passed: true, error: undefined },
+                { name: 'throws', passed: true, error: undefined },
+                { name: 'missing', passed: false, error: 'Missing expected exception' },
+                { name: 'thrown', passed: false, error: 'plain string' },
+            ]);
+            assert.strictEqual(result.error, undefined);
+        });
+
+        it('reports an error thrown outside api.test', () => {
+            const result = run(`api.test('first', () => {}); api.assert.strictEqual(1, 2, 'status mismatch');`, 'test');
+
+            assert.strictEqual(result.error, 'status mismatch');
+            assert.strictEqual(result.tests.length, 1);
+        });
+    });
+
+    describe('console', () => {
+        it('captures each level with its phase, showing values as JSON', () => {
+            const result = run(`
+                console.log('plain', 1, true, null, undefined);
+                console.info({ nested: { list: [1, 2] } });
+                console.warn(new Error('careful'));
+                const cycle = {}; cycle.self = cycle;
+                console.error(cycle);
+            `, 'test');
+
+            assert.deepStrictEqual(result.logs, [
+                { phase: 'test', level: 'log', message: 'plain 1 true null undefined' },
+                { phase: 'test', level: 'info', message: '{"nested":{"list":[1,2]}}' },
+                { phase: 'test', level: 'warn', message: 'Error: careful' },
+                { phase: 'test', level: 'error', message: '[object Object]' },
+            ]);
+        });
+
+        it('cannot be replaced by the script', () => {
+            const result = run(`'use strict'; console.log = () => {};`);
+            assert.match(result.error ?? '', /read only/);
+        });
+    });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { StreamEvent, StreamParser } from '../../services/StreamParser';
+
+// Events without their arrival time, which differs from run to run
+function strip(events: StreamEvent[]): Omit<StreamEvent, 'timestamp'>[] {
+    return events.map(({ timestamp, ...event }) => JSON.parse(JSON.stringify(event)));
+}
+
+function feed(parser: StreamParser, chunks: (string | Buffer)[]): StreamEvent[] {
+    const events: StreamEvent[] = [];
+    for (const chunk of chunks) events.push(...parser.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk));
+    events.push(...parser.end());
+    return events;
+}
+
+describe('StreamParser', () => {
+    it('detects stream content types', () => {
+        assert.strictEqual(StreamParser.detect('text/event-stream; charset=utf-8'), 'sse');
+        assert.strictEqual(StreamParser.detect('Application/X-NDJSON'), 'ndjson');
+        assert.strictEqual(StreamParser.detect('application/json'), undefined);
+        assert.strictEqual(StreamParser.detect(undefined), undefined);
+    });
+
+    it('parses SSE fields and multi-line data', () => {
+        const events = feed(new StreamParser('sse'), [': comment\nevent: update\nid: 7\ndata: first\ndata:second\n\ndata: plain\n\n']);
+        assert.deepStrictEqual(strip(events), [
+            { event: 'update', id: '7', data: 'first\nsecond' },
+            { data: 'plain' },
+        ]);
+    });
+
+    it('keeps lines split across chunks, including CRLF and multi-byte characters', () => {
+        const euro = Buffer.from('data: €\r\n\r\n');
+        const events = feed(new StreamParser('sse'), ['da', 'ta: a\r', '\n\r\n', euro.subarray(0, 7), euro.subarray(7)]);
+        assert.deepStrictEqual(strip(events), [{ data: 'a' }, { data: '€' }]);
+    });
+
+    it('dispatches retry-only events and skips events without data', () => {
+        const events = feed(new StreamParser('sse'), ['retry: 3000\n\nevent: ping\n\nretry: soon\ndata: x\n\n']);
+        assert.deepStrictEqual(strip(events), [{ data: '', retry: 3000 }, { data: 'x' }]);
+    });
+
+    it('flushes the last SSE event when the stream ends without a blank line', () => {
+        const parser = new StreamParser('sse');
+        assert.deepStrictEqual(parser.push(Buffer.from('data: tail')), []);
+        assert.deepStrictEqual(strip(parser.end()), [{ data: 'tail' }]);
+    });
+
+    it('splits NDJSON records and skips blank lines', () => {
+        const events = feed(new StreamParser('ndjson'), ['{"a":1}\n\n{"b"', ':2}\r\n   \n{"c":3}']);
+        assert.deepStrictEqual(events.map(event => event.data), ['{"a":1}', '{"b":2}', '{"c":3}']);
+    });
+});
@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, before, after } from 'node:test';
+import { OpenAPIConverter } from '../../services/OpenAPIConverter';
+import { SavedRequest } from '../../services/RequestHistory';
+import { listen, TestServer } from '../helpers';
+
+const CLI = path.join(__dirname, '..', '..', 'cli.js');
+
+interface CliResult {
+    code: number;
+    stdout: string;
+    stderr: string;
+}
+
+/**
+ * Run the compiled CLI in a child process, as CI would
+ */
+function cli(args: string[], cwd: string): Promise<CliResult> {
+    return new Promise((resolve) => {
+        execFile(process.execPath, [CLI, ...args], { cwd, timeout: 30000 }, (error, stdout, stderr) => {
+            resolve({ code: error ? Number(error.code) : 0, stdout, stderr });
+        });
+    });
+}
+
+describe('api-tester CLI', () => {
+    let server: TestServer;
+    let dir: string;
+    let received: { path: string; token?: string }[];
+
+    before(async () => {
+        // /users/<n> answers 200 for the token "good", 401 otherwise
+        server = await listen((req, res) => {
+            const token = req.headers['x-token'] as string | undefined;
+            received.push({ path: req.url!, token });
+            res.writeHead(token === 'good' ? 200 : 401, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ path: req.url }));
+        });
+        dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'api-tester-cli-'));
+
+        const request = (name: string, pathname: string, collectionId: string): SavedRequest => ({
+            id: name,
+            name,
+            method: 'GET',
+            url: `${server.url}${pathname}`,
+            headers: { 'X-Token': '{{token}}' },
+            bodyType: 'none',
+            assertions: [{ source: 'status', operator: 'equals', value: '200' }],
+            collectionId,
+            createdAt: 0,
+            updatedAt: 0,
+        });
+        await fs.promises.writeFile(path.join(dir, 'requests.json'), OpenAPIConverter.exportJSON([
+            request('First user', '/users/1', 'Shop/Users'),
+            request('Second user', '/users/2', 'Shop/Users'),
+            request('Orders', '/orders', 'Shop/Orders'),
+        ], 'Shop API'));
+        await fs.promises.writeFile(path.join(dir, 'local.json'), JSON.stringify({ name: 'Local', variables: { token: 'good' } }));
+        await fs.promises.writeFile(path.join(dir, 'tokens.csv'), 'token\ngood\nbad\n');
+        await fs.promises.writeFile(path.join(dir, 'broken.json'), '{ "paths": ');
+    });
+
+    after(async () => {
+        await server.close();
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    });
+
+    const run = (args: string[]) => {
+        received = [];
+        return cli(args, dir);
+    };
+
+    it('exits with 0 and writes the reports when every request passes', async () => {
+        const result = await run(['requests.json', '--environment', 'local.json', '--junit', 'reports/api.xml', '--json', 'reports/api.json']);
+
+        assert.strictEqual(result.code, 0, result.stdout + result.stderr);
+        assert.deepStrictEqual(received, [
+            { path: '/users/1', token: 'good' },
+            { path: '/users/2', token: 'good' },
+            { path: '/orders', token: 'good' },
+        ]);
+        assert.match(result.stdout, /^Shop API \(Local\)$/m);
+        assert.match(result.stdout, /^✓ First user 200 OK \(\d+ms\)$/m);
+        assert.match(result.stdout, /^3 requests: 3 passed, 0 failed in \d+ms$/m);
+
+        const junit = await fs.promises.readFile(path.join(dir, 'reports', 'api.xml'), 'utf8');
+        assert.match(junit, /<testsuites name="Shop API" tests="3" failures="0" errors="0"/);
+        const json = JSON.parse(await fs.promises.readFile(path.join(dir, 'reports', 'api.json'), 'utf8'));
+        assert.strictEqual(json.environment, 'Local');
+        assert.strictEqual(json.passed, 3);
+        assert.strictEqual('variables' in json, false);
+    });
+
+    it('exits with 1 when a request fails, and --var overrides the environment', async () => {
+        const result = await run(['requests.json', '-e', 'local.json', '--var', 'token=bad', '-c', 'Shop/Users', '--junit', 'failed.xml']);
+
+        assert.strictEqual(result.code, 1, result.stdout + result.stderr);
+        assert.deepStrictEqual(received.map(r => r.token), ['bad', 'bad']);
+        assert.match(result.stdout, /^✗ First user 401 Unauthorized/m);
+        assert.match(result.stdout, /^2 requests: 0 passed, 2 failed/m);
+
+        const junit = await fs.promises.readFile(path.join(dir, 'failed.xml'), 'utf8');
+        assert.match(junit, /<testsuites name="Shop\/Users" tests="2" failures="2" errors="0"/);
+    });
+
+    it('runs once per data row and stops at the first failure with --bail', async () => {
+        const all = await run(['requests.json', '-c', 'Shop/Orders', '--data', 'tokens.csv', '--json', 'rows.json']);
+        assert.strictEqual(all.code, 1);
+        assert.deepStrictEqual(received.map(r => r.token), ['good', 'bad']);
+        assert.match(all.stdout, /^Iteration 2: token=bad$/m);
+        assert.deepStrictEqual(JSON.parse(await fs.promises.readFile(path.join(dir, 'rows.json'), 'utf8')).failedIterations, [2]);
+
+        const bailed = await run(['requests.json', '--var', 'token=bad', '--iterations', '2', '--bail']);
+        assert.strictEqual(bailed.code, 1);
+        assert.strictEqual(received.length, 1);
+        assert.match(bailed.stdout, /\(stopped early\)/);
+    });
+
+    it('exits with 2 on usage errors without sending anything', async () => {
+        const cases: [string[], RegExp][] = [
+            [[], /Expected one collection file/],
+            [['requests.json', '--unknown'], /Unknown option '--unknown'/],
+            [['missing.json'], /Cannot read missing\.json/],
+            [['broken.json'], /broken\.json is not valid JSON/],
+            [['local.json'], /local\.json is not an OpenAPI document/],
+            [['requests.json', '-c', 'Nowhere'], /No requests in Nowhere/],
+            [['requests.json', '--iterations', 'two'], /--iterations expects a whole number, got two/],
+            [['requests.json', '--var', 'token'], /--var expects name=value, got token/],
+            [['requests.json', '--environment', 'requests.json'], /requests\.json is not an exported environment/],
+        ];
+        for (const [args, message] of cases) {
+            const result = await run(args);
+            assert.strictEqual(result.code, 2, `${args.join(' ')}: ${result.stdout}${result.stderr}`);
+            assert.match(result.stderr, message);
+            assert.match(result.stderr, /Run api-tester --help for usage/);
+        }
+        assert.deepStrictEqual(received, []);
+    });
+
+    it('prints the usage with --help', async () => {
+        const result = await run(['--help']);
+
+        assert.strictEqual(result.code, 0);
+        assert.match(result.stdout, /^Usage: api-tester <collection\.json> \[options\]/);
+    });
+});
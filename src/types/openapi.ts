@@ -79,6 +79,14 @@ export interface OpenAPIOperation {
     'x-response'?: OpenAPIResponseExample;
     'x-timestamp'?: number;
     'x-collection'?: string;
+    'x-options'?: OpenAPIRequestOptions;
+    'x-graphql'?: OpenAPIGraphQL;
+    'x-websocket'?: OpenAPIWebSocketSession;
+    'x-grpc'?: OpenAPIGrpcCall;
+    'x-scripts'?: OpenAPIRequestScripts;
+    'x-assertions'?: OpenAPIAssertion[];
+    'x-data-file'?: string;
+    'x-auth-credentials'?: Record<string, string>;  // Only {{variable}} references; written-out secrets are kept elsewhere
 }
 
 export interface OpenAPIParameter {
@@ -184,6 +192,8 @@ export interface OpenAPISecurityScheme {
     bearerFormat?: string;
     flows?: OpenAPIOAuthFlows;
     openIdConnectUrl?: string;
+    'x-amazon-apigateway-authtype'?: string;
+    'x-auth'?: Record<string, string>;     // Non-secret settings of auth signed at send time, e.g. the AWS region
 }
 
 export interface OpenAPIOAuthFlows {
@@ -237,6 +247,78 @@ export interface OpenAPIResponseExample {
     time: number;
     size: number;
     timestamp: number;
+    timings?: OpenAPIResponseTimings;
+    redirects?: OpenAPIRedirectHop[];
+}
+
+// Extension: One hop of a followed redirect chain
+export interface OpenAPIRedirectHop {
+    url: string;
+    status: number;
+    statusText: string;
+    location: string;
+    setCookie: string[];
+}
+
+// Extension: Per-phase timing breakdown in milliseconds
+export interface OpenAPIResponseTimings {
+    redirect: number;  // Time spent on earlier hops of a redirect chain
+    dns: number;
+    tcp: number;
+    tls: number;
+    ttfb: number;      // Request sent until the response headers arrive
+    download: number;
+    total: number;
+}
+
+// Extension: Per-request execution options
+export interface OpenAPIRequestOptions {
+    timeout?: number;
+    connectTimeout?: number;
+    followRedirects?: boolean;
+    maxRedirects?: number;
+}
+
+// Extension: GraphQL request as edited, variables kept as text so {{variables}} survive
+export interface OpenAPIGraphQL {
+    query: string;
+    variables?: string;
+    operationName?: string;
+}
+
+// Extension: WebSocket session, stored on the GET operation that performs the handshake
+export interface OpenAPIWebSocketSession {
+    protocols?: string[];
+    draft?: { format: 'text' | 'json'; data: string };
+    messages?: OpenAPIWebSocketMessage[];  // Log of the last session, capped
+}
+
+export interface OpenAPIWebSocketMessage {
+    direction: 'sent' | 'received';
+    data: string;
+    binary?: boolean;
+    timestamp: number;
+}
+
+// Extension: gRPC call, stored on the POST to /package.Service/Method that carries it
+export interface OpenAPIGrpcCall {
+    protoFile: string;      // .proto file defining the service, relative to the workspace
+    web?: boolean;          // gRPC-Web over HTTP/1.1 instead of native gRPC over HTTP/2
+}
+
+// Extension: JavaScript run before the request is sent and after its response arrives
+export interface OpenAPIRequestScripts {
+    preRequest?: string;
+    test?: string;
+}
+
+// Extension: Declarative check on the response, run after every send
+export interface OpenAPIAssertion {
+    source: 'status' | 'header' | 'jsonPath' | 'body' | 'responseTime' | 'jsonSchema';
+    property?: string;      // Header name or JSONPath expression
+    operator: 'equals' | 'notEquals' | 'contains' | 'notContains' | 'matches' | 'exists' | 'notExists' | 'lessThan' | 'greaterThan';
+    value?: string;         // Expected value, or the schema as JSON for jsonSchema
+    enabled?: boolean;      // Disabled assertions are kept but skipped
 }
 
 // Helper type for converting our current format to OpenAPI